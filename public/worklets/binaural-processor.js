@@ -0,0 +1,224 @@
+/**
+ * Binaural Processor
+ *
+ * 頭部の構造モデルから両耳の信号を計算する AudioWorkletProcessor
+ * 両耳間時間差 (ITD) を小数遅延で、両耳間レベル差 (ILD) を頭の影のフィルターで表現する
+ * ブラウザの HRTF 実装に依存しないため、どの環境でも同じ出力になる
+ *
+ * 参考: C. P. Brown and R. O. Duda, "A Structural Model for Binaural Sound Synthesis" (1998)
+ *
+ * 座標系は PannerNode と同じ（x: 右, y: 上, -z: 前、リスナーは原点で前を向く）
+ */
+
+// 音速 (m/s)
+const SPEED_OF_SOUND = 343;
+// 頭の影: 耳の反対側で最も高域が落ちる角度と、そのときの係数
+const SHADOW_MIN_ANGLE = (150 * Math.PI) / 180;
+const SHADOW_MIN_ALPHA = 0.1;
+// 入力の遅延バッファ（2の累乗。最大の頭の半径でも足りる長さ）
+const DELAY_BUFFER_SIZE = 1024;
+// クロスフィード: 反対の耳に回り込む音の低域通過と遅延
+const CROSSFEED_CUTOFF = 700;
+const CROSSFEED_DELAY = 0.0003;
+const CROSSFEED_BUFFER_SIZE = 128;
+
+/**
+ * PannerNode と同じ距離モデルで距離減衰を計算
+ * hrir-spatializer.ts の getDistanceGain と同じ式
+ */
+function getDistanceGain(distance, config) {
+  const { refDistance, maxDistance, rolloffFactor, distanceModel } = config;
+  const clamped = Math.max(distance, refDistance);
+
+  switch (distanceModel) {
+    case "linear": {
+      const range = Math.max(maxDistance - refDistance, Number.EPSILON);
+      const ratio = (Math.min(clamped, maxDistance) - refDistance) / range;
+      return 1 - Math.min(rolloffFactor, 1) * ratio;
+    }
+    case "exponential":
+      return (clamped / refDistance) ** -rolloffFactor;
+    default:
+      return (
+        refDistance / (refDistance + rolloffFactor * (clamped - refDistance))
+      );
+  }
+}
+
+/**
+ * 耳の向きから見た音源の角度 (0: 耳の正面, π: 耳の反対側)
+ * side は左耳が -1、右耳が 1
+ */
+function getIncidence(x, y, z, side) {
+  const distance = Math.hypot(x, y, z);
+  // 原点では方向が決まらないため正面として扱う
+  if (distance === 0) return Math.PI / 2;
+  return Math.acos(Math.max(-1, Math.min(1, (side * x) / distance)));
+}
+
+/**
+ * 頭の表面を回り込む経路から、耳に届くまでの遅延を計算（秒）
+ */
+function getEarDelay(incidence, radius) {
+  return incidence < Math.PI / 2
+    ? (radius / SPEED_OF_SOUND) * (1 - Math.cos(incidence))
+    : (radius / SPEED_OF_SOUND) * (1 + incidence - Math.PI / 2);
+}
+
+/**
+ * 頭の影のフィルター係数を計算
+ * 1次のシェルビングフィルターを双一次変換で離散化し、耳に向いた側は高域を持ち上げ、反対側は落とす
+ */
+function getShadowCoefficients(incidence, radius) {
+  const alpha =
+    1 +
+    SHADOW_MIN_ALPHA / 2 +
+    (1 - SHADOW_MIN_ALPHA / 2) *
+      Math.cos((incidence / SHADOW_MIN_ANGLE) * Math.PI);
+  // 角周波数 c / a に対するサンプルレートの比
+  const k = (sampleRate * radius) / SPEED_OF_SOUND;
+  const norm = 1 + k;
+  return {
+    b0: (1 + alpha * k) / norm,
+    b1: (1 - alpha * k) / norm,
+    a1: (1 - k) / norm,
+  };
+}
+
+class BinauralProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      // 音源の位置（PannerNode と同じスケールの座標）
+      { name: "positionX", defaultValue: 0, automationRate: "k-rate" },
+      { name: "positionY", defaultValue: 0, automationRate: "k-rate" },
+      { name: "positionZ", defaultValue: -1, automationRate: "k-rate" },
+      // 頭の半径 (m)
+      {
+        name: "headRadius",
+        defaultValue: 0.0875,
+        minValue: 0.05,
+        maxValue: 0.12,
+        automationRate: "k-rate",
+      },
+      // 反対の耳に回り込ませる量 (0 から 1)
+      {
+        name: "crossfeed",
+        defaultValue: 0,
+        minValue: 0,
+        maxValue: 1,
+        automationRate: "k-rate",
+      },
+    ];
+  }
+
+  constructor(options) {
+    super();
+
+    // 距離モデルは AudioParam で表せないため、メッセージで受け取る
+    this.distance = {
+      distanceModel: "inverse",
+      refDistance: 1,
+      maxDistance: 10,
+      rolloffFactor: 1,
+      ...options?.processorOptions,
+    };
+    this.port.onmessage = (event) => {
+      if (event.data?.type === "distance") {
+        this.distance = { ...this.distance, ...event.data.config };
+      }
+    };
+
+    this.input = new Float32Array(DELAY_BUFFER_SIZE);
+    this.writeIndex = 0;
+    this.gain = null;
+
+    // 左右の耳ごとの状態
+    this.ears = [-1, 1].map((side) => ({
+      side,
+      delay: null,
+      x1: 0,
+      y1: 0,
+      history: new Float32Array(CROSSFEED_BUFFER_SIZE),
+      lowpass: 0,
+    }));
+    this.crossfeedDelay = Math.round(CROSSFEED_DELAY * sampleRate);
+    this.crossfeedCoefficient =
+      1 - Math.exp((-2 * Math.PI * CROSSFEED_CUTOFF) / sampleRate);
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0][0];
+    const output = outputs[0];
+    // 入力が未接続の間は無音を出力
+    if (!input) return true;
+
+    const frames = output[0].length;
+    const x = parameters.positionX[0];
+    const y = parameters.positionY[0];
+    const z = parameters.positionZ[0];
+    const radius = parameters.headRadius[0];
+    const crossfeed = parameters.crossfeed[0];
+
+    // 遅延と音量はブロック内で直線的に変化させ、位置の変化によるノイズを防ぐ
+    const targetGain = getDistanceGain(Math.hypot(x, y, z), this.distance);
+    const startGain = this.gain ?? targetGain;
+    const targets = this.ears.map((ear) => {
+      const incidence = getIncidence(x, y, z, ear.side);
+      const delay = getEarDelay(incidence, radius) * sampleRate;
+      const start = ear.delay ?? delay;
+      ear.delay = delay;
+      return {
+        start,
+        step: (delay - start) / frames,
+        ...getShadowCoefficients(incidence, radius),
+      };
+    });
+    this.gain = targetGain;
+
+    const mask = DELAY_BUFFER_SIZE - 1;
+    const historyMask = CROSSFEED_BUFFER_SIZE - 1;
+    const normalize = 1 / (1 + crossfeed);
+
+    for (let i = 0; i < frames; i++) {
+      this.input[this.writeIndex] = input[i];
+      const gain = startGain + ((targetGain - startGain) * (i + 1)) / frames;
+
+      // 各耳に届く信号: 小数遅延 -> 頭の影
+      for (let e = 0; e < 2; e++) {
+        const ear = this.ears[e];
+        const { start, step, b0, b1, a1 } = targets[e];
+        const delay = start + step * (i + 1);
+        const position = this.writeIndex - delay;
+        const index = Math.floor(position);
+        const fraction = position - index;
+        const current = this.input[index & mask];
+        const next = this.input[(index + 1) & mask];
+        const sample = current + (next - current) * fraction;
+
+        const filtered = b0 * sample + b1 * ear.x1 - a1 * ear.y1;
+        ear.x1 = sample;
+        ear.y1 = filtered;
+        ear.history[this.writeIndex & historyMask] = filtered * gain;
+      }
+
+      // クロスフィード: 反対の耳の信号を少し遅らせ、低域だけを混ぜる
+      for (let e = 0; e < 2; e++) {
+        const ear = this.ears[e];
+        const opposite = this.ears[1 - e];
+        const direct = ear.history[this.writeIndex & historyMask];
+        const crossed =
+          opposite.history[
+            (this.writeIndex - this.crossfeedDelay) & historyMask
+          ];
+        ear.lowpass += this.crossfeedCoefficient * (crossed - ear.lowpass);
+        output[e][i] = (direct + crossfeed * ear.lowpass) * normalize;
+      }
+
+      this.writeIndex = (this.writeIndex + 1) & mask;
+    }
+
+    return true;
+  }
+}
+
+registerProcessor("binaural-processor", BinauralProcessor);
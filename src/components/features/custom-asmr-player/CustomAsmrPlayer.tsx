@@ -1,11 +1,67 @@
 "use client";
 
 import { AlertCircle } from "lucide-react";
-import { useCallback } from "react";
+import { type ReactNode, useCallback, useMemo, useState } from "react";
+import { AdvancedSettingsSheet } from "./advanced-settings/AdvancedSettingsSheet";
+import { RendererSettings } from "./advanced-settings/RendererSettings";
+import { AmbiencePanel } from "./ambience/AmbiencePanel";
 import { AudioControls } from "./audio-controls/AudioControls";
+import { SignalMonitor } from "./audio-controls/SignalMonitor";
+import { SleepTimer } from "./audio-controls/SleepTimer";
+import { BeatGeneratorPanel } from "./beat-generator/BeatGeneratorPanel";
+import { DynamicsPanel } from "./dynamics/DynamicsPanel";
+import { EnvironmentPicker } from "./environment/EnvironmentPicker";
+import { EqualizerPanel } from "./equalizer/EqualizerPanel";
+import { FileSourcePanel } from "./file-source/FileSourcePanel";
+import { HeadTrackingPanel } from "./head-tracking/HeadTrackingPanel";
+import { useAmbience } from "./hooks/use-ambience";
+import { useAutoGain } from "./hooks/use-auto-gain";
+import { useBeatGenerator } from "./hooks/use-beat-generator";
+import { useFileAudioSource } from "./hooks/use-file-audio-source";
+import { useGamepadControl } from "./hooks/use-gamepad-control";
+import { useHeadTracking } from "./hooks/use-head-tracking";
+import { useHrirLoader } from "./hooks/use-hrir-loader";
+import { useLevelMeter } from "./hooks/use-level-meter";
+import { useMicrophoneCapture } from "./hooks/use-microphone-capture";
+import { useMotionPreset } from "./hooks/use-motion-preset";
+import { useMotionRecorder } from "./hooks/use-motion-recorder";
+import { useOfflineExport } from "./hooks/use-offline-export";
+import { useOutputRecorder } from "./hooks/use-output-recorder";
+import { useSceneFile } from "./hooks/use-scene-file";
+import { useScenePresets } from "./hooks/use-scene-presets";
+import { useSceneShare } from "./hooks/use-scene-share";
+import { useSleepTimer } from "./hooks/use-sleep-timer";
 import { useSpatialAudio } from "./hooks/use-spatial-audio";
-import { useTabAudioCapture } from "./hooks/use-tab-audio-capture";
-import { PositionPad } from "./position-pad/PositionPad";
+import {
+  type CaptureStatus,
+  useTabAudioCapture,
+} from "./hooks/use-tab-audio-capture";
+import type { AmbienceKind } from "./lib/audio/ambience";
+import type { InputSourceType } from "./lib/audio/input-source";
+import {
+  DEFAULT_SOURCE_PAD_POSITIONS,
+  SOURCE_LAYOUTS,
+  type SourceLayout,
+  VIRTUAL_SOURCE_LABELS,
+} from "./lib/audio/source-layout";
+import {
+  type Position3D,
+  padToPosition3D,
+  position3DToPad,
+  type VirtualSourceKind,
+} from "./lib/audio/spatial-audio-engine";
+import type { WavBitDepth } from "./lib/audio/wav-encoder";
+import { toExportFileName } from "./lib/download";
+import type { MotionPresetKind, PadPoint } from "./lib/motion/motion-presets";
+import type { Scene } from "./lib/scene/scene";
+import { MicrophoneSourcePanel } from "./microphone-source/MicrophoneSourcePanel";
+import { MotionPresetPicker } from "./motion-presets/MotionPresetPicker";
+import { MotionRecorder } from "./motion-recorder/MotionRecorder";
+import { OfflineExportPanel } from "./offline-export/OfflineExportPanel";
+import { OutputRecorder } from "./output-recorder/OutputRecorder";
+import { type PadMarker, PositionPad } from "./position-pad/PositionPad";
+import { SceneImportErrorDialog } from "./scene-presets/SceneImportErrorDialog";
+import { ScenePresetPanel } from "./scene-presets/ScenePresetPanel";
 
 /**
  * Custom ASMRのメインプレイヤーコンポーネント
@@ -23,47 +79,569 @@ export function CustomAsmrPlayer() {
     stopCapture,
   } = useTabAudioCapture();
 
+  // マイク / ライン入力
+  const microphone = useMicrophoneCapture();
+
   // 3D空間音響
   const {
     status: spatialStatus,
+    layout,
+    sources,
     gain,
+    config,
+    environment,
+    equalizer,
+    dynamics,
+    orientation,
     initialize,
+    restore,
     connectStream,
+    connectSource,
     disconnectStream,
+    setLayout,
     setPosition,
+    followPosition,
+    movePosition,
+    setSourceGain,
+    setSourceInputMode,
     setGain,
+    setConfig,
+    resetConfig,
+    setEnvironment,
+    setEqualizer,
+    setDynamics,
+    setHrirSet,
+    setOrientation,
     cleanup,
+    getNodes,
   } = useSpatialAudio();
 
+  // 端末のセンサーや外部トラッカーによる頭の向きの追従
+  const headTracking = useHeadTracking({ onOrientation: setOrientation });
+
+  // SOFAファイルから読み込んだHRIRセット
+  const hrirLoader = useHrirLoader();
+
+  // 入力ソースの種類
+  const [sourceType, setSourceType] = useState<InputSourceType>("tab");
+
+  // ローカルファイル再生
+  const fileSource = useFileAudioSource({
+    getContext: useCallback(() => getNodes()?.context ?? null, [getNodes]),
+    connectSource,
+  });
+
+  // パッドで選択中の音源
+  const [selectedSource, setSelectedSource] =
+    useState<VirtualSourceKind>("full");
+
+  // 記録した動きの再生対象
+  const [motionTarget, setMotionTarget] = useState<VirtualSourceKind | null>(
+    null,
+  );
+  // 動きを記録した音源（書き出しではこの音源に適用する）
+  const [recordedSource, setRecordedSource] =
+    useState<VirtualSourceKind | null>(null);
+
+  // 動きの記録と再生
+  const motion = useMotionRecorder({
+    getPanner: useCallback(
+      () =>
+        getNodes()?.sources.find((source) => source.kind === selectedSource)
+          ?.panner ?? null,
+      [getNodes, selectedSource],
+    ),
+    // 画面更新ごとの位置はノードだけに反映し、表示は motion.position で間引いて更新する
+    onFrame: useCallback(
+      (position: Position3D) => {
+        if (motionTarget) {
+          followPosition(motionTarget, position);
+        }
+      },
+      [motionTarget, followPosition],
+    ),
+    onStop: useCallback(
+      (position: Position3D) => {
+        // 再生を止めた位置を音源の位置として確定
+        const { padX, padY, height } = position3DToPad(position);
+        if (motionTarget) {
+          setPosition(padX, padY, height, motionTarget);
+        }
+        setMotionTarget(null);
+      },
+      [motionTarget, setPosition],
+    ),
+  });
+
+  // モーションプリセットで音源を自動的に動かす
+  const motionPreset = useMotionPreset({
+    enabled: spatialStatus === "active",
+    onFrame: movePosition,
+    onStop: useCallback(
+      (kind: VirtualSourceKind, position: Position3D) => {
+        // 止めた位置を音源の位置として確定
+        const { padX, padY, height } = position3DToPad(position);
+        setPosition(padX, padY, height, kind);
+      },
+      [setPosition],
+    ),
+  });
+
+  // オフラインレンダリングでの書き出し
+  const offlineExport = useOfflineExport();
+
+  // 処理後の出力の録音
+  const outputRecorder = useOutputRecorder({ getNodes });
+
+  // 出力の音量計測（ファイルの停止中は入力がないのが当然のため警告しない）
+  const levelMeter = useLevelMeter({
+    getNodes,
+    enabled: spatialStatus === "active",
+    detectSilence: sourceType !== "file" || fileSource.status === "playing",
+  });
+
+  // ラウドネスの計測と自動音量調整
+  const autoGain = useAutoGain({
+    getNodes,
+    enabled: spatialStatus === "active",
+    autoGain: dynamics.autoGain,
+    targetLoudness: dynamics.targetLoudness,
+  });
+
+  // 環境音（雨音など）
+  const ambience = useAmbience({
+    getNodes,
+    enabled: spatialStatus === "active",
+    config,
+  });
+
+  // バイノーラルビート・アイソクロニックトーン
+  const beatGenerator = useBeatGenerator({
+    getNodes,
+    enabled: spatialStatus === "active",
+  });
+
   // 3D音響を開始
   const handleStart = useCallback(async () => {
     // 空間音響エンジンを初期化
     const initialized = await initialize();
     if (!initialized) return;
 
-    // タブ音声をキャプチャ
-    const stream = await startCapture();
+    // ファイル入力ならそのまま再生
+    if (sourceType === "file") {
+      fileSource.play();
+      return;
+    }
+
+    // タブ音声またはマイクをキャプチャ
+    const stream =
+      sourceType === "mic"
+        ? await microphone.startCapture()
+        : await startCapture();
     if (!stream) return;
 
     // ストリームを接続
     connectStream(stream);
-  }, [initialize, startCapture, connectStream]);
+  }, [
+    initialize,
+    sourceType,
+    fileSource.play,
+    microphone.startCapture,
+    startCapture,
+    connectStream,
+  ]);
 
   // 3D音響を停止
-  const handleStop = useCallback(() => {
-    disconnectStream();
-    stopCapture();
-    cleanup();
-  }, [disconnectStream, stopCapture, cleanup]);
+  // タブの共有を残すと共有元のタブは消音されたままになり、次の開始で選び直さずに済む
+  const stopSpatialAudio = useCallback(
+    (stopTabCapture: boolean) => {
+      outputRecorder.stop();
+      motion.stop();
+      fileSource.stop();
+      disconnectStream();
+      if (stopTabCapture) {
+        stopCapture();
+      }
+      microphone.stopCapture();
+      cleanup();
+    },
+    [
+      outputRecorder.stop,
+      motion.stop,
+      fileSource.stop,
+      disconnectStream,
+      stopCapture,
+      microphone.stopCapture,
+      cleanup,
+    ],
+  );
+
+  const handleStop = useCallback(
+    () => stopSpatialAudio(true),
+    [stopSpatialAudio],
+  );
+
+  // スリープタイマー（時間になったら徐々に音量を下げて停止）
+  const [sleepStopsCapture, setSleepStopsCapture] = useState(false);
+  const sleepTimer = useSleepTimer({
+    getNodes,
+    enabled: spatialStatus === "active",
+    gain,
+    onExpire: useCallback(
+      () => stopSpatialAudio(sleepStopsCapture),
+      [stopSpatialAudio, sleepStopsCapture],
+    ),
+  });
+
+  // 音声ファイルを読み込む（デコードにAudioContextが必要なため先に初期化）
+  const handleFileSelect = useCallback(
+    async (file: File) => {
+      const initialized = await initialize();
+      const context = getNodes()?.context;
+      if (!initialized || !context) return;
+
+      await fileSource.loadFile(file, context);
+    },
+    [initialize, getNodes, fileSource.loadFile],
+  );
+
+  // ファイルを再生（未初期化なら初期化してから）
+  const handleFilePlay = useCallback(async () => {
+    const initialized = await initialize();
+    if (!initialized) return;
+
+    fileSource.play();
+  }, [initialize, fileSource.play]);
+
+  // SOFAファイルを読み込み、HRIRバックエンドに切り替える
+  const handleSofaSelect = useCallback(
+    async (file: File) => {
+      const hrirSet = await hrirLoader.loadFile(file);
+      if (!hrirSet) return;
+
+      setHrirSet(hrirSet);
+      setConfig({ renderer: "hrir" });
+    },
+    [hrirLoader.loadFile, setHrirSet, setConfig],
+  );
+
+  // 読み込んだHRIRセットを外す（内蔵HRTFに戻る）
+  const handleSofaClear = useCallback(() => {
+    hrirLoader.clear();
+    setHrirSet(null);
+  }, [hrirLoader.clear, setHrirSet]);
+
+  // 読み込んだファイルを現在の配置と記録した動きでWAVに書き出す
+  const handleExport = useCallback(
+    (bitDepth: WavBitDepth, includeMotion: boolean) => {
+      if (!fileSource.buffer) return;
+
+      offlineExport.exportWav(
+        {
+          buffer: fileSource.buffer,
+          sources,
+          config,
+          gain,
+          environment,
+          equalizer,
+          dynamics,
+          hrirSet: hrirLoader.hrirSet,
+          orientation,
+          automation:
+            includeMotion && recordedSource
+              ? {
+                  kind: recordedSource,
+                  keyframes: motion.keyframes,
+                  loopMode: motion.loopMode,
+                  speed: motion.speed,
+                }
+              : null,
+        },
+        toExportFileName(fileSource.fileName, "3d", "wav"),
+        bitDepth,
+      );
+    },
+    [
+      fileSource.buffer,
+      fileSource.fileName,
+      offlineExport.exportWav,
+      sources,
+      config,
+      gain,
+      environment,
+      equalizer,
+      dynamics,
+      hrirLoader.hrirSet,
+      orientation,
+      recordedSource,
+      motion.keyframes,
+      motion.loopMode,
+      motion.speed,
+    ],
+  );
+
+  // 音源レイアウトを切り替え（自動の動きは止め、選択は先頭の音源に戻す）
+  const handleLayoutChange = useCallback(
+    (next: SourceLayout) => {
+      motion.stop();
+      motionPreset.stop();
+      setLayout(next);
+      setSelectedSource(SOURCE_LAYOUTS[next][0]);
+    },
+    [motion.stop, motionPreset.stop, setLayout],
+  );
 
   // 音源位置を更新
   const handlePositionChange = useCallback(
-    (x: number, y: number) => {
-      setPosition(x, y, 0);
+    (id: string, x: number, y: number, height: number) => {
+      const kind = id as VirtualSourceKind;
+
+      // 自動で動いている音源を掴んだら手動操作を優先
+      if (kind === motionTarget) {
+        motion.stop();
+      }
+      if (kind === motionPreset.target) {
+        motionPreset.stop();
+      }
+      if (kind === recordedSource) {
+        motion.recordPosition(padToPosition3D(x, y, height));
+      }
+      setPosition(x, y, height, kind);
     },
-    [setPosition],
+    [
+      motion.stop,
+      motion.recordPosition,
+      motionPreset.stop,
+      motionPreset.target,
+      motionTarget,
+      recordedSource,
+      setPosition,
+    ],
   );
 
+  // 選択中の音源の動きの記録を開始
+  const handleStartRecording = useCallback(() => {
+    motion.startRecording();
+    setRecordedSource(selectedSource);
+  }, [motion.startRecording, selectedSource]);
+
+  // 記録した動きを選択中の音源で再生（プリセットは止める）
+  const handlePlayMotion = useCallback(() => {
+    motionPreset.stop();
+    if (motion.play()) {
+      setMotionTarget(selectedSource);
+    }
+  }, [motion.play, motionPreset.stop, selectedSource]);
+
+  // モーションプリセットを選択中の音源で開始（記録の再生は止める）
+  // 開始した後に別の音源を選択しても、プリセットは開始した音源を動かし続ける
+  const handlePresetChange = useCallback(
+    (preset: MotionPresetKind | null) => {
+      motion.stop();
+      if (preset === null) {
+        motionPreset.stop();
+        return;
+      }
+      const source = sources.find((s) => s.kind === selectedSource);
+      motionPreset.start(preset, {
+        kind: selectedSource,
+        baseHeight: source?.position.y ?? 0,
+      });
+    },
+    [
+      motion.stop,
+      motionPreset.stop,
+      motionPreset.start,
+      sources,
+      selectedSource,
+    ],
+  );
+
+  // 現在のシーン（保存と前回のセッションの自動保存に使う）
+  const scene = useMemo<Scene>(
+    () => ({
+      layout,
+      sources,
+      gain,
+      config,
+      environment,
+      equalizer,
+      dynamics,
+      orientation,
+      ambience: ambience.layers,
+      beat: beatGenerator.settings,
+      motionPreset: {
+        preset: motionPreset.preset,
+        params: motionPreset.params,
+      },
+    }),
+    [
+      layout,
+      sources,
+      gain,
+      config,
+      environment,
+      equalizer,
+      dynamics,
+      orientation,
+      ambience.layers,
+      beatGenerator.settings,
+      motionPreset.preset,
+      motionPreset.params,
+    ],
+  );
+
+  // シーンを読み込む（記録の再生は止め、選択は先頭の音源に戻す）
+  const handleSceneLoad = useCallback(
+    (next: Scene) => {
+      // 自動の動きは読み込んだ位置を上書きしないよう、復元の前に止める
+      motion.stop();
+      motionPreset.stop();
+      restore(next);
+      for (const kind of Object.keys(next.ambience) as AmbienceKind[]) {
+        ambience.setLayer(kind, next.ambience[kind]);
+      }
+      beatGenerator.setSettings(next.beat);
+
+      const firstKind = SOURCE_LAYOUTS[next.layout][0];
+      const first = next.sources.find((source) => source.kind === firstKind);
+      motionPreset.setRate(next.motionPreset.params.rate);
+      motionPreset.setDepth(next.motionPreset.params.depth);
+      if (next.motionPreset.preset) {
+        motionPreset.start(next.motionPreset.preset, {
+          kind: firstKind,
+          baseHeight: first?.position.y ?? 0,
+        });
+      }
+      setSelectedSource(firstKind);
+    },
+    [
+      motion.stop,
+      restore,
+      ambience.setLayer,
+      beatGenerator.setSettings,
+      motionPreset.stop,
+      motionPreset.start,
+      motionPreset.setRate,
+      motionPreset.setDepth,
+    ],
+  );
+
+  // 名前を付けたシーンの保存と、前回のセッションの復元
+  const scenePresets = useScenePresets({ scene, onLoad: handleSceneLoad });
+
+  // リンクでの共有（?scene= のシーンは前回のセッションより優先して読み込む）
+  const sceneShare = useSceneShare({ scene, onLoad: handleSceneLoad });
+
+  // JSONファイルでの書き出しと、検証してからの読み込み
+  const sceneFile = useSceneFile({ scene, onLoad: handleSceneLoad });
+
+  // パッドに表示するマーカー
+  const markers = useMemo<PadMarker[]>(
+    () =>
+      sources.map((source) => {
+        const position =
+          source.kind === motionTarget && motion.position
+            ? motion.position
+            : source.kind === motionPreset.target && motionPreset.position
+              ? motionPreset.position
+              : source.position;
+        const { padX, padY, height } = position3DToPad(position);
+        return {
+          id: source.kind,
+          label: VIRTUAL_SOURCE_LABELS[source.kind].short,
+          name: VIRTUAL_SOURCE_LABELS[source.kind].name,
+          x: padX,
+          y: padY,
+          height,
+          home: {
+            x: DEFAULT_SOURCE_PAD_POSITIONS[source.kind].padX,
+            y: DEFAULT_SOURCE_PAD_POSITIONS[source.kind].padY,
+            height: 0,
+          },
+        };
+      }),
+    [
+      sources,
+      motionTarget,
+      motion.position,
+      motionPreset.target,
+      motionPreset.position,
+    ],
+  );
+
+  // ゲームパッドで選択中の音源を動かす
+  const gamepad = useGamepadControl({
+    enabled: spatialStatus === "active",
+    getPosition: useCallback(
+      () => markers.find((marker) => marker.id === selectedSource) ?? null,
+      [markers, selectedSource],
+    ),
+    onMove: useCallback(
+      (point: PadPoint) =>
+        handlePositionChange(selectedSource, point.x, point.y, point.height),
+      [handlePositionChange, selectedSource],
+    ),
+  });
+
+  // 選択中の入力ソースの状態
+  const inputStates: Record<
+    InputSourceType,
+    { isReady: boolean; status: CaptureStatus; error: string | null }
+  > = {
+    tab: { isReady: isSupported, status: captureStatus, error: captureError },
+    file: {
+      isReady: fileSource.buffer !== null,
+      status: fileSource.status === "error" ? "error" : "idle",
+      error: fileSource.errorMessage,
+    },
+    mic: {
+      isReady: microphone.isSupported,
+      status: microphone.status,
+      error: microphone.errorMessage,
+    },
+  };
+  const input = inputStates[sourceType];
+
+  // 録音の書き出し名（ファイル入力なら元のファイル名を使う）
+  const recordingFileName = sourceType === "file" ? fileSource.fileName : null;
+
+  // 入力ソースごとの追加UI
+  const sourcePanels: Record<InputSourceType, ReactNode> = {
+    tab: null,
+    file: (
+      <>
+        <FileSourcePanel
+          status={fileSource.status}
+          fileName={fileSource.fileName}
+          duration={fileSource.duration}
+          currentTime={fileSource.currentTime}
+          loop={fileSource.loop}
+          onFileSelect={handleFileSelect}
+          onPlay={handleFilePlay}
+          onPause={fileSource.pause}
+          onSeek={fileSource.seek}
+          onLoopChange={fileSource.setLoop}
+        />
+        {fileSource.buffer && (
+          <OfflineExportPanel
+            status={offlineExport.status}
+            progress={offlineExport.progress}
+            errorMessage={offlineExport.errorMessage}
+            hasMotion={motion.keyframes.length > 1}
+            onExport={handleExport}
+          />
+        )}
+      </>
+    ),
+    mic: (
+      <MicrophoneSourcePanel
+        processing={microphone.processing}
+        onProcessingChange={microphone.setProcessing}
+      />
+    ),
+  };
+
   return (
     <>
       {/* ブラウザ互換性の警告 */}
@@ -78,7 +656,7 @@ export function CustomAsmrPlayer() {
               <p className="mt-1 text-sm text-yellow-700 dark:text-yellow-300">
                 タブ音声キャプチャ機能は Chrome または Edge
                 で最も安定して動作します。
-                他のブラウザでは一部機能が制限される場合があります。
+                他のブラウザでは「ファイル」入力で音声ファイルを再生できます。
               </p>
             </div>
           </div>
@@ -89,23 +667,178 @@ export function CustomAsmrPlayer() {
       <section className="mx-auto grid max-w-6xl grid-cols-1 gap-6 lg:grid-cols-2">
         {/* 左カラム: 音響コントロール */}
         <AudioControls
-          captureStatus={captureStatus}
-          captureError={captureError}
+          sourceType={sourceType}
+          onSourceTypeChange={setSourceType}
+          sourcePanel={sourcePanels[sourceType]}
+          isSourceReady={input.isReady}
+          captureStatus={input.status}
+          captureError={input.error}
           isSupported={isSupported}
           spatialStatus={spatialStatus}
+          signalMonitor={
+            <SignalMonitor
+              levels={levelMeter.levels}
+              getSpectrumAnalyser={levelMeter.getSpectrumAnalyser}
+              active={spatialStatus === "active"}
+              hasNoSignal={levelMeter.hasNoSignal}
+              sourceType={sourceType}
+            />
+          }
+          sleepTimer={
+            <SleepTimer
+              status={sleepTimer.status}
+              remaining={sleepTimer.remaining}
+              onStart={sleepTimer.start}
+              onCancel={sleepTimer.cancel}
+              stopCapture={sleepStopsCapture}
+              onStopCaptureChange={setSleepStopsCapture}
+              showStopCapture={sourceType === "tab"}
+            />
+          }
+          sleepRemaining={sleepTimer.remaining}
           gain={gain}
           onGainChange={setGain}
+          layout={layout}
+          onLayoutChange={handleLayoutChange}
+          sources={sources}
+          onSourceGainChange={setSourceGain}
+          onSourceInputModeChange={setSourceInputMode}
           onStart={handleStart}
           onStop={handleStop}
-        />
+        >
+          <MotionPresetPicker
+            preset={motionPreset.preset}
+            onPresetChange={handlePresetChange}
+            rate={motionPreset.params.rate}
+            onRateChange={motionPreset.setRate}
+            depth={motionPreset.params.depth}
+            onDepthChange={motionPreset.setDepth}
+            disabled={spatialStatus !== "active"}
+          />
+          <EnvironmentPicker
+            environment={environment}
+            onEnvironmentChange={setEnvironment}
+          />
+          <AmbiencePanel
+            layers={ambience.layers}
+            onLayerChange={ambience.setLayer}
+          />
+          <BeatGeneratorPanel
+            settings={beatGenerator.settings}
+            onSettingsChange={beatGenerator.setSettings}
+            program={beatGenerator.program}
+            currentBeat={beatGenerator.currentBeat}
+            programRemaining={beatGenerator.programRemaining}
+            onProgramStart={beatGenerator.startProgram}
+            onProgramStop={beatGenerator.stopProgram}
+          />
+          <EqualizerPanel
+            equalizer={equalizer}
+            onEqualizerChange={setEqualizer}
+          />
+          <DynamicsPanel
+            dynamics={dynamics}
+            onDynamicsChange={setDynamics}
+            loudness={autoGain.loudness}
+            gainAdjustment={autoGain.gainAdjustment}
+          />
+          <AdvancedSettingsSheet
+            config={config}
+            onConfigChange={setConfig}
+            onReset={resetConfig}
+          >
+            <RendererSettings
+              config={config}
+              onConfigChange={setConfig}
+              status={hrirLoader.status}
+              hrirSetName={hrirLoader.hrirSet?.name ?? null}
+              measurementCount={hrirLoader.hrirSet?.measurements.length ?? 0}
+              errorMessage={hrirLoader.errorMessage}
+              onFileSelect={handleSofaSelect}
+              onClear={handleSofaClear}
+            />
+          </AdvancedSettingsSheet>
+        </AudioControls>
 
-        {/* 右カラム: 位置パッド */}
-        <PositionPad
-          onPositionChange={handlePositionChange}
-          disabled={spatialStatus !== "active"}
-          initialPosition={{ x: 0, y: 0.5 }}
-        />
+        {/* 右カラム: 位置パッド、頭の向き、動きの記録、出力の録音、シーン */}
+        <div className="space-y-6">
+          <PositionPad
+            markers={markers}
+            selectedId={selectedSource}
+            onSelect={(id) => setSelectedSource(id as VirtualSourceKind)}
+            onPositionChange={handlePositionChange}
+            listenerYaw={orientation.yaw}
+            onListenerYawChange={
+              headTracking.status === "tracking"
+                ? undefined
+                : (yaw) => setOrientation({ yaw })
+            }
+            gamepadName={gamepad.gamepadName}
+            disabled={spatialStatus !== "active"}
+          />
+          <HeadTrackingPanel
+            orientation={orientation}
+            onOrientationChange={setOrientation}
+            status={headTracking.status}
+            source={headTracking.source}
+            errorMessage={headTracking.errorMessage}
+            isDeviceSupported={headTracking.isDeviceSupported}
+            onStart={headTracking.start}
+            onStop={headTracking.stop}
+            onRecenter={headTracking.recenter}
+          />
+          <MotionRecorder
+            status={motion.status}
+            keyframeCount={motion.keyframes.length}
+            duration={motion.duration}
+            loopMode={motion.loopMode}
+            onLoopModeChange={motion.setLoopMode}
+            speed={motion.speed}
+            onSpeedChange={motion.setSpeed}
+            onStartRecording={handleStartRecording}
+            onStopRecording={motion.stopRecording}
+            onPlay={handlePlayMotion}
+            onStop={motion.stop}
+            onClear={motion.clear}
+            disabled={spatialStatus !== "active"}
+          />
+          <OutputRecorder
+            status={outputRecorder.status}
+            elapsed={outputRecorder.elapsed}
+            recording={outputRecorder.recording}
+            errorMessage={outputRecorder.errorMessage}
+            onStart={outputRecorder.start}
+            onStop={outputRecorder.stop}
+            onDownload={() => outputRecorder.download(recordingFileName)}
+            onDownloadWav={() =>
+              outputRecorder.downloadWav(recordingFileName, 24)
+            }
+            onDiscard={outputRecorder.discard}
+            isSupported={outputRecorder.isSupported}
+            disabled={spatialStatus !== "active"}
+          />
+          <ScenePresetPanel
+            presets={scenePresets.presets}
+            onSave={scenePresets.save}
+            onLoad={scenePresets.load}
+            onRemove={scenePresets.remove}
+            restoreLastSession={scenePresets.restoreLastSession}
+            onRestoreLastSessionChange={scenePresets.setRestoreLastSession}
+            shareStatus={sceneShare.status}
+            onShare={sceneShare.copyLink}
+            onExport={sceneFile.exportFile}
+            onImport={sceneFile.importFile}
+            errorMessage={scenePresets.errorMessage ?? sceneShare.errorMessage}
+          />
+        </div>
       </section>
+
+      {/* シーンファイルの読み込みエラー */}
+      <SceneImportErrorDialog
+        errorMessage={sceneFile.errorMessage}
+        issues={sceneFile.issues}
+        onClose={sceneFile.dismissError}
+      />
     </>
   );
 }
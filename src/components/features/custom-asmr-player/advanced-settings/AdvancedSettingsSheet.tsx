@@ -0,0 +1,211 @@
+"use client";
+
+import { RotateCcw, Settings2 } from "lucide-react";
+import { type ReactNode, useId } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Switch } from "@/components/ui/switch";
+import {
+  MAX_MAX_DISTANCE,
+  MAX_REF_DISTANCE,
+  MAX_ROLLOFF_FACTOR,
+  MIN_MAX_DISTANCE,
+  MIN_REF_DISTANCE,
+  type SpatialAudioConfig,
+} from "../lib/audio/spatial-audio-engine";
+import { ConfigSlider } from "./ConfigSlider";
+
+interface AdvancedSettingsSheetProps {
+  // パンナー設定
+  config: SpatialAudioConfig;
+  onConfigChange?: (config: Partial<SpatialAudioConfig>) => void;
+  onReset?: () => void;
+
+  // 追加の設定セクション
+  children?: ReactNode;
+}
+
+// パニングモデルの表示名
+const PANNING_MODEL_LABELS: Record<PanningModelType, string> = {
+  HRTF: "HRTF（立体的）",
+  equalpower: "Equal Power（軽量・左右のみ）",
+};
+
+// 距離モデルの表示名
+const DISTANCE_MODEL_LABELS: Record<DistanceModelType, string> = {
+  linear: "Linear（直線的な減衰）",
+  inverse: "Inverse（自然な減衰）",
+  exponential: "Exponential（急な減衰）",
+};
+
+export function AdvancedSettingsSheet({
+  config,
+  onConfigChange,
+  onReset,
+  children,
+}: AdvancedSettingsSheetProps) {
+  const airAbsorptionId = useId();
+  const proximityEffectId = useId();
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full">
+          <Settings2 className="mr-2 h-4 w-4" />
+          詳細設定
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>空間音響の詳細設定</SheetTitle>
+          <SheetDescription>
+            変更は再生中の音にすぐ反映されます。
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 px-4">
+          {children}
+
+          {/* パニングモデル */}
+          <div className="space-y-2">
+            <span className="font-medium text-sm">パニングモデル</span>
+            <Select
+              value={config.panningModel}
+              onValueChange={(value) =>
+                onConfigChange?.({ panningModel: value as PanningModelType })
+              }
+            >
+              <SelectTrigger className="w-full" aria-label="パニングモデル">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PANNING_MODEL_LABELS) as PanningModelType[]).map(
+                  (model) => (
+                    <SelectItem key={model} value={model}>
+                      {PANNING_MODEL_LABELS[model]}
+                    </SelectItem>
+                  ),
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* 距離モデル */}
+          <div className="space-y-2">
+            <span className="font-medium text-sm">距離モデル</span>
+            <Select
+              value={config.distanceModel}
+              onValueChange={(value) =>
+                onConfigChange?.({ distanceModel: value as DistanceModelType })
+              }
+            >
+              <SelectTrigger className="w-full" aria-label="距離モデル">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(
+                  Object.keys(DISTANCE_MODEL_LABELS) as DistanceModelType[]
+                ).map((model) => (
+                  <SelectItem key={model} value={model}>
+                    {DISTANCE_MODEL_LABELS[model]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* 距離フィルター */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor={airAbsorptionId} className="text-sm">
+                空気吸収（遠い音をこもらせる）
+              </Label>
+              <Switch
+                id={airAbsorptionId}
+                checked={config.airAbsorption}
+                onCheckedChange={(airAbsorption) =>
+                  onConfigChange?.({ airAbsorption })
+                }
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor={proximityEffectId} className="text-sm">
+                近接効果（耳元の音を強調）
+              </Label>
+              <Switch
+                id={proximityEffectId}
+                checked={config.proximityEffect}
+                onCheckedChange={(proximityEffect) =>
+                  onConfigChange?.({ proximityEffect })
+                }
+              />
+            </div>
+          </div>
+
+          {/* 距離パラメータ */}
+          <ConfigSlider
+            label="参照距離"
+            description="この距離までは音量が下がりません。"
+            value={config.refDistance}
+            min={MIN_REF_DISTANCE}
+            max={MAX_REF_DISTANCE}
+            step={0.1}
+            onChange={(refDistance) =>
+              onConfigChange?.({
+                refDistance,
+                // 参照距離は最大距離を超えないように揃える
+                maxDistance: Math.max(config.maxDistance, refDistance),
+              })
+            }
+          />
+          <ConfigSlider
+            label="最大距離"
+            description="Linear でのみ使われ、この距離で音量が最も小さくなります。"
+            value={config.maxDistance}
+            min={MIN_MAX_DISTANCE}
+            max={MAX_MAX_DISTANCE}
+            step={1}
+            onChange={(maxDistance) =>
+              onConfigChange?.({
+                maxDistance,
+                refDistance: Math.min(config.refDistance, maxDistance),
+              })
+            }
+          />
+          <ConfigSlider
+            label="減衰係数"
+            description="大きいほど離れたときの音量の下がり方が急になります（Linear では 1 が上限）。"
+            value={config.rolloffFactor}
+            min={0}
+            max={MAX_ROLLOFF_FACTOR}
+            step={0.1}
+            onChange={(rolloffFactor) => onConfigChange?.({ rolloffFactor })}
+          />
+        </div>
+
+        <SheetFooter>
+          <Button variant="outline" onClick={onReset}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            既定値に戻す
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
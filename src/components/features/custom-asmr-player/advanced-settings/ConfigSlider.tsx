@@ -0,0 +1,45 @@
+"use client";
+
+import { Slider } from "@/components/ui/slider";
+
+interface ConfigSliderProps {
+  label: string;
+  description: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}
+
+// 数値設定のスライダー
+export function ConfigSlider({
+  label,
+  description,
+  value,
+  min,
+  max,
+  step,
+  onChange,
+}: ConfigSliderProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">{label}</span>
+        <span className="font-mono text-muted-foreground text-xs">
+          {value.toFixed(step < 1 ? 1 : 0)}
+        </span>
+      </div>
+      <Slider
+        value={[value]}
+        onValueChange={(values) => onChange(values[0])}
+        min={min}
+        max={max}
+        step={step}
+        className="w-full"
+        aria-label={label}
+      />
+      <p className="text-muted-foreground text-xs">{description}</p>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+"use client";
+
+import { FileAudio, Loader2, Upload, X } from "lucide-react";
+import { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { HrirLoaderStatus } from "../hooks/use-hrir-loader";
+import {
+  MAX_HEAD_RADIUS,
+  MIN_HEAD_RADIUS,
+} from "../lib/audio/binaural-renderer";
+import type { HrirInterpolation } from "../lib/audio/hrir-spatializer";
+import { SOFA_FILE_ACCEPT } from "../lib/audio/sofa";
+import type {
+  SpatialAudioConfig,
+  SpatialRenderer,
+} from "../lib/audio/spatial-audio-engine";
+import { ConfigSlider } from "./ConfigSlider";
+
+interface RendererSettingsProps {
+  // レンダリング設定
+  config: SpatialAudioConfig;
+  onConfigChange?: (config: Partial<SpatialAudioConfig>) => void;
+
+  // HRIRセットの読み込み状態
+  status: HrirLoaderStatus;
+  hrirSetName: string | null;
+  measurementCount: number;
+  errorMessage: string | null;
+  onFileSelect?: (file: File) => void;
+  onClear?: () => void;
+}
+
+// レンダリング方式の表示名
+const RENDERER_LABELS: Record<SpatialRenderer, string> = {
+  panner: "内蔵HRTF",
+  hrir: "SOFA",
+  binaural: "頭部モデル",
+};
+
+// HRIRの選び方の表示名
+const INTERPOLATION_LABELS: Record<HrirInterpolation, string> = {
+  nearest: "最も近い測定点",
+  interpolated: "近い3点を補間",
+};
+
+export function RendererSettings({
+  config,
+  onConfigChange,
+  status,
+  hrirSetName,
+  measurementCount,
+  errorMessage,
+  onFileSelect,
+  onClear,
+}: RendererSettingsProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const isLoading = status === "loading";
+
+  // 選択されたファイルを読み込む
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onFileSelect?.(file);
+    // 同じファイルを選び直せるようにリセット
+    e.target.value = "";
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <span className="font-medium text-sm">レンダリング方式</span>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={config.renderer}
+          onValueChange={(value) => {
+            if (value) onConfigChange?.({ renderer: value as SpatialRenderer });
+          }}
+        >
+          {(Object.keys(RENDERER_LABELS) as SpatialRenderer[]).map(
+            (renderer) => (
+              <ToggleGroupItem
+                key={renderer}
+                value={renderer}
+                className="px-3 text-xs"
+              >
+                {RENDERER_LABELS[renderer]}
+              </ToggleGroupItem>
+            ),
+          )}
+        </ToggleGroup>
+      </div>
+
+      {config.renderer === "hrir" && (
+        <>
+          {/* SOFAファイル */}
+          <div className="flex items-center gap-2">
+            <Button
+              onClick={() => inputRef.current?.click()}
+              disabled={isLoading}
+              variant="outline"
+              size="sm"
+              className="min-w-0 flex-1 justify-start"
+            >
+              {isLoading ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : hrirSetName ? (
+                <FileAudio className="mr-2 h-4 w-4" />
+              ) : (
+                <Upload className="mr-2 h-4 w-4" />
+              )}
+              <span className="truncate">
+                {isLoading
+                  ? "解析中..."
+                  : (hrirSetName ?? "SOFAファイルを選択")}
+              </span>
+            </Button>
+            {hrirSetName && (
+              <Button
+                onClick={onClear}
+                variant="ghost"
+                size="icon"
+                aria-label="HRIRセットを外す"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          <input
+            ref={inputRef}
+            type="file"
+            accept={SOFA_FILE_ACCEPT}
+            onChange={handleInputChange}
+            className="hidden"
+          />
+
+          {errorMessage && (
+            <p className="text-destructive text-xs">{errorMessage}</p>
+          )}
+
+          <p className="text-muted-foreground text-xs">
+            {hrirSetName
+              ? `${measurementCount} 方向のHRIRで定位しています`
+              : "読み込むまでは内蔵HRTFで再生します"}
+          </p>
+
+          {/* HRIRの選び方 */}
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-sm">HRIRの選び方</span>
+            <Select
+              value={config.hrirInterpolation}
+              onValueChange={(value) =>
+                onConfigChange?.({
+                  hrirInterpolation: value as HrirInterpolation,
+                })
+              }
+            >
+              <SelectTrigger className="w-40" aria-label="HRIRの選び方">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(INTERPOLATION_LABELS) as HrirInterpolation[]).map(
+                  (interpolation) => (
+                    <SelectItem key={interpolation} value={interpolation}>
+                      {INTERPOLATION_LABELS[interpolation]}
+                    </SelectItem>
+                  ),
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+        </>
+      )}
+
+      {config.renderer === "binaural" && (
+        <>
+          <p className="text-muted-foreground text-xs">
+            頭の大きさから両耳の時間差と音量差を計算します。ブラウザによらず同じ音になります。
+          </p>
+          <ConfigSlider
+            label="頭の半径 (cm)"
+            description="大きいほど左右の時間差が広がります"
+            value={config.headRadius}
+            min={MIN_HEAD_RADIUS}
+            max={MAX_HEAD_RADIUS}
+            step={0.1}
+            onChange={(headRadius) => onConfigChange?.({ headRadius })}
+          />
+          <ConfigSlider
+            label="クロスフィード (%)"
+            description="反対の耳にも低音を回り込ませ、左右の極端な分離を和らげます"
+            value={config.crossfeed * 100}
+            min={0}
+            max={100}
+            step={1}
+            onChange={(crossfeed) =>
+              onConfigChange?.({ crossfeed: crossfeed / 100 })
+            }
+          />
+        </>
+      )}
+    </div>
+  );
+}
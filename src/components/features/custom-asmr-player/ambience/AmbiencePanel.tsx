@@ -0,0 +1,107 @@
+"use client";
+
+import { CloudRain } from "lucide-react";
+import { useId } from "react";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  AMBIENCE_LABELS,
+  type AmbienceKind,
+  type AmbienceLayerSettings,
+  type AmbienceSettings,
+} from "../lib/audio/ambience";
+
+interface AmbiencePanelProps {
+  // 環境音の設定
+  layers: AmbienceSettings;
+  onLayerChange?: (
+    kind: AmbienceKind,
+    layer: Partial<AmbienceLayerSettings>,
+  ) => void;
+}
+
+// 角度を向きの表示に変換
+function formatAzimuth(azimuth: number): string {
+  if (azimuth === 0) return "正面";
+  if (Math.abs(azimuth) === 180) return "真後ろ";
+  return `${azimuth < 0 ? "左" : "右"} ${Math.abs(azimuth)}°`;
+}
+
+export function AmbiencePanel({ layers, onLayerChange }: AmbiencePanelProps) {
+  const id = useId();
+
+  return (
+    <div className="space-y-3">
+      <span className="flex items-center gap-2 font-medium text-sm">
+        <CloudRain className="h-4 w-4" />
+        環境音
+      </span>
+
+      {(Object.keys(AMBIENCE_LABELS) as AmbienceKind[]).map((kind) => {
+        const layer = layers[kind];
+        return (
+          <div key={kind} className="space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <Label htmlFor={`${id}-${kind}`} className="text-sm">
+                {AMBIENCE_LABELS[kind]}
+              </Label>
+              <Switch
+                id={`${id}-${kind}`}
+                checked={layer.enabled}
+                onCheckedChange={(checked) =>
+                  onLayerChange?.(kind, { enabled: checked })
+                }
+              />
+            </div>
+
+            {layer.enabled && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="text-muted-foreground">音量</span>
+                    <span className="font-mono text-muted-foreground">
+                      {Math.round(layer.level * 100)}%
+                    </span>
+                  </div>
+                  <Slider
+                    value={[layer.level]}
+                    onValueChange={(values) =>
+                      onLayerChange?.(kind, { level: values[0] })
+                    }
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    aria-label={`${AMBIENCE_LABELS[kind]}の音量`}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="text-muted-foreground">方向</span>
+                    <span className="font-mono text-muted-foreground">
+                      {formatAzimuth(layer.azimuth)}
+                    </span>
+                  </div>
+                  <Slider
+                    value={[layer.azimuth]}
+                    onValueChange={(values) =>
+                      onLayerChange?.(kind, { azimuth: values[0] })
+                    }
+                    min={-180}
+                    max={180}
+                    step={5}
+                    aria-label={`${AMBIENCE_LABELS[kind]}の方向`}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <p className="text-muted-foreground text-xs">
+        タブ音声と同時に鳴らせるので、雨音のために別のタブを開く必要はありません。
+      </p>
+    </div>
+  );
+}
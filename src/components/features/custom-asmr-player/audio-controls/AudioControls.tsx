@@ -5,17 +5,53 @@ import {
   Headphones,
   Loader2,
   MonitorSpeaker,
+  Moon,
   Volume2,
   VolumeX,
 } from "lucide-react";
+import type { ReactNode } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { cn } from "@/lib/utils";
-import type { SpatialAudioStatus } from "../hooks/use-spatial-audio";
+import type {
+  SpatialAudioStatus,
+  SpatialSourceState,
+} from "../hooks/use-spatial-audio";
 import type { CaptureStatus } from "../hooks/use-tab-audio-capture";
+import { formatDuration } from "../lib/audio/audio-file";
+import {
+  INPUT_SOURCE_LABELS,
+  type InputSourceType,
+} from "../lib/audio/input-source";
+import {
+  INPUT_MODE_LABELS,
+  SOURCE_LAYOUT_LABELS,
+  type SourceLayout,
+  VIRTUAL_SOURCE_LABELS,
+} from "../lib/audio/source-layout";
+import type {
+  InputMode,
+  VirtualSourceKind,
+} from "../lib/audio/spatial-audio-engine";
 
 interface AudioControlsProps {
+  // 入力ソース
+  sourceType: InputSourceType;
+  onSourceTypeChange?: (type: InputSourceType) => void;
+  // 入力ソースごとの追加UI（ファイル選択など）
+  sourcePanel?: ReactNode;
+  // 選択中の入力ソースで開始できるか
+  isSourceReady: boolean;
+
   // キャプチャ状態
   captureStatus: CaptureStatus;
   captureError: string | null;
@@ -23,18 +59,55 @@ interface AudioControlsProps {
 
   // 空間音響状態
   spatialStatus: SpatialAudioStatus;
+  // 出力のメーターとスペクトル
+  signalMonitor?: ReactNode;
+
+  // スリープタイマーの操作UIと残り時間（秒、未設定なら null）
+  sleepTimer?: ReactNode;
+  sleepRemaining?: number | null;
 
   // 音量
   gain: number;
   onGainChange?: (value: number) => void;
 
+  // 音源レイアウト
+  layout: SourceLayout;
+  onLayoutChange?: (layout: SourceLayout) => void;
+  sources: SpatialSourceState[];
+  onSourceGainChange?: (kind: VirtualSourceKind, value: number) => void;
+  onSourceInputModeChange?: (kind: VirtualSourceKind, mode: InputMode) => void;
+
   // 操作
   onStart?: () => void;
   onStop?: () => void;
 
+  // 追加のコントロール（モーションプリセットなど）
+  children?: ReactNode;
+
   className?: string;
 }
 
+// 入力ソースごとの使い方
+const USAGE_STEPS: Record<InputSourceType, string[]> = {
+  tab: [
+    "別タブでYouTube動画を開いて再生",
+    "このタブに戻り「3D音響を開始」をクリック",
+    "タブ共有ダイアログでYouTubeのタブを選択",
+    "「タブの音声を共有」にチェック",
+    "パッドで音源の位置を調整",
+  ],
+  file: [
+    "音声ファイルをドロップ、またはクリックして選択",
+    "「3D音響を開始」または再生ボタンをクリック",
+    "パッドで音源の位置を調整",
+  ],
+  mic: [
+    "ヘッドホンを接続",
+    "「3D音響を開始」をクリックしてマイクの使用を許可",
+    "パッドで音源の位置を調整しながらトリガー音を収録",
+  ],
+};
+
 // 状態に応じたステータステキスト
 function getStatusText(
   captureStatus: CaptureStatus,
@@ -69,20 +142,33 @@ function StatusIcon({
 }
 
 export function AudioControls({
+  sourceType,
+  onSourceTypeChange,
+  sourcePanel,
+  isSourceReady,
   captureStatus,
   captureError,
   isSupported,
   spatialStatus,
+  signalMonitor,
+  sleepTimer,
+  sleepRemaining = null,
   gain,
   onGainChange,
+  layout,
+  onLayoutChange,
+  sources,
+  onSourceGainChange,
+  onSourceInputModeChange,
   onStart,
   onStop,
+  children,
   className,
 }: AudioControlsProps) {
   const isActive = spatialStatus === "active";
   const isLoading =
     captureStatus === "requesting" || spatialStatus === "initializing";
-  const canStart = isSupported && !isActive && !isLoading;
+  const canStart = isSourceReady && !isActive && !isLoading;
   const canStop = isActive;
 
   const handleGainChange = (values: number[]) => {
@@ -110,7 +196,13 @@ export function AudioControls({
             </span>
           </div>
           {isActive && (
-            <div className="flex items-center gap-1">
+            <div className="flex items-center gap-3">
+              {sleepRemaining !== null && (
+                <span className="flex items-center gap-1 font-mono text-muted-foreground text-xs">
+                  <Moon className="h-3 w-3" />
+                  {formatDuration(sleepRemaining)}
+                </span>
+              )}
               <span className="relative flex h-2 w-2">
                 <span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-green-400 opacity-75" />
                 <span className="relative inline-flex h-2 w-2 rounded-full bg-green-500" />
@@ -119,6 +211,9 @@ export function AudioControls({
           )}
         </div>
 
+        {/* 出力のメーター（音声が届いているかの確認用） */}
+        {isActive && signalMonitor}
+
         {/* エラーメッセージ */}
         {captureError && (
           <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3">
@@ -126,17 +221,43 @@ export function AudioControls({
           </div>
         )}
 
+        {/* 入力ソースの切り替え */}
+        <div className="flex items-center justify-between gap-3">
+          <span className="font-medium text-sm">入力ソース</span>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={sourceType}
+            onValueChange={(value) => {
+              if (value) onSourceTypeChange?.(value as InputSourceType);
+            }}
+            disabled={isActive || isLoading}
+          >
+            {(Object.keys(INPUT_SOURCE_LABELS) as InputSourceType[]).map(
+              (type) => (
+                <ToggleGroupItem key={type} value={type} className="px-3">
+                  {INPUT_SOURCE_LABELS[type]}
+                </ToggleGroupItem>
+              ),
+            )}
+          </ToggleGroup>
+        </div>
+
         {/* ブラウザ非対応警告 */}
-        {!isSupported && (
+        {sourceType === "tab" && !isSupported && (
           <div className="rounded-lg border border-yellow-500/50 bg-yellow-500/10 p-3">
             <p className="text-sm text-yellow-700 dark:text-yellow-400">
               このブラウザはタブ音声キャプチャに対応していません。
               <br />
-              Chrome または Edge をお使いください。
+              Chrome または Edge
+              をお使いいただくか、「ファイル」入力をお使いください。
             </p>
           </div>
         )}
 
+        {sourcePanel}
+
         {/* 開始/停止ボタン */}
         <div className="flex gap-3">
           <Button
@@ -193,15 +314,100 @@ export function AudioControls({
           />
         </div>
 
+        {/* 一定時間後に徐々に音量を下げて停止 */}
+        {isActive && sleepTimer}
+
+        {/* 音源レイアウト */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <span className="font-medium text-sm">音源レイアウト</span>
+            <Select
+              value={layout}
+              onValueChange={(value) => onLayoutChange?.(value as SourceLayout)}
+            >
+              <SelectTrigger className="w-48" aria-label="音源レイアウト">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SOURCE_LAYOUT_LABELS) as SourceLayout[]).map(
+                  (value) => (
+                    <SelectItem key={value} value={value}>
+                      {SOURCE_LAYOUT_LABELS[value]}
+                    </SelectItem>
+                  ),
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* 音源ごとの入力の処理と音量 */}
+          {sources.map((source) => (
+            <div key={source.kind} className="space-y-2">
+              <div className="flex items-center justify-between gap-2 text-xs">
+                <span className="text-muted-foreground">
+                  {VIRTUAL_SOURCE_LABELS[source.kind].name}
+                </span>
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={source.inputMode}
+                    onValueChange={(value) =>
+                      onSourceInputModeChange?.(source.kind, value as InputMode)
+                    }
+                  >
+                    <SelectTrigger
+                      size="sm"
+                      className="w-36 text-xs"
+                      aria-label={`${VIRTUAL_SOURCE_LABELS[source.kind].name}の入力の処理`}
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(INPUT_MODE_LABELS) as InputMode[]).map(
+                        (mode) => (
+                          <SelectItem key={mode} value={mode}>
+                            {INPUT_MODE_LABELS[mode]}
+                          </SelectItem>
+                        ),
+                      )}
+                    </SelectContent>
+                  </Select>
+                  {sources.length > 1 && (
+                    <span className="w-9 text-right font-mono text-muted-foreground">
+                      {Math.round(source.gain * 100)}%
+                    </span>
+                  )}
+                </div>
+              </div>
+              {sources.length > 1 && (
+                <Slider
+                  value={[source.gain]}
+                  onValueChange={(values) =>
+                    onSourceGainChange?.(source.kind, values[0])
+                  }
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  className="w-full"
+                  aria-label={`${VIRTUAL_SOURCE_LABELS[source.kind].name}の音量`}
+                />
+              )}
+            </div>
+          ))}
+          <p className="text-muted-foreground text-xs">
+            入力の処理:
+            既にバイノーラル収録された音声は「モノラル」や「左のみ」にすると定位がはっきりします。「位相反転チェック」で打ち消し合う成分を確認できます。
+          </p>
+        </div>
+
+        {children}
+
         {/* 使い方の説明 */}
         <div className="space-y-2 border-t pt-4 text-muted-foreground text-xs">
           <p className="font-medium">使い方:</p>
           <ol className="list-inside list-decimal space-y-1">
-            <li>別タブでYouTube動画を開いて再生</li>
-            <li>このタブに戻り「3D音響を開始」をクリック</li>
-            <li>タブ共有ダイアログでYouTubeのタブを選択</li>
-            <li>「タブの音声を共有」にチェック</li>
-            <li>パッドで音源の位置を調整</li>
+            {USAGE_STEPS[sourceType].map((step) => (
+              <li key={step}>{step}</li>
+            ))}
           </ol>
         </div>
       </CardContent>
@@ -0,0 +1,186 @@
+"use client";
+
+import { AlertTriangle } from "lucide-react";
+import { useEffect, useRef } from "react";
+import { cn } from "@/lib/utils";
+import { NO_SIGNAL_TIMEOUT } from "../hooks/use-level-meter";
+import type { InputSourceType } from "../lib/audio/input-source";
+import {
+  type ChannelLevel,
+  METER_MIN_DECIBELS,
+} from "../lib/audio/level-meter";
+
+interface SignalMonitorProps {
+  // 音量
+  levels: ChannelLevel[];
+  // スペクトル
+  getSpectrumAnalyser: () => AnalyserNode | null;
+  // 計測中かどうか
+  active: boolean;
+
+  // 無音が続いているときの警告
+  hasNoSignal: boolean;
+  sourceType: InputSourceType;
+
+  className?: string;
+}
+
+// 無音が続いたときに確認してほしいこと
+const NO_SIGNAL_HINTS: Record<InputSourceType, string> = {
+  tab: "共有ダイアログで「タブの音声を共有」にチェックを入れたか、共有したタブで音声が再生されているか確認してください。",
+  file: "ファイルの再生位置が無音の区間でないか確認してください。",
+  mic: "マイクがミュートされていないか、OSの入力デバイスと入力レベルを確認してください。",
+};
+
+// チャンネルの表示名
+const CHANNEL_LABELS = ["L", "R"];
+
+// スペクトルの表示範囲 (Hz) と帯域の数
+const SPECTRUM_MIN_FREQUENCY = 20;
+const SPECTRUM_MAX_FREQUENCY = 20000;
+const SPECTRUM_BANDS = 48;
+
+// デシベルをメーターの長さ（%）に変換
+function decibelsToPercent(decibels: number): number {
+  return Math.max(0, Math.min(100, (1 - decibels / METER_MIN_DECIBELS) * 100));
+}
+
+// スペクトルを対数周波数の帯域ごとに描画
+function drawSpectrum(
+  canvas: HTMLCanvasElement,
+  analyser: AnalyserNode | null,
+  data: Uint8Array<ArrayBuffer>,
+): void {
+  const context = canvas.getContext("2d");
+  if (!context) return;
+
+  const { width, height } = canvas;
+  context.clearRect(0, 0, width, height);
+  if (!analyser) return;
+
+  analyser.getByteFrequencyData(data);
+  const binWidth = analyser.context.sampleRate / analyser.fftSize;
+  const ratio = SPECTRUM_MAX_FREQUENCY / SPECTRUM_MIN_FREQUENCY;
+  const bandWidth = width / SPECTRUM_BANDS;
+  context.fillStyle = getComputedStyle(canvas).color;
+
+  for (let band = 0; band < SPECTRUM_BANDS; band++) {
+    const low = SPECTRUM_MIN_FREQUENCY * ratio ** (band / SPECTRUM_BANDS);
+    const high =
+      SPECTRUM_MIN_FREQUENCY * ratio ** ((band + 1) / SPECTRUM_BANDS);
+    const start = Math.floor(low / binWidth);
+    const end = Math.max(start + 1, Math.ceil(high / binWidth));
+
+    // 帯域内で最も大きい値を使う（低域はビンが粗いため同じ値が並ぶ）
+    let value = 0;
+    for (let bin = start; bin < end && bin < data.length; bin++) {
+      value = Math.max(value, data[bin]);
+    }
+    const barHeight = (value / 255) * height;
+    context.fillRect(
+      band * bandWidth + 1,
+      height - barHeight,
+      bandWidth - 2,
+      barHeight,
+    );
+  }
+}
+
+export function SignalMonitor({
+  levels,
+  getSpectrumAnalyser,
+  active,
+  hasNoSignal,
+  sourceType,
+  className,
+}: SignalMonitorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // スペクトルの描画ループ
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    // 表示サイズと画素密度に合わせて解像度を決める
+    const scale = window.devicePixelRatio || 1;
+    canvas.width = canvas.clientWidth * scale;
+    canvas.height = canvas.clientHeight * scale;
+
+    if (!active) {
+      drawSpectrum(canvas, null, new Uint8Array(0));
+      return;
+    }
+
+    let data = new Uint8Array(0);
+    let frameId: number;
+    const tick = () => {
+      const analyser = getSpectrumAnalyser();
+      if (analyser && data.length !== analyser.frequencyBinCount) {
+        data = new Uint8Array(analyser.frequencyBinCount);
+      }
+      drawSpectrum(canvas, analyser, data);
+      frameId = requestAnimationFrame(tick);
+    };
+
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [active, getSpectrumAnalyser]);
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {/* チャンネルごとのメーター（帯がRMS、線がピーク） */}
+      <div className="space-y-1.5">
+        {levels.map((level, index) => (
+          <div
+            key={CHANNEL_LABELS[index]}
+            className="flex items-center gap-2 text-xs"
+          >
+            <span className="w-3 font-medium text-muted-foreground">
+              {CHANNEL_LABELS[index]}
+            </span>
+            <div
+              className="relative h-2 flex-1 overflow-hidden rounded-full bg-muted"
+              aria-hidden
+            >
+              <div
+                className={cn(
+                  "absolute inset-y-0 left-0 rounded-full",
+                  level.peak > -1 ? "bg-destructive" : "bg-green-500",
+                )}
+                style={{ width: `${decibelsToPercent(level.rms)}%` }}
+              />
+              <div
+                className="absolute inset-y-0 w-0.5 bg-foreground/70"
+                style={{ left: `${decibelsToPercent(level.peak)}%` }}
+              />
+            </div>
+            <span className="w-12 text-right font-mono text-muted-foreground">
+              {level.peak <= METER_MIN_DECIBELS ? "-∞" : level.peak.toFixed(1)}{" "}
+              dB
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* スペクトル */}
+      <canvas
+        ref={canvasRef}
+        className="h-16 w-full rounded-md bg-muted/50 text-primary/70"
+        aria-hidden
+      />
+
+      {/* 無音の警告 */}
+      {hasNoSignal && (
+        <div className="flex items-start gap-2 rounded-lg border border-yellow-500/50 bg-yellow-500/10 p-3">
+          <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0 text-yellow-600 dark:text-yellow-400" />
+          <div className="text-sm text-yellow-700 dark:text-yellow-400">
+            <p className="font-medium">
+              {NO_SIGNAL_TIMEOUT}秒以上、音声が届いていません
+            </p>
+            <p className="mt-1 text-xs">{NO_SIGNAL_HINTS[sourceType]}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { Moon, X } from "lucide-react";
+import { useId, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  MAX_SLEEP_TIMER_MINUTES,
+  MIN_SLEEP_TIMER_MINUTES,
+  SLEEP_TIMER_PRESETS,
+  type SleepTimerStatus,
+} from "../hooks/use-sleep-timer";
+import { formatDuration } from "../lib/audio/audio-file";
+
+interface SleepTimerProps {
+  // タイマーの状態
+  status: SleepTimerStatus;
+  remaining: number | null;
+
+  // 操作
+  onStart?: (minutes: number) => void;
+  onCancel?: () => void;
+
+  // 終了時にタブの共有も停止するか（タブ音声のときのみ表示）
+  stopCapture: boolean;
+  onStopCaptureChange?: (stopCapture: boolean) => void;
+  showStopCapture: boolean;
+}
+
+export function SleepTimer({
+  status,
+  remaining,
+  onStart,
+  onCancel,
+  stopCapture,
+  onStopCaptureChange,
+  showStopCapture,
+}: SleepTimerProps) {
+  const customId = useId();
+  const stopCaptureId = useId();
+  const [customMinutes, setCustomMinutes] = useState("");
+
+  const parsedMinutes = Number(customMinutes);
+  const isCustomValid =
+    customMinutes !== "" &&
+    Number.isInteger(parsedMinutes) &&
+    parsedMinutes >= MIN_SLEEP_TIMER_MINUTES &&
+    parsedMinutes <= MAX_SLEEP_TIMER_MINUTES;
+
+  // 入力した時間で開始
+  const handleCustomStart = () => {
+    if (!isCustomValid) return;
+    onStart?.(parsedMinutes);
+    setCustomMinutes("");
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <span className="flex items-center gap-2 font-medium text-sm">
+          <Moon className="h-4 w-4" />
+          スリープタイマー
+        </span>
+        {status !== "idle" && remaining !== null && (
+          <div className="flex items-center gap-1">
+            <span className="font-mono text-muted-foreground text-xs">
+              {status === "fading" ? "フェードアウト中 " : "残り "}
+              {formatDuration(remaining)}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onCancel}
+              aria-label="スリープタイマーを取り消す"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {SLEEP_TIMER_PRESETS.map((minutes) => (
+          <Button
+            key={minutes}
+            variant="outline"
+            size="sm"
+            onClick={() => onStart?.(minutes)}
+          >
+            {minutes}分
+          </Button>
+        ))}
+        <div className="flex items-center gap-1">
+          <Label htmlFor={customId} className="sr-only">
+            タイマーの時間（分）
+          </Label>
+          <Input
+            id={customId}
+            type="number"
+            inputMode="numeric"
+            min={MIN_SLEEP_TIMER_MINUTES}
+            max={MAX_SLEEP_TIMER_MINUTES}
+            value={customMinutes}
+            onChange={(e) => setCustomMinutes(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleCustomStart();
+            }}
+            placeholder="分"
+            className="h-8 w-20"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleCustomStart}
+            disabled={!isCustomValid}
+          >
+            設定
+          </Button>
+        </div>
+      </div>
+
+      {showStopCapture && (
+        <div className="flex items-center justify-between gap-3">
+          <div className="space-y-0.5">
+            <Label htmlFor={stopCaptureId} className="text-sm">
+              終了時にタブの共有も停止
+            </Label>
+            <p className="text-muted-foreground text-xs">
+              オフのままにすると共有元のタブは消音されたままになり、次に開始するときも選び直さずに済みます
+            </p>
+          </div>
+          <Switch
+            id={stopCaptureId}
+            checked={stopCapture}
+            onCheckedChange={onStopCaptureChange}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
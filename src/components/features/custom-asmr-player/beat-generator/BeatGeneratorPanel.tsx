@@ -0,0 +1,272 @@
+"use client";
+
+import { Square, Waves } from "lucide-react";
+import { useId, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { formatDuration } from "../lib/audio/audio-file";
+import {
+  BEAT_MODE_LABELS,
+  BEAT_PROGRAM_PRESETS,
+  type BeatMode,
+  type BeatProgram,
+  type BeatSettings,
+  MAX_BEAT_FREQUENCY,
+  MAX_CARRIER_FREQUENCY,
+  MIN_BEAT_FREQUENCY,
+  MIN_CARRIER_FREQUENCY,
+} from "../lib/audio/beat-generator";
+
+interface BeatGeneratorPanelProps {
+  // ビートの設定
+  settings: BeatSettings;
+  onSettingsChange?: (settings: Partial<BeatSettings>) => void;
+
+  // プログラム
+  program: BeatProgram | null;
+  currentBeat: number;
+  programRemaining: number | null;
+  onProgramStart?: (program: BeatProgram) => void;
+  onProgramStop?: () => void;
+}
+
+// 自由に指定できるプログラムの長さ（分）
+const MAX_PROGRAM_MINUTES = 120;
+
+// 方式ごとの説明
+const BEAT_MODE_HINTS: Record<BeatMode, string> = {
+  binaural:
+    "左右の耳に少しだけ違う高さの音を届けます。ヘッドホンで聴いてください。",
+  isochronic: "1つの音を一定の間隔で断続させます。スピーカーでも聴けます。",
+};
+
+// 入力した値を範囲内の数値として読み取る（不正なら null）
+function parseInRange(value: string, min: number, max: number): number | null {
+  const parsed = Number(value);
+  if (value === "" || !Number.isFinite(parsed)) return null;
+  return parsed >= min && parsed <= max ? parsed : null;
+}
+
+export function BeatGeneratorPanel({
+  settings,
+  onSettingsChange,
+  program,
+  currentBeat,
+  programRemaining,
+  onProgramStart,
+  onProgramStop,
+}: BeatGeneratorPanelProps) {
+  const id = useId();
+  const [customProgram, setCustomProgram] = useState({
+    from: "10",
+    to: "4",
+    minutes: "20",
+  });
+
+  const from = parseInRange(
+    customProgram.from,
+    MIN_BEAT_FREQUENCY,
+    MAX_BEAT_FREQUENCY,
+  );
+  const to = parseInRange(
+    customProgram.to,
+    MIN_BEAT_FREQUENCY,
+    MAX_BEAT_FREQUENCY,
+  );
+  const minutes = parseInRange(customProgram.minutes, 1, MAX_PROGRAM_MINUTES);
+
+  // 入力したプログラムで開始
+  const handleCustomStart = () => {
+    if (from === null || to === null || minutes === null) return;
+    onProgramStart?.({ from, to, minutes });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <Label
+          htmlFor={`${id}-enabled`}
+          className="flex items-center gap-2 font-medium text-sm"
+        >
+          <Waves className="h-4 w-4" />
+          ビート
+        </Label>
+        <Switch
+          id={`${id}-enabled`}
+          checked={settings.enabled}
+          onCheckedChange={(enabled) => onSettingsChange?.({ enabled })}
+        />
+      </div>
+
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        size="sm"
+        value={settings.mode}
+        onValueChange={(value) => {
+          if (value) onSettingsChange?.({ mode: value as BeatMode });
+        }}
+      >
+        {(Object.keys(BEAT_MODE_LABELS) as BeatMode[]).map((mode) => (
+          <ToggleGroupItem key={mode} value={mode} className="px-3 text-xs">
+            {BEAT_MODE_LABELS[mode]}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+      <p className="text-muted-foreground text-xs">
+        {BEAT_MODE_HINTS[settings.mode]}
+      </p>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-muted-foreground">基準の高さ</span>
+          <span className="font-mono text-muted-foreground">
+            {settings.carrier} Hz
+          </span>
+        </div>
+        <Slider
+          value={[settings.carrier]}
+          onValueChange={(values) => onSettingsChange?.({ carrier: values[0] })}
+          min={MIN_CARRIER_FREQUENCY}
+          max={MAX_CARRIER_FREQUENCY}
+          step={1}
+          className="w-full"
+          aria-label="基準の高さ"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-muted-foreground">ビート</span>
+          <span className="font-mono text-muted-foreground">
+            {currentBeat.toFixed(1)} Hz
+          </span>
+        </div>
+        <Slider
+          value={[currentBeat]}
+          onValueChange={(values) => onSettingsChange?.({ beat: values[0] })}
+          min={MIN_BEAT_FREQUENCY}
+          max={MAX_BEAT_FREQUENCY}
+          step={0.5}
+          className="w-full"
+          aria-label="ビート"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-muted-foreground">音量</span>
+          <span className="font-mono text-muted-foreground">
+            {Math.round(settings.level * 100)}%
+          </span>
+        </div>
+        <Slider
+          value={[settings.level]}
+          onValueChange={(values) => onSettingsChange?.({ level: values[0] })}
+          min={0}
+          max={1}
+          step={0.01}
+          className="w-full"
+          aria-label="ビートの音量"
+        />
+      </div>
+
+      {/* 時間をかけてビートを変化させるプログラム */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-muted-foreground">プログラム</span>
+          {program && programRemaining !== null && (
+            <div className="flex items-center gap-1">
+              <span className="font-mono text-muted-foreground">
+                {program.from} → {program.to} Hz / 残り{" "}
+                {formatDuration(programRemaining)}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onProgramStop}
+                aria-label="プログラムを止める"
+              >
+                <Square className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {BEAT_PROGRAM_PRESETS.map((preset) => (
+            <Button
+              key={preset.label}
+              variant="outline"
+              size="sm"
+              onClick={() => onProgramStart?.(preset.program)}
+            >
+              {preset.label}
+            </Button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-1 text-xs">
+          <Label htmlFor={`${id}-from`} className="sr-only">
+            開始時のビート (Hz)
+          </Label>
+          <Input
+            id={`${id}-from`}
+            type="number"
+            inputMode="decimal"
+            min={MIN_BEAT_FREQUENCY}
+            max={MAX_BEAT_FREQUENCY}
+            value={customProgram.from}
+            onChange={(e) =>
+              setCustomProgram({ ...customProgram, from: e.target.value })
+            }
+            className="h-8 w-16"
+          />
+          <span className="text-muted-foreground">→</span>
+          <Label htmlFor={`${id}-to`} className="sr-only">
+            終了時のビート (Hz)
+          </Label>
+          <Input
+            id={`${id}-to`}
+            type="number"
+            inputMode="decimal"
+            min={MIN_BEAT_FREQUENCY}
+            max={MAX_BEAT_FREQUENCY}
+            value={customProgram.to}
+            onChange={(e) =>
+              setCustomProgram({ ...customProgram, to: e.target.value })
+            }
+            className="h-8 w-16"
+          />
+          <span className="text-muted-foreground">Hz /</span>
+          <Label htmlFor={`${id}-minutes`} className="sr-only">
+            プログラムの長さ（分）
+          </Label>
+          <Input
+            id={`${id}-minutes`}
+            type="number"
+            inputMode="numeric"
+            min={1}
+            max={MAX_PROGRAM_MINUTES}
+            value={customProgram.minutes}
+            onChange={(e) =>
+              setCustomProgram({ ...customProgram, minutes: e.target.value })
+            }
+            className="h-8 w-16"
+          />
+          <span className="text-muted-foreground">分</span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleCustomStart}
+            disabled={from === null || to === null || minutes === null}
+          >
+            開始
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
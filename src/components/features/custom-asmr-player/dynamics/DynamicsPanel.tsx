@@ -0,0 +1,110 @@
+"use client";
+
+import { Gauge } from "lucide-react";
+import { useId } from "react";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  type DynamicsSettings,
+  MAX_TARGET_LOUDNESS,
+  MIN_TARGET_LOUDNESS,
+} from "../lib/audio/dynamics";
+
+interface DynamicsPanelProps {
+  // ダイナミクスの設定
+  dynamics: DynamicsSettings;
+  onDynamicsChange?: (dynamics: Partial<DynamicsSettings>) => void;
+
+  // 計測結果（計測していないときは null）
+  loudness: number | null;
+  gainAdjustment: number;
+}
+
+// スイッチで切り替える項目
+const DYNAMICS_TOGGLES: {
+  key: "compressor" | "limiter" | "autoGain";
+  label: string;
+  description: string;
+}[] = [
+  {
+    key: "autoGain",
+    label: "自動音量調整",
+    description: "動画ごとの音量差を目標のラウドネスに合わせます",
+  },
+  {
+    key: "compressor",
+    label: "コンプレッサー",
+    description: "大きな音を抑えて、囁きとの差を小さくします",
+  },
+  {
+    key: "limiter",
+    label: "リミッター",
+    description: "音源が近いときなどの音割れを防ぎます",
+  },
+];
+
+export function DynamicsPanel({
+  dynamics,
+  onDynamicsChange,
+  loudness,
+  gainAdjustment,
+}: DynamicsPanelProps) {
+  const id = useId();
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <span className="flex items-center gap-2 font-medium text-sm">
+          <Gauge className="h-4 w-4" />
+          音量の安定化
+        </span>
+        <span className="font-mono text-muted-foreground text-xs">
+          {loudness === null ? "-- LUFS" : `${loudness.toFixed(1)} LUFS`}
+        </span>
+      </div>
+
+      {DYNAMICS_TOGGLES.map(({ key, label, description }) => (
+        <div key={key} className="flex items-center justify-between gap-3">
+          <div className="space-y-0.5">
+            <Label htmlFor={`${id}-${key}`} className="text-sm">
+              {label}
+            </Label>
+            <p className="text-muted-foreground text-xs">{description}</p>
+          </div>
+          <Switch
+            id={`${id}-${key}`}
+            checked={dynamics[key]}
+            onCheckedChange={(checked) =>
+              onDynamicsChange?.({ [key]: checked })
+            }
+          />
+        </div>
+      ))}
+
+      {dynamics.autoGain && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-muted-foreground">目標のラウドネス</span>
+            <span className="font-mono text-muted-foreground">
+              {dynamics.targetLoudness} LUFS（補正{" "}
+              {gainAdjustment > 0 ? "+" : ""}
+              {gainAdjustment.toFixed(1)} dB）
+            </span>
+          </div>
+          <Slider
+            value={[dynamics.targetLoudness]}
+            onValueChange={(values) =>
+              onDynamicsChange?.({ targetLoudness: values[0] })
+            }
+            min={MIN_TARGET_LOUDNESS}
+            max={MAX_TARGET_LOUDNESS}
+            step={1}
+            className="w-full"
+            aria-label="目標のラウドネス"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { Church } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import {
+  ENVIRONMENT_PRESET_LABELS,
+  type EnvironmentPreset,
+  type EnvironmentSettings,
+  MAX_REVERB_DECAY,
+  MAX_REVERB_PRE_DELAY,
+  MIN_REVERB_DECAY,
+  type ReverbParams,
+} from "../lib/audio/environment";
+
+interface EnvironmentPickerProps {
+  // 環境の設定
+  environment: EnvironmentSettings;
+  onEnvironmentChange?: (environment: Partial<EnvironmentSettings>) => void;
+}
+
+export function EnvironmentPicker({
+  environment,
+  onEnvironmentChange,
+}: EnvironmentPickerProps) {
+  const { preset, custom, mix } = environment;
+
+  // カスタムのパラメータを更新
+  const handleCustomChange = (params: Partial<ReverbParams>) => {
+    onEnvironmentChange?.({ custom: { ...custom, ...params } });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <span className="flex items-center gap-2 font-medium text-sm">
+          <Church className="h-4 w-4" />
+          部屋の響き
+        </span>
+        <Select
+          value={preset}
+          onValueChange={(value) =>
+            onEnvironmentChange?.({ preset: value as EnvironmentPreset })
+          }
+        >
+          <SelectTrigger className="w-48" aria-label="部屋の響き">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(
+              Object.keys(ENVIRONMENT_PRESET_LABELS) as EnvironmentPreset[]
+            ).map((kind) => (
+              <SelectItem key={kind} value={kind}>
+                {ENVIRONMENT_PRESET_LABELS[kind]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {preset !== "none" && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-muted-foreground">響きの量</span>
+            <span className="font-mono text-muted-foreground">
+              {Math.round(mix * 100)}%
+            </span>
+          </div>
+          <Slider
+            value={[mix]}
+            onValueChange={(values) =>
+              onEnvironmentChange?.({ mix: values[0] })
+            }
+            min={0}
+            max={1}
+            step={0.01}
+            className="w-full"
+            aria-label="響きの量"
+          />
+        </div>
+      )}
+
+      {/* 生成するインパルス応答のパラメータ */}
+      {preset === "custom" && (
+        <>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-muted-foreground">残響時間</span>
+              <span className="font-mono text-muted-foreground">
+                {custom.decay.toFixed(1)} 秒
+              </span>
+            </div>
+            <Slider
+              value={[custom.decay]}
+              onValueChange={(values) =>
+                handleCustomChange({ decay: values[0] })
+              }
+              min={MIN_REVERB_DECAY}
+              max={MAX_REVERB_DECAY}
+              step={0.1}
+              className="w-full"
+              aria-label="残響時間"
+            />
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-muted-foreground">プリディレイ</span>
+              <span className="font-mono text-muted-foreground">
+                {Math.round(custom.preDelay * 1000)} ms
+              </span>
+            </div>
+            <Slider
+              value={[custom.preDelay]}
+              onValueChange={(values) =>
+                handleCustomChange({ preDelay: values[0] })
+              }
+              min={0}
+              max={MAX_REVERB_PRE_DELAY}
+              step={0.001}
+              className="w-full"
+              aria-label="プリディレイ"
+            />
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-muted-foreground">高域の減衰</span>
+              <span className="font-mono text-muted-foreground">
+                {Math.round(custom.damping * 100)}%
+              </span>
+            </div>
+            <Slider
+              value={[custom.damping]}
+              onValueChange={(values) =>
+                handleCustomChange({ damping: values[0] })
+              }
+              min={0}
+              max={1}
+              step={0.01}
+              className="w-full"
+              aria-label="高域の減衰"
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
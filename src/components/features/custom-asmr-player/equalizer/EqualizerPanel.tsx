@@ -0,0 +1,266 @@
+"use client";
+
+import { RotateCcw, SlidersHorizontal } from "lucide-react";
+import { useEffect, useId, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  createEqualizerNodes,
+  DEFAULT_EQUALIZER,
+  EQUALIZER_BAND_IDS,
+  EQUALIZER_BAND_LABELS,
+  EQUALIZER_FREQUENCY_RANGES,
+  type EqualizerBand,
+  type EqualizerBandId,
+  type EqualizerNodes,
+  type EqualizerSettings,
+  getEqualizerResponse,
+  hasEqualizerGain,
+  hasEqualizerQ,
+  MAX_EQUALIZER_GAIN,
+  MAX_EQUALIZER_Q,
+  MIN_EQUALIZER_Q,
+} from "../lib/audio/equalizer";
+
+interface EqualizerPanelProps {
+  // イコライザーの設定
+  equalizer: EqualizerSettings;
+  onEqualizerChange?: (equalizer: Partial<EqualizerSettings>) => void;
+}
+
+// 周波数特性の表示範囲
+const CURVE_MIN_FREQUENCY = 20;
+const CURVE_MAX_FREQUENCY = 20000;
+const CURVE_RANGE_DECIBELS = 18;
+
+// 特性の計算だけに使うコンテキストのサンプルレート
+const PREVIEW_SAMPLE_RATE = 48000;
+
+// 周波数をスライダーの位置（0 から 1、対数）に変換
+function frequencyToPosition(
+  frequency: number,
+  [min, max]: [number, number],
+): number {
+  return Math.log(frequency / min) / Math.log(max / min);
+}
+
+function positionToFrequency(
+  position: number,
+  [min, max]: [number, number],
+): number {
+  return Math.round(min * (max / min) ** position);
+}
+
+function formatFrequency(frequency: number): string {
+  return frequency >= 1000
+    ? `${(frequency / 1000).toFixed(1)} kHz`
+    : `${Math.round(frequency)} Hz`;
+}
+
+// 周波数特性の曲線を描画
+function drawResponse(
+  canvas: HTMLCanvasElement,
+  nodes: EqualizerNodes,
+  settings: EqualizerSettings,
+): void {
+  const context = canvas.getContext("2d");
+  if (!context) return;
+
+  const { width, height } = canvas;
+  const ratio = CURVE_MAX_FREQUENCY / CURVE_MIN_FREQUENCY;
+  const frequencies = new Float32Array(width);
+  for (let x = 0; x < width; x++) {
+    frequencies[x] = CURVE_MIN_FREQUENCY * ratio ** (x / (width - 1));
+  }
+  const response = getEqualizerResponse(nodes, settings, frequencies);
+  const toY = (decibels: number) =>
+    height / 2 - (decibels / CURVE_RANGE_DECIBELS) * (height / 2);
+
+  context.clearRect(0, 0, width, height);
+  const color = getComputedStyle(canvas).color;
+
+  // 0 dB の基準線
+  context.globalAlpha = 0.3;
+  context.fillStyle = color;
+  context.fillRect(0, Math.round(height / 2), width, 1);
+
+  context.globalAlpha = 1;
+  context.strokeStyle = color;
+  context.lineWidth = 2 * (window.devicePixelRatio || 1);
+  context.beginPath();
+  for (let x = 0; x < width; x++) {
+    const y = Math.max(0, Math.min(height, toY(response[x])));
+    if (x === 0) {
+      context.moveTo(x, y);
+    } else {
+      context.lineTo(x, y);
+    }
+  }
+  context.stroke();
+}
+
+export function EqualizerPanel({
+  equalizer,
+  onEqualizerChange,
+}: EqualizerPanelProps) {
+  const enabledId = useId();
+  const [selectedBand, setSelectedBand] = useState<EqualizerBandId>("lowShelf");
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // 周波数特性の計算専用のノード（再生中のノードは値がなめらかに変化するため使わない）
+  const previewRef = useRef<EqualizerNodes | null>(null);
+
+  const band = equalizer.bands[selectedBand];
+  const range = EQUALIZER_FREQUENCY_RANGES[selectedBand];
+
+  // 選択中の帯域を更新
+  const handleBandChange = (params: Partial<EqualizerBand>) => {
+    onEqualizerChange?.({
+      bands: {
+        ...equalizer.bands,
+        [selectedBand]: { ...band, ...params },
+      },
+    });
+  };
+
+  // 設定が変わるたびに周波数特性を描き直す
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const scale = window.devicePixelRatio || 1;
+    canvas.width = canvas.clientWidth * scale;
+    canvas.height = canvas.clientHeight * scale;
+
+    previewRef.current ??= createEqualizerNodes(
+      new OfflineAudioContext(1, 1, PREVIEW_SAMPLE_RATE),
+    );
+    drawResponse(canvas, previewRef.current, equalizer);
+  }, [equalizer]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <span className="flex items-center gap-2 font-medium text-sm">
+          <SlidersHorizontal className="h-4 w-4" />
+          イコライザー
+        </span>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() =>
+              onEqualizerChange?.({ bands: DEFAULT_EQUALIZER.bands })
+            }
+            aria-label="イコライザーをフラットに戻す"
+          >
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+          <Label htmlFor={enabledId} className="text-muted-foreground text-xs">
+            有効
+          </Label>
+          <Switch
+            id={enabledId}
+            checked={equalizer.enabled}
+            onCheckedChange={(enabled) => onEqualizerChange?.({ enabled })}
+          />
+        </div>
+      </div>
+
+      {/* 周波数特性 */}
+      <canvas
+        ref={canvasRef}
+        className="h-20 w-full rounded-md bg-muted/50 text-primary"
+        aria-hidden
+      />
+
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        size="sm"
+        value={selectedBand}
+        onValueChange={(value) => {
+          if (value) setSelectedBand(value as EqualizerBandId);
+        }}
+        className="flex-wrap"
+      >
+        {EQUALIZER_BAND_IDS.map((id) => (
+          <ToggleGroupItem key={id} value={id} className="px-2 text-xs">
+            {EQUALIZER_BAND_LABELS[id]}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      {/* 選択中の帯域のパラメータ */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-muted-foreground">周波数</span>
+          <span className="font-mono text-muted-foreground">
+            {formatFrequency(band.frequency)}
+          </span>
+        </div>
+        <Slider
+          value={[frequencyToPosition(band.frequency, range)]}
+          onValueChange={(values) =>
+            handleBandChange({
+              frequency: positionToFrequency(values[0], range),
+            })
+          }
+          min={0}
+          max={1}
+          step={0.001}
+          className="w-full"
+          aria-label={`${EQUALIZER_BAND_LABELS[selectedBand]}の周波数`}
+        />
+      </div>
+
+      {hasEqualizerGain(selectedBand) && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-muted-foreground">増減</span>
+            <span className="font-mono text-muted-foreground">
+              {band.gain > 0 ? "+" : ""}
+              {band.gain.toFixed(1)} dB
+            </span>
+          </div>
+          <Slider
+            value={[band.gain]}
+            onValueChange={(values) => handleBandChange({ gain: values[0] })}
+            min={-MAX_EQUALIZER_GAIN}
+            max={MAX_EQUALIZER_GAIN}
+            step={0.5}
+            className="w-full"
+            aria-label={`${EQUALIZER_BAND_LABELS[selectedBand]}の増減`}
+          />
+        </div>
+      )}
+
+      {hasEqualizerQ(selectedBand) && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-muted-foreground">幅 (Q)</span>
+            <span className="font-mono text-muted-foreground">
+              {band.q.toFixed(1)}
+            </span>
+          </div>
+          <Slider
+            value={[band.q]}
+            onValueChange={(values) => handleBandChange({ q: values[0] })}
+            min={MIN_EQUALIZER_Q}
+            max={MAX_EQUALIZER_Q}
+            step={0.1}
+            className="w-full"
+            aria-label={`${EQUALIZER_BAND_LABELS[selectedBand]}の幅`}
+          />
+        </div>
+      )}
+
+      <p className="text-muted-foreground text-xs">
+        こもって聞こえるときは低域・中低域を下げ、サーッというノイズが気になるときは高域を下げます。
+        空調などの低い唸りはローカットで取り除けます。
+      </p>
+    </div>
+  );
+}
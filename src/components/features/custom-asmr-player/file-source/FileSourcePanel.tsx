@@ -0,0 +1,152 @@
+"use client";
+
+import { FileAudio, Loader2, Pause, Play, Repeat, Upload } from "lucide-react";
+import { useId, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { cn } from "@/lib/utils";
+import type { FileSourceStatus } from "../hooks/use-file-audio-source";
+import { AUDIO_FILE_ACCEPT, formatDuration } from "../lib/audio/audio-file";
+
+interface FileSourcePanelProps {
+  // ファイル再生状態
+  status: FileSourceStatus;
+  fileName: string | null;
+  duration: number;
+  currentTime: number;
+  loop: boolean;
+
+  // 操作
+  onFileSelect?: (file: File) => void;
+  onPlay?: () => void;
+  onPause?: () => void;
+  onSeek?: (time: number) => void;
+  onLoopChange?: (loop: boolean) => void;
+
+  className?: string;
+}
+
+export function FileSourcePanel({
+  status,
+  fileName,
+  duration,
+  currentTime,
+  loop,
+  onFileSelect,
+  onPlay,
+  onPause,
+  onSeek,
+  onLoopChange,
+  className,
+}: FileSourcePanelProps) {
+  const [isDragOver, setIsDragOver] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const loopId = useId();
+
+  const isLoading = status === "loading";
+  const isPlaying = status === "playing";
+  const hasFile = fileName !== null && duration > 0;
+
+  // ドロップされたファイルを読み込む
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    const file = e.dataTransfer.files[0];
+    if (file) onFileSelect?.(file);
+  };
+
+  // 選択されたファイルを読み込む
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onFileSelect?.(file);
+    // 同じファイルを選び直せるようにリセット
+    e.target.value = "";
+  };
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      {/* ドロップゾーン */}
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragOver(true);
+        }}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={handleDrop}
+        disabled={isLoading}
+        className={cn(
+          "flex w-full flex-col items-center gap-2 rounded-lg border-2 border-dashed px-4 py-6 text-center transition-colors",
+          isDragOver
+            ? "border-primary bg-primary/10"
+            : "border-muted-foreground/30 hover:border-primary/50",
+        )}
+      >
+        {isLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        ) : hasFile ? (
+          <FileAudio className="h-6 w-6 text-primary" />
+        ) : (
+          <Upload className="h-6 w-6 text-muted-foreground" />
+        )}
+        <span className="break-all font-medium text-sm">
+          {isLoading
+            ? "読み込み中..."
+            : (fileName ?? "音声ファイルをドロップ、またはクリックして選択")}
+        </span>
+        <span className="text-muted-foreground text-xs">
+          WAV / MP3 / OGG / FLAC
+        </span>
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={AUDIO_FILE_ACCEPT}
+        onChange={handleInputChange}
+        className="hidden"
+      />
+
+      {/* トランスポート */}
+      {hasFile && (
+        <div className="space-y-3">
+          <div className="flex items-center gap-3">
+            <Button
+              onClick={isPlaying ? onPause : onPlay}
+              size="icon"
+              variant="outline"
+              aria-label={isPlaying ? "一時停止" : "再生"}
+            >
+              {isPlaying ? (
+                <Pause className="h-4 w-4" />
+              ) : (
+                <Play className="h-4 w-4" />
+              )}
+            </Button>
+            <Slider
+              value={[currentTime]}
+              onValueChange={(values) => onSeek?.(values[0])}
+              min={0}
+              max={duration}
+              step={0.1}
+              className="flex-1"
+              aria-label="再生位置"
+            />
+            <span className="font-mono text-muted-foreground text-xs">
+              {formatDuration(currentTime)} / {formatDuration(duration)}
+            </span>
+          </div>
+          <div className="flex items-center justify-end gap-2">
+            <Repeat className="h-4 w-4 text-muted-foreground" />
+            <Label htmlFor={loopId} className="text-sm">
+              ループ再生
+            </Label>
+            <Switch id={loopId} checked={loop} onCheckedChange={onLoopChange} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+"use client";
+
+import { Crosshair, Loader2, Radio, RotateCcw, Square } from "lucide-react";
+import { useId, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { HeadTrackingStatus } from "../hooks/use-head-tracking";
+import {
+  DEFAULT_ORIENTATION,
+  type ListenerOrientation,
+  ORIENTATION_LIMITS,
+} from "../lib/audio/listener-orientation";
+import {
+  DEFAULT_HEAD_TRACKER_URL,
+  type HeadTrackerSource,
+} from "../lib/motion/head-tracker";
+
+interface HeadTrackingPanelProps {
+  // 頭の向き
+  orientation: ListenerOrientation;
+  onOrientationChange?: (orientation: Partial<ListenerOrientation>) => void;
+
+  // ヘッドトラッキング
+  status: HeadTrackingStatus;
+  source: HeadTrackerSource | null;
+  errorMessage: string | null;
+  isDeviceSupported: boolean;
+  onStart?: (source: HeadTrackerSource, url?: string) => void;
+  onStop?: () => void;
+  onRecenter?: () => void;
+
+  className?: string;
+}
+
+// 頭の向きの各軸の表示名
+const AXIS_LABELS: Record<keyof ListenerOrientation, string> = {
+  yaw: "左右の向き",
+  pitch: "上下の向き",
+  roll: "首の傾き",
+};
+
+// 入力元の表示名
+const SOURCE_LABELS: Record<HeadTrackerSource, string> = {
+  device: "端末のセンサー",
+  websocket: "外部トラッカー",
+};
+
+export function HeadTrackingPanel({
+  orientation,
+  onOrientationChange,
+  status,
+  source,
+  errorMessage,
+  isDeviceSupported,
+  onStart,
+  onStop,
+  onRecenter,
+  className,
+}: HeadTrackingPanelProps) {
+  const urlId = useId();
+  const [selectedSource, setSelectedSource] = useState<HeadTrackerSource>(
+    isDeviceSupported ? "device" : "websocket",
+  );
+  const [url, setUrl] = useState(DEFAULT_HEAD_TRACKER_URL);
+
+  const isActive = status === "tracking" || status === "connecting";
+  const isTracking = status === "tracking";
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Crosshair className="h-5 w-5" />
+          頭の向き
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* 手動での向きの調整（追従中は入力元の値に従う） */}
+        {(Object.keys(AXIS_LABELS) as (keyof ListenerOrientation)[]).map(
+          (axis) => (
+            <div key={axis} className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">{AXIS_LABELS[axis]}</span>
+                <span className="font-mono text-muted-foreground text-xs">
+                  {Math.round(orientation[axis])}°
+                </span>
+              </div>
+              <Slider
+                value={[orientation[axis]]}
+                onValueChange={(values) =>
+                  onOrientationChange?.({ [axis]: values[0] })
+                }
+                min={-ORIENTATION_LIMITS[axis]}
+                max={ORIENTATION_LIMITS[axis]}
+                step={1}
+                disabled={isTracking}
+                aria-label={AXIS_LABELS[axis]}
+              />
+            </div>
+          ),
+        )}
+        <Button
+          onClick={() => onOrientationChange?.(DEFAULT_ORIENTATION)}
+          disabled={isTracking}
+          variant="ghost"
+          size="sm"
+        >
+          <RotateCcw className="mr-2 h-4 w-4" />
+          正面に戻す
+        </Button>
+
+        {/* ヘッドトラッキング */}
+        <div className="space-y-3 border-t pt-4">
+          <span className="font-medium text-sm">ヘッドトラッキング</span>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={selectedSource}
+            onValueChange={(value) => {
+              if (value) setSelectedSource(value as HeadTrackerSource);
+            }}
+            disabled={isActive}
+            className="w-full"
+          >
+            {(Object.keys(SOURCE_LABELS) as HeadTrackerSource[]).map((key) => (
+              <ToggleGroupItem
+                key={key}
+                value={key}
+                disabled={key === "device" && !isDeviceSupported}
+                className="flex-1 text-xs"
+              >
+                {SOURCE_LABELS[key]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+
+          {selectedSource === "websocket" && (
+            <div className="space-y-2">
+              <Label htmlFor={urlId} className="text-xs">
+                ブリッジのURL
+              </Label>
+              <Input
+                id={urlId}
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                disabled={isActive}
+                placeholder={DEFAULT_HEAD_TRACKER_URL}
+                className="font-mono text-xs"
+              />
+              <p className="text-muted-foreground text-xs">
+                OpenTrack の UDP 出力を WebSocket に中継したもの、または
+                {' {"yaw", "pitch", "roll"} '}
+                のJSONを送るトラッカーに対応しています。
+              </p>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              onClick={isActive ? onStop : () => onStart?.(selectedSource, url)}
+              variant={isActive ? "destructive" : "outline"}
+              className="flex-1"
+            >
+              {status === "connecting" ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : isActive ? (
+                <Square className="mr-2 h-4 w-4" />
+              ) : (
+                <Radio className="mr-2 h-4 w-4" />
+              )}
+              {isActive ? "追従を停止" : "追従を開始"}
+            </Button>
+            <Button
+              onClick={onRecenter}
+              disabled={!isTracking}
+              variant="outline"
+            >
+              <Crosshair className="mr-2 h-4 w-4" />
+              正面を合わせる
+            </Button>
+          </div>
+
+          {isTracking && source && (
+            <p className="text-muted-foreground text-xs">
+              {SOURCE_LABELS[source]}
+              の向きに合わせて頭を回しても、音の位置は空間に固定されます。
+            </p>
+          )}
+          {errorMessage && (
+            <p className="text-destructive text-xs">{errorMessage}</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
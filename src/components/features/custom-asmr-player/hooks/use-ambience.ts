@@ -0,0 +1,145 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  type AmbienceKind,
+  type AmbienceLayerNodes,
+  type AmbienceLayerSettings,
+  type AmbienceSettings,
+  DEFAULT_AMBIENCE,
+  generateAmbienceBuffer,
+  startAmbienceLayer,
+  stopAmbienceLayer,
+  updateAmbienceLayer,
+} from "../lib/audio/ambience";
+import {
+  applyPannerConfig,
+  type SpatialAudioConfig,
+  type SpatialAudioNodes,
+} from "../lib/audio/spatial-audio-engine";
+
+interface UseAmbienceOptions {
+  // 現在のノード構成を取得
+  getNodes: () => SpatialAudioNodes | null;
+  // 鳴らしてよいか（3D音響が有効なときのみ）
+  enabled: boolean;
+  // 環境音の Panner にも同じ設定を使う
+  config: SpatialAudioConfig;
+}
+
+interface UseAmbienceResult {
+  // 状態
+  layers: AmbienceSettings;
+
+  // 操作
+  setLayer: (kind: AmbienceKind, layer: Partial<AmbienceLayerSettings>) => void;
+}
+
+/**
+ * キャプチャした音声の下に環境音を重ねるカスタムhook
+ *
+ * 環境音は自動音量調整やコンプレッサーの影響を受けないよう、マスター音量の手前に直接混ぜる。
+ * 生成した音はコンテキストごとにキャッシュし、オンにするたびに作り直さない。
+ */
+export function useAmbience(options: UseAmbienceOptions): UseAmbienceResult {
+  const { getNodes, enabled, config } = options;
+
+  const [layers, setLayers] = useState<AmbienceSettings>(DEFAULT_AMBIENCE);
+
+  const layersRef = useRef<AmbienceSettings>(DEFAULT_AMBIENCE);
+  const enabledRef = useRef(enabled);
+  const configRef = useRef(config);
+  const getNodesRef = useRef(getNodes);
+  // 再生中の環境音
+  const playingRef = useRef(new Map<AmbienceKind, AmbienceLayerNodes>());
+  // 生成済みの音（コンテキストが変わったら作り直す）
+  const buffersRef = useRef<{
+    context: BaseAudioContext | null;
+    buffers: Map<AmbienceKind, AudioBuffer>;
+  }>({ context: null, buffers: new Map() });
+  useEffect(() => {
+    getNodesRef.current = getNodes;
+  }, [getNodes]);
+
+  // 生成済みの音を取得（なければ生成）
+  const getBuffer = useCallback(
+    (context: BaseAudioContext, kind: AmbienceKind): AudioBuffer => {
+      const cache = buffersRef.current;
+      if (cache.context !== context) {
+        cache.context = context;
+        cache.buffers.clear();
+      }
+      let buffer = cache.buffers.get(kind);
+      if (!buffer) {
+        buffer = generateAmbienceBuffer(context, kind);
+        cache.buffers.set(kind, buffer);
+      }
+      return buffer;
+    },
+    [],
+  );
+
+  // 設定に合わせて環境音を開始・停止・更新
+  const syncLayer = useCallback(
+    (kind: AmbienceKind) => {
+      const playing = playingRef.current;
+      const layer = layersRef.current[kind];
+      const current = playing.get(kind);
+      const nodes = enabledRef.current ? getNodesRef.current() : null;
+
+      if (!nodes || !layer.enabled) {
+        if (current) {
+          stopAmbienceLayer(current);
+          playing.delete(kind);
+        }
+        return;
+      }
+
+      if (current) {
+        updateAmbienceLayer(current, layer);
+        return;
+      }
+      playing.set(
+        kind,
+        startAmbienceLayer(
+          nodes.context,
+          getBuffer(nodes.context, kind),
+          layer,
+          configRef.current,
+          nodes.gain,
+        ),
+      );
+    },
+    [getBuffer],
+  );
+
+  // 環境音ごとの設定を更新
+  const setLayer = useCallback(
+    (kind: AmbienceKind, next: Partial<AmbienceLayerSettings>) => {
+      const merged = {
+        ...layersRef.current,
+        [kind]: { ...layersRef.current[kind], ...next },
+      };
+      layersRef.current = merged;
+      setLayers(merged);
+      syncLayer(kind);
+    },
+    [syncLayer],
+  );
+
+  // 3D音響の開始・停止に合わせて鳴らす
+  useEffect(() => {
+    enabledRef.current = enabled;
+    for (const kind of Object.keys(layersRef.current) as AmbienceKind[]) {
+      syncLayer(kind);
+    }
+  }, [enabled, syncLayer]);
+
+  // Panner の設定を反映
+  useEffect(() => {
+    configRef.current = config;
+    for (const nodes of playingRef.current.values()) {
+      applyPannerConfig(nodes.panner, config);
+    }
+  }, [config]);
+
+  return { layers, setLayer };
+}
@@ -0,0 +1,107 @@
+import { useEffect, useRef, useState } from "react";
+import { getAutoGainAmount, updateAutoGain } from "../lib/audio/dynamics";
+import {
+  createLoudnessBuffer,
+  getLoudnessReading,
+  LOUDNESS_BLOCK_INTERVAL,
+  LOUDNESS_FLOOR,
+  pushLoudnessBlock,
+  readLoudnessBlock,
+} from "../lib/audio/loudness";
+import type { SpatialAudioNodes } from "../lib/audio/spatial-audio-engine";
+
+interface UseAutoGainOptions {
+  // 現在のノード構成を取得
+  getNodes: () => SpatialAudioNodes | null;
+  // 計測してよいか（3D音響が有効なときのみ）
+  enabled: boolean;
+  // 計測結果に合わせて音量を調整するか
+  autoGain: boolean;
+  // 目標のラウドネス (LUFS)
+  targetLoudness: number;
+}
+
+interface UseAutoGainResult {
+  // 状態
+  // 調整前のショートタームラウドネス（計測していないときは null）
+  loudness: number | null;
+  // 現在の調整量 (dB)
+  gainAdjustment: number;
+}
+
+// 表示と再描画の頻度を抑えるため 0.1 単位に丸める
+function roundTenth(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * ラウドネスを計測し、目標に近づくように音量を自動で調整するカスタムhook
+ *
+ * 共有したタブを見ている間もこのページは裏で動き続けるため、
+ * 画面更新ではなくタイマーで一定間隔ごとに読み取る。
+ * 大きくなったときにすぐ下げられるよう、モーメンタリーとショートタームの大きい方を使う。
+ */
+export function useAutoGain(options: UseAutoGainOptions): UseAutoGainResult {
+  const { getNodes, enabled, autoGain, targetLoudness } = options;
+
+  const [loudness, setLoudness] = useState<number | null>(null);
+  const [gainAdjustment, setGainAdjustment] = useState(0);
+
+  const getNodesRef = useRef(getNodes);
+  const settingsRef = useRef({ autoGain, targetLoudness });
+  const gainAdjustmentRef = useRef(0);
+  useEffect(() => {
+    getNodesRef.current = getNodes;
+    settingsRef.current = { autoGain, targetLoudness };
+  }, [getNodes, autoGain, targetLoudness]);
+
+  // 計測ループ
+  useEffect(() => {
+    if (!enabled) {
+      // 停止したら調整を戻す（次に開始したときに前の量が残らないように）
+      setLoudness(null);
+      gainAdjustmentRef.current = 0;
+      setGainAdjustment(0);
+      const dynamics = getNodesRef.current()?.dynamics;
+      if (dynamics) {
+        updateAutoGain(dynamics, 0);
+      }
+      return;
+    }
+
+    const buffer = createLoudnessBuffer();
+    let blocks: number[] = [];
+
+    const timer = setInterval(() => {
+      const dynamics = getNodesRef.current()?.dynamics;
+      if (!dynamics) return;
+
+      blocks = pushLoudnessBlock(
+        blocks,
+        readLoudnessBlock(dynamics.loudness, buffer),
+      );
+      const { momentary, shortTerm } = getLoudnessReading(blocks);
+      setLoudness(shortTerm <= LOUDNESS_FLOOR ? null : roundTenth(shortTerm));
+
+      const settings = settingsRef.current;
+      const next = settings.autoGain
+        ? roundTenth(
+            getAutoGainAmount(
+              Math.max(momentary, shortTerm),
+              settings.targetLoudness,
+              gainAdjustmentRef.current,
+            ),
+          )
+        : 0;
+      if (next !== gainAdjustmentRef.current) {
+        gainAdjustmentRef.current = next;
+        setGainAdjustment(next);
+        updateAutoGain(dynamics, next);
+      }
+    }, LOUDNESS_BLOCK_INTERVAL);
+
+    return () => clearInterval(timer);
+  }, [enabled]);
+
+  return { loudness, gainAdjustment };
+}
@@ -0,0 +1,204 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  type BeatGeneratorNodes,
+  type BeatProgram,
+  type BeatSettings,
+  DEFAULT_BEAT,
+  getProgramBeat,
+  scheduleBeatProgram,
+  startBeatGenerator,
+  stopBeatGenerator,
+  updateBeatGenerator,
+  updateBeatLevel,
+} from "../lib/audio/beat-generator";
+import type { SpatialAudioNodes } from "../lib/audio/spatial-audio-engine";
+
+interface UseBeatGeneratorOptions {
+  // 現在のノード構成を取得
+  getNodes: () => SpatialAudioNodes | null;
+  // 鳴らしてよいか（3D音響が有効なときのみ。無効になったらプログラムも止める）
+  enabled: boolean;
+}
+
+interface UseBeatGeneratorResult {
+  // 状態
+  settings: BeatSettings;
+  program: BeatProgram | null;
+  // プログラム中は経過に合わせたビート、それ以外は設定のビート
+  currentBeat: number;
+  // プログラムの残り時間（秒、プログラム中でなければ null）
+  programRemaining: number | null;
+
+  // 操作
+  setSettings: (settings: Partial<BeatSettings>) => void;
+  startProgram: (program: BeatProgram) => void;
+  stopProgram: () => void;
+}
+
+// 進行中のプログラム
+interface RunningProgram {
+  program: BeatProgram;
+  startedAt: number;
+}
+
+// プログラムの進み具合を表示に反映する間隔（ミリ秒）
+const PROGRAM_TICK_INTERVAL = 1000;
+
+/**
+ * バイノーラルビート・アイソクロニックトーンを鳴らすカスタムhook
+ *
+ * プログラムのビートの変化は AudioParam のオートメーションで予約し、
+ * 表示だけをタイマーで経過時間から計算する。
+ */
+export function useBeatGenerator(
+  options: UseBeatGeneratorOptions,
+): UseBeatGeneratorResult {
+  const { getNodes, enabled } = options;
+
+  const [settings, setSettingsState] = useState<BeatSettings>(DEFAULT_BEAT);
+  const [running, setRunning] = useState<RunningProgram | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+
+  const settingsRef = useRef<BeatSettings>(DEFAULT_BEAT);
+  const runningRef = useRef<RunningProgram | null>(null);
+  const enabledRef = useRef(enabled);
+  const getNodesRef = useRef(getNodes);
+  // 鳴っているノード
+  const generatorRef = useRef<BeatGeneratorNodes | null>(null);
+  useEffect(() => {
+    getNodesRef.current = getNodes;
+  }, [getNodes]);
+
+  // 設定を更新
+  const updateSettings = useCallback((next: BeatSettings) => {
+    settingsRef.current = next;
+    setSettingsState(next);
+  }, []);
+
+  // 進行中のプログラムを更新
+  const updateRunning = useCallback((next: RunningProgram | null) => {
+    runningRef.current = next;
+    setRunning(next);
+    setElapsed(0);
+  }, []);
+
+  // 設定に合わせて開始・停止・更新（方式が変わったら作り直す）
+  const sync = useCallback(() => {
+    const current = settingsRef.current;
+    const nodes = enabledRef.current ? getNodesRef.current() : null;
+    const generator = generatorRef.current;
+
+    if (
+      generator &&
+      (!nodes || !current.enabled || generator.mode !== current.mode)
+    ) {
+      stopBeatGenerator(generator);
+      generatorRef.current = null;
+    }
+    if (!nodes || !current.enabled) {
+      return;
+    }
+
+    if (generatorRef.current) {
+      updateBeatGenerator(generatorRef.current, current);
+    } else {
+      generatorRef.current = startBeatGenerator(
+        nodes.context,
+        current,
+        nodes.gain,
+      );
+    }
+  }, []);
+
+  // プログラムを止め、その時点のビートを設定として残す
+  const stopProgram = useCallback(() => {
+    const current = runningRef.current;
+    if (!current) return;
+
+    const beat = getProgramBeat(
+      current.program,
+      (Date.now() - current.startedAt) / 1000,
+    );
+    updateRunning(null);
+    updateSettings({ ...settingsRef.current, beat });
+    sync();
+  }, [updateRunning, updateSettings, sync]);
+
+  // 設定を変更（音量以外を変えたら、プログラムはその時点で止める）
+  const setSettings = useCallback(
+    (next: Partial<BeatSettings>) => {
+      const isLevelOnly = Object.keys(next).every((key) => key === "level");
+      if (runningRef.current && isLevelOnly) {
+        updateSettings({ ...settingsRef.current, ...next });
+        if (generatorRef.current) {
+          updateBeatLevel(generatorRef.current, settingsRef.current.level);
+        }
+        return;
+      }
+
+      stopProgram();
+      updateSettings({ ...settingsRef.current, ...next });
+      sync();
+    },
+    [updateSettings, stopProgram, sync],
+  );
+
+  // プログラムを開始（止まっていれば鳴らし始める）
+  const startProgram = useCallback(
+    (program: BeatProgram) => {
+      updateSettings({
+        ...settingsRef.current,
+        enabled: true,
+        beat: program.from,
+      });
+      sync();
+
+      const generator = generatorRef.current;
+      if (!generator) return;
+
+      scheduleBeatProgram(generator, settingsRef.current, program);
+      updateRunning({ program, startedAt: Date.now() });
+    },
+    [updateSettings, updateRunning, sync],
+  );
+
+  // プログラムの経過を表示に反映し、終わったら最後のビートを設定として残す
+  useEffect(() => {
+    if (!running) return;
+
+    const tick = () => {
+      const seconds = (Date.now() - running.startedAt) / 1000;
+      setElapsed(seconds);
+      if (seconds >= running.program.minutes * 60) {
+        updateRunning(null);
+        updateSettings({ ...settingsRef.current, beat: running.program.to });
+      }
+    };
+
+    const timer = setInterval(tick, PROGRAM_TICK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [running, updateRunning, updateSettings]);
+
+  // 3D音響の開始・停止に合わせて鳴らす
+  useEffect(() => {
+    enabledRef.current = enabled;
+    if (!enabled && runningRef.current) {
+      updateRunning(null);
+    }
+    sync();
+  }, [enabled, sync, updateRunning]);
+
+  return {
+    settings,
+    program: running?.program ?? null,
+    currentBeat: running
+      ? getProgramBeat(running.program, elapsed)
+      : settings.beat,
+    programRemaining: running
+      ? Math.max(0, running.program.minutes * 60 - elapsed)
+      : null,
+    setSettings,
+    startProgram,
+    stopProgram,
+  };
+}
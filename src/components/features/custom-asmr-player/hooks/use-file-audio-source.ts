@@ -0,0 +1,247 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { decodeAudioFile, isSupportedAudioFile } from "../lib/audio/audio-file";
+import { createBufferSource } from "../lib/audio/spatial-audio-engine";
+
+// ファイル再生の状態
+export type FileSourceStatus =
+  | "idle" // ファイル未選択
+  | "loading" // デコード中
+  | "ready" // 再生可能（停止中）
+  | "playing" // 再生中
+  | "paused" // 一時停止中
+  | "error"; // エラー
+
+// エラーの種類
+export type FileSourceError =
+  | "unsupported-format" // 非対応の形式
+  | "decode-failed"; // デコード失敗
+
+interface UseFileAudioSourceOptions {
+  // 再生に使うAudioContextを取得（未初期化なら null）
+  getContext: () => AudioContext | null;
+  // 作成したソースノードを空間音響グラフに接続
+  connectSource: (node: AudioNode) => void;
+}
+
+interface UseFileAudioSourceResult {
+  // 状態
+  status: FileSourceStatus;
+  error: FileSourceError | null;
+  errorMessage: string | null;
+  fileName: string | null;
+  buffer: AudioBuffer | null;
+  duration: number;
+  currentTime: number;
+  loop: boolean;
+
+  // 操作
+  loadFile: (file: File, context: BaseAudioContext) => Promise<boolean>;
+  play: () => boolean;
+  pause: () => void;
+  stop: () => void;
+  seek: (time: number) => void;
+  setLoop: (loop: boolean) => void;
+}
+
+// 再生位置の表示を更新する間隔（ミリ秒）
+const PROGRESS_INTERVAL_MS = 200;
+
+// エラーメッセージのマッピング
+function getErrorMessage(error: FileSourceError): string {
+  switch (error) {
+    case "unsupported-format":
+      return "対応していないファイル形式です。WAV / MP3 / OGG / FLAC のファイルを選択してください。";
+    case "decode-failed":
+      return "音声ファイルを読み込めませんでした。ファイルが壊れているか、このブラウザでは再生できない形式です。";
+  }
+}
+
+/**
+ * ローカルの音声ファイルを再生ソースとして扱うカスタムhook
+ *
+ * ファイルをAudioBufferにデコードし、再生のたびにAudioBufferSourceNodeを作成して
+ * タブ音声と同じ空間音響グラフに接続します。
+ */
+export function useFileAudioSource(
+  options: UseFileAudioSourceOptions,
+): UseFileAudioSourceResult {
+  const { getContext, connectSource } = options;
+
+  const [status, setStatus] = useState<FileSourceStatus>("idle");
+  const [error, setError] = useState<FileSourceError | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [buffer, setBuffer] = useState<AudioBuffer | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [loop, setLoopState] = useState(false);
+
+  const bufferRef = useRef<AudioBuffer | null>(null);
+  const nodeRef = useRef<AudioBufferSourceNode | null>(null);
+  const loopRef = useRef(false);
+  // 再生開始時のAudioContext時刻と、そのときのファイル内の位置
+  const startedAtRef = useRef(0);
+  const offsetRef = useRef(0);
+
+  // 現在の再生位置（秒）を計算
+  const getPlaybackTime = useCallback((): number => {
+    const node = nodeRef.current;
+    const duration = bufferRef.current?.duration ?? 0;
+    if (!node || duration === 0) return offsetRef.current;
+
+    const elapsed =
+      node.context.currentTime - startedAtRef.current + offsetRef.current;
+    return loopRef.current ? elapsed % duration : Math.min(elapsed, duration);
+  }, []);
+
+  // 再生中のノードを止める（終了イベントは無視させる）
+  const stopNode = useCallback(() => {
+    const node = nodeRef.current;
+    if (!node) return;
+
+    nodeRef.current = null;
+    node.onended = null;
+    node.stop();
+    node.disconnect();
+  }, []);
+
+  // ファイルを読み込んでデコード
+  const loadFile = useCallback(
+    async (file: File, context: BaseAudioContext): Promise<boolean> => {
+      if (!isSupportedAudioFile(file)) {
+        setError("unsupported-format");
+        setStatus("error");
+        return false;
+      }
+
+      stopNode();
+      setStatus("loading");
+      setError(null);
+
+      try {
+        const decoded = await decodeAudioFile(context, file);
+        bufferRef.current = decoded;
+        offsetRef.current = 0;
+        setBuffer(decoded);
+        setFileName(file.name);
+        setCurrentTime(0);
+        setStatus("ready");
+        return true;
+      } catch {
+        setError("decode-failed");
+        setStatus("error");
+        return false;
+      }
+    },
+    [stopNode],
+  );
+
+  // 現在の位置から再生
+  const play = useCallback((): boolean => {
+    const context = getContext();
+    const decoded = bufferRef.current;
+    if (!context || !decoded) return false;
+
+    stopNode();
+
+    // 最後まで再生し終えていたら先頭から
+    if (offsetRef.current >= decoded.duration) {
+      offsetRef.current = 0;
+    }
+
+    const node = createBufferSource(context, decoded, loopRef.current);
+    node.onended = () => {
+      // 最後まで再生したら先頭に戻して停止状態にする
+      if (nodeRef.current !== node) return;
+      nodeRef.current = null;
+      offsetRef.current = 0;
+      setCurrentTime(0);
+      setStatus("ready");
+    };
+
+    connectSource(node);
+    startedAtRef.current = context.currentTime;
+    node.start(0, offsetRef.current);
+    nodeRef.current = node;
+    setStatus("playing");
+    return true;
+  }, [getContext, connectSource, stopNode]);
+
+  // 一時停止（位置を保持）
+  const pause = useCallback(() => {
+    if (!nodeRef.current) return;
+
+    offsetRef.current = getPlaybackTime();
+    stopNode();
+    setCurrentTime(offsetRef.current);
+    setStatus("paused");
+  }, [getPlaybackTime, stopNode]);
+
+  // 停止（先頭に戻す）
+  const stop = useCallback(() => {
+    stopNode();
+    offsetRef.current = 0;
+    setCurrentTime(0);
+    setStatus(bufferRef.current ? "ready" : "idle");
+  }, [stopNode]);
+
+  // 再生位置を移動
+  const seek = useCallback(
+    (time: number) => {
+      const duration = bufferRef.current?.duration ?? 0;
+      offsetRef.current = Math.max(0, Math.min(duration, time));
+      setCurrentTime(offsetRef.current);
+
+      // 再生中なら新しい位置から再生し直す（ソースノードだけを作り直し、グラフは組み直さない）
+      if (nodeRef.current) {
+        play();
+      }
+    },
+    [play],
+  );
+
+  // ループ再生を切り替え
+  const setLoop = useCallback(
+    (value: boolean) => {
+      // ループ解除時に2周目以降の位置がずれないよう、現在位置を基準にし直す
+      if (nodeRef.current) {
+        offsetRef.current = getPlaybackTime();
+        startedAtRef.current = nodeRef.current.context.currentTime;
+        nodeRef.current.loop = value;
+      }
+      loopRef.current = value;
+      setLoopState(value);
+    },
+    [getPlaybackTime],
+  );
+
+  // 再生中は表示用の再生位置を定期的に更新
+  useEffect(() => {
+    if (status !== "playing") return;
+
+    const timer = setInterval(() => {
+      setCurrentTime(getPlaybackTime());
+    }, PROGRESS_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [status, getPlaybackTime]);
+
+  // アンマウント時に再生を止める
+  useEffect(() => {
+    return () => stopNode();
+  }, [stopNode]);
+
+  return {
+    status,
+    error,
+    errorMessage: error ? getErrorMessage(error) : null,
+    fileName,
+    buffer,
+    duration: buffer?.duration ?? 0,
+    currentTime,
+    loop,
+    loadFile,
+    play,
+    pause,
+    stop,
+    seek,
+    setLoop,
+  };
+}
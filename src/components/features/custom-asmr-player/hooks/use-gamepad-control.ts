@@ -0,0 +1,95 @@
+import { useEffect, useRef, useState } from "react";
+import { getActiveGamepad, readGamepadInput } from "../lib/motion/gamepad";
+import type { PadPoint } from "../lib/motion/motion-presets";
+
+interface UseGamepadControlOptions {
+  // 操作してよいか（3D音響が有効なときのみ）
+  enabled: boolean;
+  // 動かす音源の現在位置
+  getPosition: () => PadPoint | null;
+  // 入力があったフレームごとに新しい位置を通知
+  onMove: (point: PadPoint) => void;
+}
+
+interface UseGamepadControlResult {
+  // 状態
+  gamepadName: string | null;
+}
+
+// -1 から 1 の範囲にクランプ
+function clampUnit(value: number): number {
+  return Math.max(-1, Math.min(1, value));
+}
+
+/**
+ * ゲームパッドで音源を動かすカスタムhook
+ *
+ * スティックの傾きを速さとして扱い、画面更新ごとに経過時間ぶん位置を進める。
+ * Gamepad API はイベントで値を通知しないため、接続中は毎フレーム状態を読み取る。
+ */
+export function useGamepadControl(
+  options: UseGamepadControlOptions,
+): UseGamepadControlResult {
+  const { enabled, getPosition, onMove } = options;
+
+  const [gamepadName, setGamepadName] = useState<string | null>(null);
+
+  const getPositionRef = useRef(getPosition);
+  const onMoveRef = useRef(onMove);
+  useEffect(() => {
+    getPositionRef.current = getPosition;
+    onMoveRef.current = onMove;
+  }, [getPosition, onMove]);
+
+  // 接続・切断を監視
+  useEffect(() => {
+    if (!("getGamepads" in navigator)) return;
+
+    const update = () => setGamepadName(getActiveGamepad()?.id ?? null);
+    update();
+    window.addEventListener("gamepadconnected", update);
+    window.addEventListener("gamepaddisconnected", update);
+    return () => {
+      window.removeEventListener("gamepadconnected", update);
+      window.removeEventListener("gamepaddisconnected", update);
+    };
+  }, []);
+
+  // 接続中は毎フレーム入力を読み取る
+  useEffect(() => {
+    if (!enabled || !gamepadName) return;
+
+    let frameId: number;
+    let lastTime = performance.now();
+    // 押し込みは押した瞬間だけ反応させる
+    let wasRecentering = false;
+
+    const tick = (now: number) => {
+      const delta = (now - lastTime) / 1000;
+      lastTime = now;
+
+      const gamepad = getActiveGamepad();
+      const position = getPositionRef.current();
+      if (gamepad && position) {
+        const { velocity, recenter } = readGamepadInput(gamepad);
+        if (recenter && !wasRecentering) {
+          onMoveRef.current({ x: 0, y: 0, height: 0 });
+        } else if (velocity.x || velocity.y || velocity.height) {
+          onMoveRef.current({
+            x: clampUnit(position.x + velocity.x * delta),
+            y: clampUnit(position.y + velocity.y * delta),
+            height: clampUnit(position.height + velocity.height * delta),
+          });
+        }
+        wasRecentering = recenter;
+      }
+
+      frameId = requestAnimationFrame(tick);
+    };
+
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [enabled, gamepadName]);
+
+  return { gamepadName };
+}
@@ -0,0 +1,271 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  clampOrientation,
+  type ListenerOrientation,
+} from "../lib/audio/listener-orientation";
+import {
+  fromDeviceOrientation,
+  getRelativeOrientation,
+  type HeadTrackerSource,
+  parseHeadTrackerMessage,
+} from "../lib/motion/head-tracker";
+
+// ヘッドトラッキングの状態
+export type HeadTrackingStatus =
+  | "idle" // 停止中
+  | "connecting" // 許可の確認中・接続中
+  | "tracking" // 追従中
+  | "error"; // エラー
+
+// エラーの種類
+export type HeadTrackingError =
+  | "not-supported" // センサー非対応
+  | "permission-denied" // センサーの使用が拒否された
+  | "connection-failed"; // WebSocket に接続できない・切断された
+
+interface UseHeadTrackingOptions {
+  // 頭の向きを通知（一定間隔ごとに最新の値だけを渡す）
+  onOrientation: (orientation: ListenerOrientation) => void;
+}
+
+interface UseHeadTrackingResult {
+  // 状態
+  status: HeadTrackingStatus;
+  error: HeadTrackingError | null;
+  errorMessage: string | null;
+  source: HeadTrackerSource | null;
+
+  // 操作
+  start: (source: HeadTrackerSource, url?: string) => Promise<boolean>;
+  stop: () => void;
+  recenter: () => void;
+
+  // ブラウザ対応チェック
+  isDeviceSupported: boolean;
+}
+
+// 頭の向きを通知する間隔（ミリ秒）
+const ORIENTATION_UPDATE_INTERVAL = 20;
+
+// iOS Safari ではセンサーの使用前に許可を求める必要がある
+interface DeviceOrientationEventWithPermission {
+  requestPermission?: () => Promise<PermissionState>;
+}
+
+// エラーメッセージのマッピング
+function getErrorMessage(error: HeadTrackingError): string {
+  switch (error) {
+    case "not-supported":
+      return "この端末は向きセンサーに対応していません。";
+    case "permission-denied":
+      return "向きセンサーの使用が拒否されました。ブラウザの設定で許可してください。";
+    case "connection-failed":
+      return "ヘッドトラッカーに接続できませんでした。ブリッジが起動しているか、URLを確認してください。";
+  }
+}
+
+/**
+ * 端末のセンサーや外部のヘッドトラッカーでリスナーの頭の向きを追従するカスタムhook
+ *
+ * センサーは開始時の向きを正面とし、recenter でいつでも正面を合わせ直せます。
+ * 外部トラッカーはトラッカー側の正面をそのまま使います。
+ * 共有したタブを見ている間もこのページは裏で動き続けるため、
+ * 届いた向きは画面更新ではなくタイマーでまとめて通知します。
+ */
+export function useHeadTracking(
+  options: UseHeadTrackingOptions,
+): UseHeadTrackingResult {
+  const { onOrientation } = options;
+
+  const [status, setStatus] = useState<HeadTrackingStatus>("idle");
+  const [error, setError] = useState<HeadTrackingError | null>(null);
+  const [source, setSource] = useState<HeadTrackerSource | null>(null);
+  // SSRとクライアントで一致させるため、初期値はfalseにしてクライアントでチェック
+  const [isDeviceSupported, setIsDeviceSupported] = useState(false);
+
+  const onOrientationRef = useRef(onOrientation);
+  // 最後に届いた生の向きと、正面として扱う基準の向き
+  const latestRef = useRef<ListenerOrientation | null>(null);
+  const referenceRef = useRef<ListenerOrientation | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // 入力元ごとの後片付け
+  const teardownRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    onOrientationRef.current = onOrientation;
+  }, [onOrientation]);
+
+  // ブラウザ対応チェック（クライアントサイドでのみ実行）
+  useEffect(() => {
+    setIsDeviceSupported(
+      typeof window !== "undefined" && "DeviceOrientationEvent" in window,
+    );
+  }, []);
+
+  // 届いた向きを保持し、一定間隔ごとにまとめて通知
+  const receive = useCallback((orientation: ListenerOrientation) => {
+    latestRef.current = orientation;
+    if (timerRef.current !== null) return;
+
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      const latest = latestRef.current;
+      if (!latest) return;
+
+      const reference = referenceRef.current;
+      onOrientationRef.current(
+        reference
+          ? getRelativeOrientation(latest, reference)
+          : clampOrientation(latest),
+      );
+    }, ORIENTATION_UPDATE_INTERVAL);
+  }, []);
+
+  // 追従を停止
+  const stop = useCallback(() => {
+    teardownRef.current?.();
+    teardownRef.current = null;
+    if (timerRef.current !== null) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    latestRef.current = null;
+    referenceRef.current = null;
+    setSource(null);
+    setStatus("idle");
+  }, []);
+
+  // 失敗した場合は後片付けしてエラーにする
+  const fail = useCallback(
+    (nextError: HeadTrackingError) => {
+      stop();
+      setError(nextError);
+      setStatus("error");
+    },
+    [stop],
+  );
+
+  // 端末の向きセンサーで追従
+  const startDevice = useCallback(async (): Promise<boolean> => {
+    if (!isDeviceSupported) {
+      fail("not-supported");
+      return false;
+    }
+
+    const { requestPermission } =
+      DeviceOrientationEvent as unknown as DeviceOrientationEventWithPermission;
+    if (requestPermission) {
+      try {
+        if ((await requestPermission()) !== "granted") {
+          fail("permission-denied");
+          return false;
+        }
+      } catch {
+        fail("permission-denied");
+        return false;
+      }
+    }
+
+    const handleOrientation = (event: DeviceOrientationEvent) => {
+      const orientation = fromDeviceOrientation(event);
+      if (!orientation) return;
+
+      // 最初に届いた向きを正面にする
+      referenceRef.current ??= orientation;
+      setStatus("tracking");
+      receive(orientation);
+    };
+    window.addEventListener("deviceorientation", handleOrientation);
+    teardownRef.current = () =>
+      window.removeEventListener("deviceorientation", handleOrientation);
+    return true;
+  }, [isDeviceSupported, fail, receive]);
+
+  // WebSocket で届く外部トラッカーの値で追従
+  const startWebSocket = useCallback(
+    (url: string): Promise<boolean> =>
+      new Promise((resolve) => {
+        let socket: WebSocket;
+        try {
+          socket = new WebSocket(url);
+        } catch {
+          fail("connection-failed");
+          resolve(false);
+          return;
+        }
+        socket.binaryType = "arraybuffer";
+
+        // 接続中に止めた場合も開始を待っている側に結果を返す
+        let closedByUser = false;
+        teardownRef.current = () => {
+          closedByUser = true;
+          socket.close();
+          resolve(false);
+        };
+
+        socket.addEventListener("open", () => {
+          setStatus("tracking");
+          resolve(true);
+        });
+        socket.addEventListener("message", (event) => {
+          const orientation = parseHeadTrackerMessage(event.data);
+          if (orientation) receive(orientation);
+        });
+        socket.addEventListener("close", () => {
+          if (closedByUser) return;
+          fail("connection-failed");
+          resolve(false);
+        });
+      }),
+    [fail, receive],
+  );
+
+  // 追従を開始（既に追従中なら入力元を切り替える）
+  const start = useCallback(
+    async (next: HeadTrackerSource, url?: string): Promise<boolean> => {
+      stop();
+      setError(null);
+      setSource(next);
+      setStatus("connecting");
+
+      if (next === "device") {
+        return startDevice();
+      }
+      if (!url) {
+        fail("connection-failed");
+        return false;
+      }
+      return startWebSocket(url);
+    },
+    [stop, fail, startDevice, startWebSocket],
+  );
+
+  // 現在の向きを正面にする
+  const recenter = useCallback(() => {
+    referenceRef.current = latestRef.current;
+    if (latestRef.current) {
+      receive(latestRef.current);
+    }
+  }, [receive]);
+
+  // コンポーネントのアンマウント時に停止
+  useEffect(() => {
+    return () => {
+      teardownRef.current?.();
+      if (timerRef.current !== null) {
+        clearTimeout(timerRef.current);
+      }
+    };
+  }, []);
+
+  return {
+    status,
+    error,
+    errorMessage: error ? getErrorMessage(error) : null,
+    source,
+    start,
+    stop,
+    recenter,
+    isDeviceSupported,
+  };
+}
@@ -0,0 +1,84 @@
+import { useCallback, useState } from "react";
+import { type HrirSet, loadSofaFile } from "../lib/audio/sofa";
+
+// HRIRセットの読み込み状態
+export type HrirLoaderStatus =
+  | "idle" // 未読み込み
+  | "loading" // 解析中
+  | "ready" // 読み込み済み
+  | "error"; // エラー
+
+// エラーの種類
+export type HrirLoaderError =
+  | "unsupported-format" // SOFAファイルではない
+  | "parse-failed"; // 解析に失敗
+
+interface UseHrirLoaderResult {
+  // 状態
+  status: HrirLoaderStatus;
+  error: HrirLoaderError | null;
+  errorMessage: string | null;
+  hrirSet: HrirSet | null;
+
+  // 操作
+  loadFile: (file: File) => Promise<HrirSet | null>;
+  clear: () => void;
+}
+
+// エラーメッセージのマッピング
+function getErrorMessage(error: HrirLoaderError): string {
+  switch (error) {
+    case "unsupported-format":
+      return "SOFAファイル（.sofa）を選択してください。";
+    case "parse-failed":
+      return "HRIRを読み込めませんでした。SimpleFreeFieldHRIR 形式のSOFAファイルか確認してください。";
+  }
+}
+
+/**
+ * SOFAファイルからHRIRセットを読み込むカスタムhook
+ */
+export function useHrirLoader(): UseHrirLoaderResult {
+  const [status, setStatus] = useState<HrirLoaderStatus>("idle");
+  const [error, setError] = useState<HrirLoaderError | null>(null);
+  const [hrirSet, setHrirSet] = useState<HrirSet | null>(null);
+
+  // SOFAファイルを読み込む
+  const loadFile = useCallback(async (file: File): Promise<HrirSet | null> => {
+    if (!file.name.toLowerCase().endsWith(".sofa")) {
+      setError("unsupported-format");
+      setStatus("error");
+      return null;
+    }
+
+    setStatus("loading");
+    setError(null);
+
+    try {
+      const loaded = await loadSofaFile(file);
+      setHrirSet(loaded);
+      setStatus("ready");
+      return loaded;
+    } catch {
+      setError("parse-failed");
+      setStatus("error");
+      return null;
+    }
+  }, []);
+
+  // 読み込んだHRIRセットを外す
+  const clear = useCallback(() => {
+    setHrirSet(null);
+    setError(null);
+    setStatus("idle");
+  }, []);
+
+  return {
+    status,
+    error,
+    errorMessage: error ? getErrorMessage(error) : null,
+    hrirSet,
+    loadFile,
+    clear,
+  };
+}
@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  type ChannelLevel,
+  createMeterBuffer,
+  METER_MIN_DECIBELS,
+  readChannelLevels,
+  readSignalPeak,
+} from "../lib/audio/level-meter";
+import type { SpatialAudioNodes } from "../lib/audio/spatial-audio-engine";
+
+interface UseLevelMeterOptions {
+  // 現在のノード構成を取得
+  getNodes: () => SpatialAudioNodes | null;
+  // 計測してよいか（3D音響が有効なときのみ）
+  enabled: boolean;
+  // 無音の警告を出してよいか（ファイルの停止中など、入力がないのが当然のときは false）
+  detectSilence: boolean;
+}
+
+interface UseLevelMeterResult {
+  // 状態
+  levels: ChannelLevel[];
+  hasNoSignal: boolean;
+
+  // 他の処理からスペクトルを読み取るためのアクセサ
+  getSpectrumAnalyser: () => AnalyserNode | null;
+}
+
+// メーターの表示を更新する間隔（ミリ秒）
+const METER_UPDATE_INTERVAL = 50;
+
+// これより小さいピークは無音とみなす (dBFS)
+const SILENCE_THRESHOLD = -55;
+
+// 無音がこの秒数続いたら警告する
+export const NO_SIGNAL_TIMEOUT = 5;
+
+// 無音のときの表示
+const SILENT_LEVELS: ChannelLevel[] = [
+  { peak: METER_MIN_DECIBELS, rms: METER_MIN_DECIBELS },
+  { peak: METER_MIN_DECIBELS, rms: METER_MIN_DECIBELS },
+];
+
+/**
+ * 出力の音量を計測し、入力の無音が続いていないかを見張るカスタムhook
+ *
+ * 画面更新ごとに読み取ると全体の再描画が増えるため、メーターの状態は一定間隔で更新する。
+ * スペクトルは描画側が AnalyserNode から直接読み取る。
+ * 無音の判定は処理前の入力で行うため、音量を0にしたりミュートしても警告は出ない。
+ */
+export function useLevelMeter(
+  options: UseLevelMeterOptions,
+): UseLevelMeterResult {
+  const { getNodes, enabled, detectSilence } = options;
+
+  const [levels, setLevels] = useState<ChannelLevel[]>(SILENT_LEVELS);
+  const [hasNoSignal, setHasNoSignal] = useState(false);
+
+  const getNodesRef = useRef(getNodes);
+  // 最後に入力が届いた時刻
+  const lastSignalRef = useRef(0);
+  useEffect(() => {
+    getNodesRef.current = getNodes;
+  }, [getNodes]);
+
+  // 計測ループ
+  useEffect(() => {
+    if (!enabled) {
+      setLevels(SILENT_LEVELS);
+      return;
+    }
+
+    const buffer = createMeterBuffer();
+    let frameId: number;
+    let lastUpdate = 0;
+
+    const tick = (now: number) => {
+      const meter = getNodesRef.current()?.meter;
+      if (meter && now - lastUpdate >= METER_UPDATE_INTERVAL) {
+        lastUpdate = now;
+        if (readSignalPeak(meter, buffer) > SILENCE_THRESHOLD) {
+          lastSignalRef.current = now;
+        }
+        setLevels(readChannelLevels(meter, buffer));
+      }
+      frameId = requestAnimationFrame(tick);
+    };
+
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [enabled]);
+
+  // 無音の監視（見張り始めてから入力が来ない状態が続いたら警告）
+  const isWatching = enabled && detectSilence;
+  useEffect(() => {
+    if (!isWatching) {
+      setHasNoSignal(false);
+      return;
+    }
+
+    // 入力が届いた時刻は計測ループで記録し、ここでは一定間隔で判定だけ行う
+    lastSignalRef.current = performance.now();
+    const timer = setInterval(() => {
+      setHasNoSignal(
+        performance.now() - lastSignalRef.current >= NO_SIGNAL_TIMEOUT * 1000,
+      );
+    }, METER_UPDATE_INTERVAL);
+    return () => clearInterval(timer);
+  }, [isWatching]);
+
+  // スペクトル計測用の AnalyserNode を取得（未初期化なら null）
+  const getSpectrumAnalyser = useCallback(
+    () => getNodesRef.current()?.meter?.spectrum ?? null,
+    [],
+  );
+
+  return { levels, hasNoSignal, getSpectrumAnalyser };
+}
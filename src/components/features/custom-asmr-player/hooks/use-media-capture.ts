@@ -0,0 +1,170 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// キャプチャの状態
+export type CaptureStatus =
+  | "idle" // 初期状態
+  | "requesting" // 許可リクエスト中
+  | "capturing" // キャプチャ中
+  | "error"; // エラー
+
+// エラーの種類
+export type CaptureError =
+  | "not-supported" // ブラウザ非対応
+  | "permission-denied" // ユーザーが拒否
+  | "no-audio" // 音声トラックなし
+  | "unknown"; // その他のエラー
+
+interface UseMediaCaptureOptions {
+  // ブラウザが対応しているか（クライアントでのみ呼ぶ）
+  checkSupport: () => boolean;
+  // ストリームを要求
+  requestStream: () => Promise<MediaStream>;
+  // 音声トラックなしとして扱う例外の名前
+  noAudioErrorNames: string[];
+}
+
+interface UseMediaCaptureResult {
+  // 状態
+  status: CaptureStatus;
+  error: CaptureError | null;
+  stream: MediaStream | null;
+
+  // 操作
+  startCapture: () => Promise<MediaStream | null>;
+  stopCapture: () => void;
+  // キャプチャ中のストリームを取得（キャプチャしていなければ null）
+  getStream: () => MediaStream | null;
+
+  // ブラウザ対応チェック
+  isSupported: boolean;
+}
+
+// トラックをすべて止める（ブラウザの録音・共有中の表示を消す）
+function stopTracks(stream: MediaStream): void {
+  for (const track of stream.getTracks()) {
+    track.stop();
+  }
+}
+
+/**
+ * MediaStream のキャプチャの状態とトラックの後片付けをまとめたカスタムhook
+ *
+ * タブ音声とマイク入力で共通の処理で、ストリームの要求方法とエラーの扱いだけを外から渡す。
+ * アンマウント時にはキャプチャ中のトラックを止める。
+ */
+export function useMediaCapture(
+  options: UseMediaCaptureOptions,
+): UseMediaCaptureResult {
+  const [status, setStatus] = useState<CaptureStatus>("idle");
+  const [error, setError] = useState<CaptureError | null>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  // SSRとクライアントで一致させるため、初期値はtrueにしてクライアントでチェック
+  const [isSupported, setIsSupported] = useState(true);
+
+  const streamRef = useRef<MediaStream | null>(null);
+  const optionsRef = useRef(options);
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  // ブラウザ対応チェック（クライアントサイドでのみ実行）
+  useEffect(() => {
+    setIsSupported(optionsRef.current.checkSupport());
+  }, []);
+
+  // キャプチャを開始
+  const startCapture = useCallback(async (): Promise<MediaStream | null> => {
+    // ブラウザ対応チェック
+    if (!isSupported) {
+      setStatus("error");
+      setError("not-supported");
+      return null;
+    }
+
+    // 既にキャプチャ中の場合は既存のストリームを返す
+    if (streamRef.current) {
+      return streamRef.current;
+    }
+
+    setStatus("requesting");
+    setError(null);
+
+    try {
+      const mediaStream = await optionsRef.current.requestStream();
+      const audioTracks = mediaStream.getAudioTracks();
+
+      if (audioTracks.length === 0) {
+        stopTracks(mediaStream);
+        setStatus("error");
+        setError("no-audio");
+        return null;
+      }
+
+      // トラック終了時のハンドリング（共有の停止やデバイスが外された場合など）
+      audioTracks[0].addEventListener("ended", () => {
+        if (streamRef.current !== mediaStream) return;
+        setStatus("idle");
+        setStream(null);
+        streamRef.current = null;
+      });
+
+      streamRef.current = mediaStream;
+      setStream(mediaStream);
+      setStatus("capturing");
+
+      return mediaStream;
+    } catch (err) {
+      // エラーハンドリング
+      if (err instanceof Error) {
+        if (
+          err.name === "NotAllowedError" ||
+          err.name === "PermissionDeniedError"
+        ) {
+          setError("permission-denied");
+        } else if (optionsRef.current.noAudioErrorNames.includes(err.name)) {
+          setError("no-audio");
+        } else {
+          setError("unknown");
+        }
+      } else {
+        setError("unknown");
+      }
+
+      setStatus("error");
+      return null;
+    }
+  }, [isSupported]);
+
+  // キャプチャを停止
+  const stopCapture = useCallback(() => {
+    if (streamRef.current) {
+      stopTracks(streamRef.current);
+      streamRef.current = null;
+    }
+    setStream(null);
+    setStatus("idle");
+    setError(null);
+  }, []);
+
+  const getStream = useCallback(() => streamRef.current, []);
+
+  // アンマウント時にキャプチャ中のトラックを止める
+  useEffect(() => {
+    return () => {
+      if (streamRef.current) {
+        stopTracks(streamRef.current);
+        streamRef.current = null;
+      }
+    };
+  }, []);
+
+  return {
+    status,
+    error,
+    stream,
+    startCapture,
+    stopCapture,
+    getStream,
+    isSupported,
+  };
+}
@@ -0,0 +1,125 @@
+import { useCallback, useRef, useState } from "react";
+import {
+  type CaptureError,
+  type CaptureStatus,
+  useMediaCapture,
+} from "./use-media-capture";
+
+// マイク入力の音声処理オプション
+export interface MicrophoneProcessing {
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+}
+
+// 録音用途のため、ブラウザ側の音声処理は既定でオフ
+const DEFAULT_PROCESSING: MicrophoneProcessing = {
+  echoCancellation: false,
+  noiseSuppression: false,
+};
+
+interface UseMicrophoneCaptureResult {
+  // 状態
+  status: CaptureStatus;
+  error: CaptureError | null;
+  errorMessage: string | null;
+  stream: MediaStream | null;
+  processing: MicrophoneProcessing;
+
+  // 操作
+  startCapture: () => Promise<MediaStream | null>;
+  stopCapture: () => void;
+  setProcessing: (processing: Partial<MicrophoneProcessing>) => void;
+
+  // ブラウザ対応チェック
+  isSupported: boolean;
+}
+
+// エラーメッセージのマッピング
+function getErrorMessage(error: CaptureError): string {
+  switch (error) {
+    case "not-supported":
+      return "このブラウザはマイク入力に対応していません。";
+    case "permission-denied":
+      return "マイクの使用が拒否されました。ブラウザの設定でマイクへのアクセスを許可してください。";
+    case "no-audio":
+      return "マイクが見つかりませんでした。マイクやオーディオインターフェースの接続を確認してください。";
+    case "unknown":
+      return "予期しないエラーが発生しました。";
+  }
+}
+
+// getUserMedia に渡す音声の制約
+function toAudioConstraints(
+  processing: MicrophoneProcessing,
+): MediaTrackConstraints {
+  return {
+    echoCancellation: processing.echoCancellation,
+    noiseSuppression: processing.noiseSuppression,
+    // 音量の自動調整は定位の確認を妨げるため常にオフ
+    autoGainControl: false,
+    // バイノーラルマイクなどのステレオ入力をそのまま扱う
+    channelCount: { ideal: 2 },
+  };
+}
+
+/**
+ * マイク / ライン入力の音声をキャプチャするためのカスタムhook
+ *
+ * getUserMedia APIで音声入力を取得し、MediaStreamとして返します。
+ * タブ音声キャプチャと同じく connectStream で空間音響グラフに接続できます。
+ */
+export function useMicrophoneCapture(): UseMicrophoneCaptureResult {
+  const [processing, setProcessingState] =
+    useState<MicrophoneProcessing>(DEFAULT_PROCESSING);
+  const processingRef = useRef<MicrophoneProcessing>(DEFAULT_PROCESSING);
+
+  const {
+    status,
+    error,
+    stream,
+    startCapture,
+    stopCapture,
+    getStream,
+    isSupported,
+  } = useMediaCapture({
+    checkSupport: () =>
+      typeof window !== "undefined" &&
+      typeof navigator !== "undefined" &&
+      "mediaDevices" in navigator &&
+      "getUserMedia" in navigator.mediaDevices,
+    requestStream: () =>
+      navigator.mediaDevices.getUserMedia({
+        audio: toAudioConstraints(processingRef.current),
+        video: false,
+      }),
+    noAudioErrorNames: ["NotFoundError", "OverconstrainedError"],
+  });
+
+  // エコーキャンセル / ノイズ抑制を切り替え（キャプチャ中ならトラックに反映）
+  const setProcessing = useCallback(
+    (next: Partial<MicrophoneProcessing>) => {
+      const merged = { ...processingRef.current, ...next };
+      processingRef.current = merged;
+      setProcessingState(merged);
+
+      const track = getStream()?.getAudioTracks()[0];
+      if (track) {
+        // 対応していないブラウザでは次回のキャプチャから反映される
+        track.applyConstraints(toAudioConstraints(merged)).catch(() => {});
+      }
+    },
+    [getStream],
+  );
+
+  return {
+    status,
+    error,
+    errorMessage: error ? getErrorMessage(error) : null,
+    stream,
+    processing,
+    startCapture,
+    stopCapture,
+    setProcessing,
+    isSupported,
+  };
+}
@@ -0,0 +1,189 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  type Position3D,
+  padToPosition3D,
+  type VirtualSourceKind,
+} from "../lib/audio/spatial-audio-engine";
+import {
+  DEFAULT_MOTION_PRESET_PARAMS,
+  getMotionPresetPoint,
+  type MotionPresetKind,
+  type MotionPresetParams,
+} from "../lib/motion/motion-presets";
+
+// プリセットで動かす音源
+export interface MotionPresetTarget {
+  kind: VirtualSourceKind;
+  // 開始時の高さ（プリセットの高さはこれに加算）
+  baseHeight: number;
+}
+
+interface UseMotionPresetOptions {
+  // プリセットを動かしてよいか（3D音響が有効なときのみ）
+  enabled: boolean;
+  // 画面更新ごとに計算した位置で音源を動かす（Reactの状態は通さない）
+  onFrame: (kind: VirtualSourceKind, position: Position3D) => void;
+  // 止めたときの位置を音源の位置として確定
+  onStop: (kind: VirtualSourceKind, position: Position3D) => void;
+}
+
+interface UseMotionPresetResult {
+  // 状態
+  preset: MotionPresetKind | null;
+  target: VirtualSourceKind | null;
+  // 表示用の現在位置（間引いて更新する）
+  position: Position3D | null;
+  params: MotionPresetParams;
+  isRunning: boolean;
+
+  // 操作
+  start: (preset: MotionPresetKind, target: MotionPresetTarget) => void;
+  stop: () => void;
+  setRate: (rate: number) => void;
+  setDepth: (depth: number) => void;
+}
+
+// 実行中のプリセット
+interface RunningPreset {
+  preset: MotionPresetKind;
+  target: MotionPresetTarget;
+}
+
+// 表示用の位置を更新する間隔（ミリ秒）
+const POSITION_DISPLAY_INTERVAL = 50;
+
+/**
+ * モーションプリセットで音源を自動的に動かすカスタムhook
+ *
+ * 位相を経過時間 × rate で積み上げるため、再生中に rate を変えても
+ * 軌跡が飛ばずになめらかに速度だけが変わる。
+ * 音源は開始時の対象に固定し、画面更新ごとの位置はノードだけに反映して
+ * 表示用の位置は間引いて更新する。
+ */
+export function useMotionPreset(
+  options: UseMotionPresetOptions,
+): UseMotionPresetResult {
+  const { enabled, onFrame, onStop } = options;
+
+  const [running, setRunningState] = useState<RunningPreset | null>(null);
+  const [position, setPosition] = useState<Position3D | null>(null);
+  const [params, setParams] = useState<MotionPresetParams>(
+    DEFAULT_MOTION_PRESET_PARAMS,
+  );
+
+  const runningRef = useRef<RunningPreset | null>(null);
+  const paramsRef = useRef(params);
+  const phaseRef = useRef(0);
+  // 最後に動かした音源と位置（止めたときに確定する）
+  const lastFrameRef = useRef<{
+    kind: VirtualSourceKind;
+    position: Position3D;
+  } | null>(null);
+  const onFrameRef = useRef(onFrame);
+  const onStopRef = useRef(onStop);
+  useEffect(() => {
+    paramsRef.current = params;
+    onFrameRef.current = onFrame;
+    onStopRef.current = onStop;
+  }, [params, onFrame, onStop]);
+
+  const isRunning = enabled && running !== null;
+
+  // 最後に動かした位置を確定（既に確定済みなら何もしない）
+  const commit = useCallback(() => {
+    const last = lastFrameRef.current;
+    lastFrameRef.current = null;
+    if (last) {
+      onStopRef.current(last.kind, last.position);
+    }
+  }, []);
+
+  // 実行中のプリセットを更新（前のプリセットの位置は先に確定する）
+  const updateRunning = useCallback(
+    (next: RunningPreset | null) => {
+      commit();
+      runningRef.current = next;
+      setRunningState(next);
+    },
+    [commit],
+  );
+
+  // プリセットの実行ループ
+  useEffect(() => {
+    if (!enabled || running === null) return;
+
+    const { preset, target } = running;
+    let frameId: number;
+    let lastTime = performance.now();
+    let lastDisplayTime = Number.NEGATIVE_INFINITY;
+
+    const tick = (now: number) => {
+      // 止めた後に残っていたフレームでは動かさない
+      if (runningRef.current !== running) return;
+
+      const delta = (now - lastTime) / 1000;
+      lastTime = now;
+
+      const { rate, depth } = paramsRef.current;
+      phaseRef.current += delta * rate;
+      const point = getMotionPresetPoint(preset, phaseRef.current, depth);
+      const next = padToPosition3D(
+        point.x,
+        point.y,
+        Math.max(-1, Math.min(1, target.baseHeight + point.height)),
+      );
+      lastFrameRef.current = { kind: target.kind, position: next };
+      onFrameRef.current(target.kind, next);
+      if (now - lastDisplayTime >= POSITION_DISPLAY_INTERVAL) {
+        lastDisplayTime = now;
+        setPosition(next);
+      }
+
+      frameId = requestAnimationFrame(tick);
+    };
+
+    frameId = requestAnimationFrame(tick);
+    return () => {
+      cancelAnimationFrame(frameId);
+      commit();
+      setPosition(null);
+    };
+  }, [enabled, running, commit]);
+
+  // プリセットを開始（位相は先頭から）
+  const start = useCallback(
+    (preset: MotionPresetKind, target: MotionPresetTarget) => {
+      phaseRef.current = 0;
+      updateRunning({ preset, target });
+    },
+    [updateRunning],
+  );
+
+  // プリセットを止め、その時点の位置を確定
+  const stop = useCallback(() => {
+    if (!runningRef.current) return;
+    updateRunning(null);
+  }, [updateRunning]);
+
+  // 速度を変更
+  const setRate = useCallback((rate: number) => {
+    setParams((prev) => ({ ...prev, rate }));
+  }, []);
+
+  // 深さを変更
+  const setDepth = useCallback((depth: number) => {
+    setParams((prev) => ({ ...prev, depth }));
+  }, []);
+
+  return {
+    preset: running?.preset ?? null,
+    target: running?.target.kind ?? null,
+    position,
+    params,
+    isRunning,
+    start,
+    stop,
+    setRate,
+    setDepth,
+  };
+}
@@ -0,0 +1,303 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Position3D } from "../lib/audio/spatial-audio-engine";
+import {
+  cancelMotionAutomation,
+  getMotionPathDuration,
+  getMotionPathTime,
+  interpolateMotionPath,
+  type MotionKeyframe,
+  type MotionLoopMode,
+  scheduleMotionPass,
+} from "../lib/motion/motion-path";
+
+// レコーダーの状態
+export type MotionRecorderStatus =
+  | "idle" // 待機中
+  | "recording" // 記録中
+  | "playing"; // 再生中
+
+// キーフレームを記録する最小間隔（秒）
+const MIN_KEYFRAME_INTERVAL = 1 / 60;
+// オートメーションを先読みして予約する時間（秒）
+const SCHEDULE_AHEAD_TIME = 1;
+// 予約状況を確認する間隔（ミリ秒）
+const SCHEDULER_INTERVAL_MS = 250;
+// 表示用の位置を更新する間隔（ミリ秒）
+const POSITION_DISPLAY_INTERVAL = 50;
+
+interface UseMotionRecorderOptions {
+  // 再生対象のPannerを取得（未初期化なら null）
+  getPanner: () => PannerNode | null;
+  // 再生中、画面更新ごとに現在位置を通知（Reactの状態は通さない）
+  onFrame?: (position: Position3D) => void;
+  // 再生が止まったときに最後の位置を通知
+  onStop?: (position: Position3D) => void;
+}
+
+interface UseMotionRecorderResult {
+  // 状態
+  status: MotionRecorderStatus;
+  keyframes: MotionKeyframe[];
+  // 再生中の表示用の現在位置（間引いて更新する）
+  position: Position3D | null;
+  duration: number;
+  loopMode: MotionLoopMode;
+  speed: number;
+
+  // 操作
+  startRecording: () => void;
+  recordPosition: (position: Position3D) => void;
+  stopRecording: () => void;
+  play: () => boolean;
+  stop: () => void;
+  clear: () => void;
+  setLoopMode: (mode: MotionLoopMode) => void;
+  setSpeed: (speed: number) => void;
+}
+
+/**
+ * 音源の動きを記録し、AudioParamのオートメーションで再生するカスタムhook
+ *
+ * 再生中の位置は画面更新ごとに onFrame で通知し、表示用の位置は間引いて更新する。
+ */
+export function useMotionRecorder(
+  options: UseMotionRecorderOptions,
+): UseMotionRecorderResult {
+  const { getPanner, onFrame, onStop } = options;
+
+  const [status, setStatus] = useState<MotionRecorderStatus>("idle");
+  const [keyframes, setKeyframes] = useState<MotionKeyframe[]>([]);
+  const [position, setPosition] = useState<Position3D | null>(null);
+  const [loopMode, setLoopModeState] = useState<MotionLoopMode>("loop");
+  const [speed, setSpeedState] = useState(1);
+
+  const keyframesRef = useRef<MotionKeyframe[]>([]);
+  const recordStartRef = useRef(0);
+  const loopModeRef = useRef<MotionLoopMode>("loop");
+  const speedRef = useRef(1);
+
+  // 再生中の情報
+  const pannerRef = useRef<PannerNode | null>(null);
+  const playStartRef = useRef(0);
+  const scheduledUntilRef = useRef(0);
+  const scheduledPassRef = useRef(0);
+  const schedulerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const lastPositionRef = useRef<Position3D | null>(null);
+  const lastDisplayTimeRef = useRef(Number.NEGATIVE_INFINITY);
+
+  // コールバックは最新のものを参照
+  const onFrameRef = useRef(onFrame);
+  const onStopRef = useRef(onStop);
+  useEffect(() => {
+    onFrameRef.current = onFrame;
+    onStopRef.current = onStop;
+  }, [onFrame, onStop]);
+
+  // 再生を停止（オートメーションを取り消して現在位置で止める）
+  // 設定変更による再生し直しでは停止を通知しない
+  const halt = useCallback((notify: boolean) => {
+    if (schedulerRef.current !== null) {
+      clearInterval(schedulerRef.current);
+      schedulerRef.current = null;
+    }
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+
+    const panner = pannerRef.current;
+    if (!panner) return;
+
+    cancelMotionAutomation(panner);
+    pannerRef.current = null;
+    setPosition(null);
+    setStatus("idle");
+
+    if (notify && lastPositionRef.current) {
+      onStopRef.current?.(lastPositionRef.current);
+    }
+  }, []);
+
+  // 再生を停止
+  const stop = useCallback(() => halt(true), [halt]);
+
+  // 記録を開始
+  const startRecording = useCallback(() => {
+    stop();
+    keyframesRef.current = [];
+    setKeyframes([]);
+    recordStartRef.current = performance.now();
+    setStatus("recording");
+  }, [stop]);
+
+  // 記録中なら現在位置をキーフレームとして追加
+  const recordPosition = useCallback((position: Position3D) => {
+    if (recordStartRef.current === 0) return;
+
+    const time = (performance.now() - recordStartRef.current) / 1000;
+    const last = keyframesRef.current[keyframesRef.current.length - 1];
+    if (last && time - last.time < MIN_KEYFRAME_INTERVAL) return;
+
+    keyframesRef.current = [...keyframesRef.current, { time, position }];
+  }, []);
+
+  // 記録を終了
+  const stopRecording = useCallback(() => {
+    if (recordStartRef.current === 0) return;
+
+    recordStartRef.current = 0;
+    setKeyframes(keyframesRef.current);
+    setStatus("idle");
+  }, []);
+
+  // 先読み時間内の周をまとめて予約
+  const scheduleAhead = useCallback(() => {
+    const panner = pannerRef.current;
+    const frames = keyframesRef.current;
+    if (!panner) return;
+
+    const duration = getMotionPathDuration(frames);
+    const horizon = panner.context.currentTime + SCHEDULE_AHEAD_TIME;
+
+    while (scheduledUntilRef.current < horizon) {
+      const pass = scheduledPassRef.current;
+      if (loopModeRef.current === "once" && pass > 0) return;
+
+      scheduledUntilRef.current = scheduleMotionPass(
+        panner,
+        frames,
+        playStartRef.current + (pass * duration) / speedRef.current,
+        {
+          speed: speedRef.current,
+          reverse: loopModeRef.current === "ping-pong" && pass % 2 === 1,
+        },
+      );
+      scheduledPassRef.current = pass + 1;
+    }
+  }, []);
+
+  // 現在位置を計算して通知（表示用の位置は一定間隔ごとに更新）
+  const tick = useCallback(
+    (now: number) => {
+      const panner = pannerRef.current;
+      if (!panner) return;
+
+      const frames = keyframesRef.current;
+      const elapsed =
+        Math.max(0, panner.context.currentTime - playStartRef.current) *
+        speedRef.current;
+      const { time, finished } = getMotionPathTime(
+        getMotionPathDuration(frames),
+        elapsed,
+        loopModeRef.current,
+      );
+
+      const next = interpolateMotionPath(frames, time);
+      lastPositionRef.current = next;
+      onFrameRef.current?.(next);
+      if (now - lastDisplayTimeRef.current >= POSITION_DISPLAY_INTERVAL) {
+        lastDisplayTimeRef.current = now;
+        setPosition(next);
+      }
+
+      if (finished) {
+        stop();
+        return;
+      }
+      frameRef.current = requestAnimationFrame(tick);
+    },
+    [stop],
+  );
+
+  // 指定したPannerで軌跡の再生を開始
+  const start = useCallback(
+    (panner: PannerNode | null): boolean => {
+      if (!panner || getMotionPathDuration(keyframesRef.current) <= 0) {
+        return false;
+      }
+
+      halt(false);
+      cancelMotionAutomation(panner);
+
+      pannerRef.current = panner;
+      playStartRef.current = panner.context.currentTime + 0.05;
+      scheduledUntilRef.current = 0;
+      scheduledPassRef.current = 0;
+      lastPositionRef.current = null;
+      lastDisplayTimeRef.current = Number.NEGATIVE_INFINITY;
+
+      scheduleAhead();
+      schedulerRef.current = setInterval(scheduleAhead, SCHEDULER_INTERVAL_MS);
+      frameRef.current = requestAnimationFrame(tick);
+      setStatus("playing");
+      return true;
+    },
+    [halt, scheduleAhead, tick],
+  );
+
+  // 記録した軌跡を再生
+  const play = useCallback(() => start(getPanner()), [start, getPanner]);
+
+  // 軌跡を消去
+  const clear = useCallback(() => {
+    stop();
+    recordStartRef.current = 0;
+    keyframesRef.current = [];
+    setKeyframes([]);
+    setStatus("idle");
+  }, [stop]);
+
+  // 再生モードを変更（再生中は新しい設定で再生し直す）
+  const setLoopMode = useCallback(
+    (mode: MotionLoopMode) => {
+      loopModeRef.current = mode;
+      setLoopModeState(mode);
+      if (pannerRef.current) {
+        start(pannerRef.current);
+      }
+    },
+    [start],
+  );
+
+  // 再生速度を変更（再生中は新しい設定で再生し直す）
+  const setSpeed = useCallback(
+    (value: number) => {
+      speedRef.current = value;
+      setSpeedState(value);
+      if (pannerRef.current) {
+        start(pannerRef.current);
+      }
+    },
+    [start],
+  );
+
+  // アンマウント時にタイマーを止める
+  useEffect(() => {
+    return () => {
+      if (schedulerRef.current !== null) {
+        clearInterval(schedulerRef.current);
+      }
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current);
+      }
+    };
+  }, []);
+
+  return {
+    status,
+    keyframes,
+    position,
+    duration: getMotionPathDuration(keyframes),
+    loopMode,
+    speed,
+    startRecording,
+    recordPosition,
+    stopRecording,
+    play,
+    stop,
+    clear,
+    setLoopMode,
+    setSpeed,
+  };
+}
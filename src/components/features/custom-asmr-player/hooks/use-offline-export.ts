@@ -0,0 +1,82 @@
+import { useCallback, useRef, useState } from "react";
+import {
+  type OfflineRenderOptions,
+  renderSpatialAudio,
+} from "../lib/audio/offline-render";
+import { encodeWav, type WavBitDepth } from "../lib/audio/wav-encoder";
+import { downloadBlob } from "../lib/download";
+
+// 書き出しの状態
+export type OfflineExportStatus =
+  | "idle" // 待機中
+  | "rendering" // レンダリング中
+  | "done" // 完了
+  | "error"; // エラー
+
+interface UseOfflineExportResult {
+  // 状態
+  status: OfflineExportStatus;
+  progress: number;
+  errorMessage: string | null;
+
+  // 操作
+  exportWav: (
+    options: Omit<OfflineRenderOptions, "onProgress">,
+    fileName: string,
+    bitDepth: WavBitDepth,
+  ) => Promise<boolean>;
+}
+
+/**
+ * 空間音響を適用した音声をWAVとして書き出すカスタムhook
+ */
+export function useOfflineExport(): UseOfflineExportResult {
+  const [status, setStatus] = useState<OfflineExportStatus>("idle");
+  const [progress, setProgress] = useState(0);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // 二重に書き出さないためのフラグ
+  const isRenderingRef = useRef(false);
+
+  // レンダリングしてWAVをダウンロード
+  const exportWav = useCallback(
+    async (
+      options: Omit<OfflineRenderOptions, "onProgress">,
+      fileName: string,
+      bitDepth: WavBitDepth,
+    ): Promise<boolean> => {
+      if (isRenderingRef.current) return false;
+
+      isRenderingRef.current = true;
+      setStatus("rendering");
+      setProgress(0);
+      setErrorMessage(null);
+
+      try {
+        const rendered = await renderSpatialAudio({
+          ...options,
+          onProgress: setProgress,
+        });
+        downloadBlob(encodeWav(rendered, bitDepth), fileName);
+        setStatus("done");
+        return true;
+      } catch {
+        setErrorMessage(
+          "書き出しに失敗しました。ファイルが長すぎるとメモリが不足する場合があります。",
+        );
+        setStatus("error");
+        return false;
+      } finally {
+        isRenderingRef.current = false;
+      }
+    },
+    [],
+  );
+
+  return {
+    status,
+    progress,
+    errorMessage,
+    exportWav,
+  };
+}
@@ -0,0 +1,274 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  decodeRecording,
+  getRecordingExtension,
+  getSupportedRecordingMimeType,
+} from "../lib/audio/recording-format";
+import {
+  createStreamDestination,
+  type SpatialAudioNodes,
+} from "../lib/audio/spatial-audio-engine";
+import { encodeWav, type WavBitDepth } from "../lib/audio/wav-encoder";
+import { downloadBlob, toExportFileName } from "../lib/download";
+
+// 録音の状態
+export type OutputRecorderStatus =
+  | "idle" // 待機中
+  | "recording" // 録音中
+  | "encoding" // WAVに変換中
+  | "error"; // エラー
+
+// 録音のエラー種別
+export type OutputRecorderError =
+  | "not-supported" // ブラウザが非対応
+  | "recording-failed" // 録音に失敗
+  | "transcode-failed"; // WAVへの変換に失敗
+
+// 録音した音声
+export interface OutputRecording {
+  blob: Blob;
+  mimeType: string;
+  sampleRate: number;
+  duration: number;
+}
+
+// 経過時間を更新する間隔（ミリ秒）
+const ELAPSED_INTERVAL_MS = 200;
+
+interface UseOutputRecorderOptions {
+  // 録音対象のノードを取得（未初期化なら null）
+  getNodes: () => SpatialAudioNodes | null;
+}
+
+interface UseOutputRecorderResult {
+  // 状態
+  status: OutputRecorderStatus;
+  error: OutputRecorderError | null;
+  errorMessage: string | null;
+  elapsed: number;
+  recording: OutputRecording | null;
+
+  // 操作
+  start: () => boolean;
+  stop: () => void;
+  discard: () => void;
+  download: (fileName: string | null) => void;
+  downloadWav: (
+    fileName: string | null,
+    bitDepth: WavBitDepth,
+  ) => Promise<boolean>;
+
+  // ブラウザ対応チェック
+  isSupported: boolean;
+}
+
+// エラーメッセージのマッピング
+function getErrorMessage(error: OutputRecorderError): string {
+  switch (error) {
+    case "not-supported":
+      return "このブラウザは録音に対応していません。";
+    case "recording-failed":
+      return "録音に失敗しました。もう一度お試しください。";
+    case "transcode-failed":
+      return "WAVへの変換に失敗しました。録音したままの形式で保存してください。";
+  }
+}
+
+/**
+ * 空間音響を適用した出力をMediaRecorderで録音するカスタムhook
+ *
+ * リミッターの出力を MediaStreamAudioDestinationNode に分岐させるため、
+ * 聴いている音を止めずに録音できます。
+ */
+export function useOutputRecorder(
+  options: UseOutputRecorderOptions,
+): UseOutputRecorderResult {
+  const { getNodes } = options;
+
+  const [status, setStatus] = useState<OutputRecorderStatus>("idle");
+  const [error, setError] = useState<OutputRecorderError | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [recording, setRecording] = useState<OutputRecording | null>(null);
+  // SSRとクライアントで一致させるため、初期値はtrueにしてクライアントでチェック
+  const [isSupported, setIsSupported] = useState(true);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  // ブラウザ対応チェック（クライアントサイドでのみ実行）
+  useEffect(() => {
+    setIsSupported(getSupportedRecordingMimeType() !== null);
+  }, []);
+
+  // 経過時間の更新を止める
+  const stopTimer = useCallback(() => {
+    if (timerRef.current !== null) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  }, []);
+
+  // 録音を開始
+  const start = useCallback((): boolean => {
+    if (recorderRef.current) return false;
+
+    const mimeType = getSupportedRecordingMimeType();
+    if (!mimeType) {
+      setError("not-supported");
+      setStatus("error");
+      return false;
+    }
+
+    const nodes = getNodes();
+    if (!nodes) return false;
+
+    const { context } = nodes;
+    const output = nodes.dynamics.limiter;
+
+    try {
+      // リミッターの出力（聞こえている音）を録音用に分岐
+      // ノード構成に登録し、シークなどでグラフを組み直してもつなぎ直されるようにする
+      const destination = createStreamDestination(context);
+      const recorder = new MediaRecorder(destination.stream, { mimeType });
+      nodes.recorder = destination;
+      output.connect(destination);
+
+      const chunks: Blob[] = [];
+      const startedAt = performance.now();
+
+      recorder.addEventListener("dataavailable", (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      });
+      recorder.addEventListener("stop", () => {
+        stopTimer();
+        if (nodes.recorder === destination) {
+          nodes.recorder = null;
+        }
+        try {
+          output.disconnect(destination);
+        } catch {
+          // グラフ全体が先に切断されている場合
+        }
+
+        recorderRef.current = null;
+
+        if (chunks.length === 0) {
+          setError("recording-failed");
+          setStatus("error");
+          return;
+        }
+
+        setRecording({
+          blob: new Blob(chunks, { type: mimeType }),
+          mimeType,
+          sampleRate: context.sampleRate,
+          duration: (performance.now() - startedAt) / 1000,
+        });
+        setStatus("idle");
+      });
+
+      // 長時間の録音でもメモリを一度に確保しないよう1秒ごとに受け取る
+      recorder.start(1000);
+
+      recorderRef.current = recorder;
+      setRecording(null);
+      setError(null);
+      setElapsed(0);
+      setStatus("recording");
+
+      timerRef.current = setInterval(() => {
+        setElapsed((performance.now() - startedAt) / 1000);
+      }, ELAPSED_INTERVAL_MS);
+
+      return true;
+    } catch {
+      setError("recording-failed");
+      setStatus("error");
+      return false;
+    }
+  }, [getNodes, stopTimer]);
+
+  // 録音を停止（データの確定は stop イベントで行う）
+  const stop = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== "inactive") {
+      recorder.stop();
+    }
+  }, []);
+
+  // 録音した音声を破棄
+  const discard = useCallback(() => {
+    setRecording(null);
+    setElapsed(0);
+    setError(null);
+    setStatus("idle");
+  }, []);
+
+  // 録音したままの形式でダウンロード
+  const download = useCallback(
+    (fileName: string | null) => {
+      if (!recording) return;
+
+      downloadBlob(
+        recording.blob,
+        toExportFileName(
+          fileName,
+          "3d-live",
+          getRecordingExtension(recording.mimeType),
+        ),
+      );
+    },
+    [recording],
+  );
+
+  // WAVに変換してダウンロード
+  const downloadWav = useCallback(
+    async (fileName: string | null, bitDepth: WavBitDepth) => {
+      if (!recording) return false;
+
+      setStatus("encoding");
+      try {
+        const buffer = await decodeRecording(
+          recording.blob,
+          recording.sampleRate,
+        );
+        downloadBlob(
+          encodeWav(buffer, bitDepth),
+          toExportFileName(fileName, "3d-live", "wav"),
+        );
+        setStatus("idle");
+        return true;
+      } catch {
+        setError("transcode-failed");
+        setStatus("error");
+        return false;
+      }
+    },
+    [recording],
+  );
+
+  // コンポーネントのアンマウント時に録音を止める
+  useEffect(() => {
+    return () => {
+      stopTimer();
+      const recorder = recorderRef.current;
+      if (recorder && recorder.state !== "inactive") {
+        recorder.stop();
+      }
+    };
+  }, [stopTimer]);
+
+  return {
+    status,
+    error,
+    errorMessage: error ? getErrorMessage(error) : null,
+    elapsed,
+    recording,
+    start,
+    stop,
+    discard,
+    download,
+    downloadWav,
+    isSupported,
+  };
+}
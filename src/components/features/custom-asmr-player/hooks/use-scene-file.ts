@@ -0,0 +1,140 @@
+import { useCallback, useState } from "react";
+import { downloadBlob } from "../lib/download";
+import type { Scene } from "../lib/scene/scene";
+import {
+  createSceneFile,
+  parseSceneFile,
+  type SceneFileIssue,
+} from "../lib/scene/scene-schema";
+
+// シーンファイルの読み込み状態
+export type SceneFileStatus =
+  | "idle" // 待機中
+  | "reading" // 読み込み中
+  | "error"; // エラー
+
+// エラーの種類
+export type SceneFileError =
+  | "read-failed" // ファイルを読めない
+  | "invalid-json" // JSONとして読めない
+  | "invalid-scene"; // シーンとして正しくない
+
+interface UseSceneFileOptions {
+  // 書き出す現在のシーン
+  scene: Scene;
+  // ファイルからシーンを読み込んだときに呼ばれる
+  onLoad: (scene: Scene) => void;
+}
+
+interface UseSceneFileResult {
+  // 状態
+  status: SceneFileStatus;
+  error: SceneFileError | null;
+  errorMessage: string | null;
+  issues: SceneFileIssue[];
+
+  // 操作
+  exportFile: () => void;
+  importFile: (file: File) => Promise<boolean>;
+  dismissError: () => void;
+}
+
+// 書き出すファイル名
+const SCENE_FILE_NAME = "custom-asmr-scene.json";
+
+// エラーメッセージのマッピング
+function getErrorMessage(error: SceneFileError): string {
+  switch (error) {
+    case "read-failed":
+      return "ファイルを読み込めませんでした。";
+    case "invalid-json":
+      return "JSONファイルとして読み取れませんでした。書き出したシーンファイルを選択してください。";
+    case "invalid-scene":
+      return "シーンの内容に問題があるため読み込めませんでした。次の項目を確認してください。";
+  }
+}
+
+/**
+ * シーンをJSONファイルとして書き出し・読み込みするカスタムhook
+ *
+ * 読み込んだファイルはスキーマで検証し、問題があれば現在の状態は変えずに項目ごとのエラーを返す。
+ */
+export function useSceneFile(options: UseSceneFileOptions): UseSceneFileResult {
+  const { scene, onLoad } = options;
+
+  const [status, setStatus] = useState<SceneFileStatus>("idle");
+  const [error, setError] = useState<SceneFileError | null>(null);
+  const [issues, setIssues] = useState<SceneFileIssue[]>([]);
+
+  // エラーを記録
+  const fail = useCallback(
+    (next: SceneFileError, nextIssues: SceneFileIssue[] = []) => {
+      setError(next);
+      setIssues(nextIssues);
+      setStatus("error");
+    },
+    [],
+  );
+
+  // 現在のシーンをJSONファイルとして書き出す
+  const exportFile = useCallback(() => {
+    const json = JSON.stringify(createSceneFile(scene), null, 2);
+    downloadBlob(
+      new Blob([json], { type: "application/json" }),
+      SCENE_FILE_NAME,
+    );
+  }, [scene]);
+
+  // JSONファイルを検証して読み込む
+  const importFile = useCallback(
+    async (file: File): Promise<boolean> => {
+      setStatus("reading");
+      setError(null);
+      setIssues([]);
+
+      let text: string;
+      try {
+        text = await file.text();
+      } catch {
+        fail("read-failed");
+        return false;
+      }
+
+      let value: unknown;
+      try {
+        value = JSON.parse(text);
+      } catch {
+        fail("invalid-json");
+        return false;
+      }
+
+      const result = parseSceneFile(value);
+      if (!result.success) {
+        fail("invalid-scene", result.issues);
+        return false;
+      }
+
+      onLoad(result.scene);
+      setStatus("idle");
+      return true;
+    },
+    [fail, onLoad],
+  );
+
+  // エラー表示を閉じる
+  const dismissError = useCallback(() => {
+    setError(null);
+    setIssues([]);
+    setStatus("idle");
+  }, []);
+
+  return {
+    status,
+    error,
+    errorMessage: error ? getErrorMessage(error) : null,
+    issues,
+    exportFile,
+    importFile,
+    dismissError,
+  };
+}
@@ -0,0 +1,184 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  MAX_SCENE_NAME_LENGTH,
+  type SavedScene,
+  type Scene,
+} from "../lib/scene/scene";
+import {
+  isSceneStorageAvailable,
+  loadLastSession,
+  loadRestoreLastSession,
+  loadSavedScenes,
+  storeLastSession,
+  storeRestoreLastSession,
+  storeSavedScenes,
+} from "../lib/scene/scene-storage";
+
+// エラーの種類
+export type ScenePresetsError =
+  | "storage-unavailable" // localStorage が使えない
+  | "save-failed"; // 容量不足などで保存できない
+
+interface UseScenePresetsOptions {
+  // 現在のシーン（前回のセッションとして自動保存する）
+  scene: Scene;
+  // シーンを読み込んだときに呼ばれる
+  onLoad: (scene: Scene) => void;
+}
+
+interface UseScenePresetsResult {
+  // 状態
+  presets: SavedScene[];
+  restoreLastSession: boolean;
+  error: ScenePresetsError | null;
+  errorMessage: string | null;
+
+  // 操作
+  save: (name: string) => boolean;
+  load: (id: string) => void;
+  remove: (id: string) => void;
+  setRestoreLastSession: (enabled: boolean) => void;
+}
+
+// 前回のセッションを自動保存するまでの待ち時間（ミリ秒）
+const LAST_SESSION_SAVE_DELAY = 500;
+
+// エラーメッセージのマッピング
+function getErrorMessage(error: ScenePresetsError): string {
+  switch (error) {
+    case "storage-unavailable":
+      return "このブラウザではシーンを保存できません。プライベートモードなどを確認してください。";
+    case "save-failed":
+      return "シーンを保存できませんでした。不要なシーンを削除してからお試しください。";
+  }
+}
+
+// シーンのIDを作成
+function createSceneId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * 名前を付けたシーンを localStorage に保存・読み込みするカスタムhook
+ *
+ * 現在のシーンは前回のセッションとして自動的に保存し、
+ * 有効にしていれば次回の起動時に復元する。
+ */
+export function useScenePresets(
+  options: UseScenePresetsOptions,
+): UseScenePresetsResult {
+  const { scene, onLoad } = options;
+
+  const [presets, setPresets] = useState<SavedScene[]>([]);
+  const [restoreLastSession, setRestoreLastSessionState] = useState(false);
+  const [error, setError] = useState<ScenePresetsError | null>(null);
+
+  const presetsRef = useRef<SavedScene[]>([]);
+  const onLoadRef = useRef(onLoad);
+  // 起動時の復元が終わるまでは前回のセッションを上書きしない
+  const isHydratedRef = useRef(false);
+  useEffect(() => {
+    onLoadRef.current = onLoad;
+  }, [onLoad]);
+
+  // シーン一覧を更新
+  const updatePresets = useCallback((next: SavedScene[]): boolean => {
+    if (!storeSavedScenes(next)) {
+      setError("save-failed");
+      return false;
+    }
+    presetsRef.current = next;
+    setPresets(next);
+    setError(null);
+    return true;
+  }, []);
+
+  // 起動時に保存済みのシーンを読み込み、必要なら前回のセッションを復元
+  useEffect(() => {
+    if (!isSceneStorageAvailable()) {
+      setError("storage-unavailable");
+      return;
+    }
+
+    const saved = loadSavedScenes();
+    presetsRef.current = saved;
+    setPresets(saved);
+
+    const shouldRestore = loadRestoreLastSession();
+    setRestoreLastSessionState(shouldRestore);
+    const lastSession = shouldRestore ? loadLastSession() : null;
+    if (lastSession) {
+      onLoadRef.current(lastSession);
+    }
+    isHydratedRef.current = true;
+  }, []);
+
+  // 現在のシーンを前回のセッションとして保存（操作が落ち着いてから）
+  useEffect(() => {
+    if (!isHydratedRef.current) return;
+
+    const timer = setTimeout(() => {
+      storeLastSession(scene);
+    }, LAST_SESSION_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [scene]);
+
+  // 現在のシーンを名前を付けて保存（同じ名前のシーンは上書き）
+  const save = useCallback(
+    (name: string): boolean => {
+      const trimmed = name.trim().slice(0, MAX_SCENE_NAME_LENGTH);
+      if (!trimmed) return false;
+
+      const saved: SavedScene = {
+        id:
+          presetsRef.current.find((preset) => preset.name === trimmed)?.id ??
+          createSceneId(),
+        name: trimmed,
+        savedAt: Date.now(),
+        scene,
+      };
+      return updatePresets([
+        saved,
+        ...presetsRef.current.filter((preset) => preset.id !== saved.id),
+      ]);
+    },
+    [scene, updatePresets],
+  );
+
+  // 保存したシーンを読み込む
+  const load = useCallback((id: string) => {
+    const preset = presetsRef.current.find((item) => item.id === id);
+    if (preset) {
+      onLoadRef.current(preset.scene);
+    }
+  }, []);
+
+  // 保存したシーンを削除
+  const remove = useCallback(
+    (id: string) => {
+      updatePresets(presetsRef.current.filter((preset) => preset.id !== id));
+    },
+    [updatePresets],
+  );
+
+  // 起動時に前回のセッションを復元するかどうかを設定
+  const setRestoreLastSession = useCallback((enabled: boolean) => {
+    if (!storeRestoreLastSession(enabled)) {
+      setError("save-failed");
+      return;
+    }
+    setRestoreLastSessionState(enabled);
+    setError(null);
+  }, []);
+
+  return {
+    presets,
+    restoreLastSession,
+    error,
+    errorMessage: error ? getErrorMessage(error) : null,
+    save,
+    load,
+    remove,
+    setRestoreLastSession,
+  };
+}
@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Scene } from "../lib/scene/scene";
+import {
+  createSceneUrl,
+  decodeScene,
+  SCENE_URL_PARAM,
+} from "../lib/scene/scene-url";
+
+// 共有リンクのコピー状態
+export type SceneShareStatus =
+  | "idle" // 待機中
+  | "copied" // コピー済み
+  | "error"; // エラー
+
+// エラーの種類
+export type SceneShareError =
+  | "invalid-link" // URLのシーンを読み取れない
+  | "copy-failed"; // クリップボードに書き込めない
+
+interface UseSceneShareOptions {
+  // 共有する現在のシーン
+  scene: Scene;
+  // URLからシーンを読み込んだときに呼ばれる
+  onLoad: (scene: Scene) => void;
+}
+
+interface UseSceneShareResult {
+  // 状態
+  status: SceneShareStatus;
+  error: SceneShareError | null;
+  errorMessage: string | null;
+
+  // 操作
+  copyLink: () => Promise<boolean>;
+}
+
+// 「コピーしました」の表示を戻すまでの時間（ミリ秒）
+const COPIED_RESET_DELAY = 2000;
+
+// エラーメッセージのマッピング
+function getErrorMessage(error: SceneShareError): string {
+  switch (error) {
+    case "invalid-link":
+      return "リンクのシーンを読み込めませんでした。リンクが途中で切れていないか確認してください。";
+    case "copy-failed":
+      return "リンクをコピーできませんでした。";
+  }
+}
+
+/**
+ * シーンをURLで共有するカスタムhook
+ *
+ * 起動時に ?scene= があればそのシーンを読み込み、URLからは取り除く。
+ * 前回のセッションの復元より後に読み込むよう、useScenePresets より後で呼ぶ。
+ */
+export function useSceneShare(
+  options: UseSceneShareOptions,
+): UseSceneShareResult {
+  const { scene, onLoad } = options;
+
+  const [status, setStatus] = useState<SceneShareStatus>("idle");
+  const [error, setError] = useState<SceneShareError | null>(null);
+
+  const onLoadRef = useRef(onLoad);
+  const resetTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useEffect(() => {
+    onLoadRef.current = onLoad;
+  }, [onLoad]);
+
+  // 起動時にURLのシーンを読み込む
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    const encoded = url.searchParams.get(SCENE_URL_PARAM);
+    if (!encoded) return;
+
+    const shared = decodeScene(encoded);
+    if (shared) {
+      onLoadRef.current(shared);
+    } else {
+      setError("invalid-link");
+      setStatus("error");
+    }
+
+    // 再読み込みで編集内容が上書きされないよう、URLからは取り除く
+    url.searchParams.delete(SCENE_URL_PARAM);
+    window.history.replaceState(window.history.state, "", url);
+  }, []);
+
+  // アンマウント時に表示を戻すタイマーを止める
+  useEffect(() => {
+    return () => {
+      if (resetTimerRef.current) {
+        clearTimeout(resetTimerRef.current);
+      }
+    };
+  }, []);
+
+  // 現在のシーンを載せたリンクをクリップボードにコピー
+  const copyLink = useCallback(async (): Promise<boolean> => {
+    if (resetTimerRef.current) {
+      clearTimeout(resetTimerRef.current);
+    }
+
+    try {
+      await navigator.clipboard.writeText(
+        createSceneUrl(scene, window.location.href),
+      );
+      setError(null);
+      setStatus("copied");
+      resetTimerRef.current = setTimeout(
+        () => setStatus("idle"),
+        COPIED_RESET_DELAY,
+      );
+      return true;
+    } catch {
+      setError("copy-failed");
+      setStatus("error");
+      return false;
+    }
+  }, [scene]);
+
+  return {
+    status,
+    error,
+    errorMessage: error ? getErrorMessage(error) : null,
+    copyLink,
+  };
+}
@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  cancelGainFade,
+  fadeOutGain,
+  type SpatialAudioNodes,
+} from "../lib/audio/spatial-audio-engine";
+
+// タイマーの状態
+export type SleepTimerStatus =
+  | "idle" // 未設定
+  | "running" // 時間待ち
+  | "fading"; // フェードアウト中
+
+interface UseSleepTimerOptions {
+  // 現在のノード構成を取得
+  getNodes: () => SpatialAudioNodes | null;
+  // 設定してよいか（3D音響が有効なときのみ。無効になったら取り消す）
+  enabled: boolean;
+  // マスター音量（フェードアウトを取り消したときに戻す値）
+  gain: number;
+  // 時間になったときの停止処理
+  onExpire: () => void;
+}
+
+interface UseSleepTimerResult {
+  // 状態
+  status: SleepTimerStatus;
+  // 残り時間（秒、未設定なら null）
+  remaining: number | null;
+
+  // 操作
+  start: (minutes: number) => void;
+  cancel: () => void;
+}
+
+// 選べる時間（分）
+export const SLEEP_TIMER_PRESETS = [15, 30, 60];
+
+// 自由に指定できる時間の範囲（分）
+export const MIN_SLEEP_TIMER_MINUTES = 1;
+export const MAX_SLEEP_TIMER_MINUTES = 240;
+
+// 最後のこの秒数をかけてフェードアウトする（タイマーがこれより短ければ全体で）
+const SLEEP_FADE_DURATION = 120;
+
+// 残り時間を確認する間隔（ミリ秒）
+const TICK_INTERVAL = 1000;
+
+/**
+ * 指定した時間が経ったら音量を徐々に下げて停止するスリープタイマーのカスタムhook
+ *
+ * フェードは AudioParam のオートメーションで予約するため、タイマーの遅れに影響されない。
+ * 残り時間は終了時刻から計算するので、裏で動いていても表示がずれない。
+ */
+export function useSleepTimer(
+  options: UseSleepTimerOptions,
+): UseSleepTimerResult {
+  const { getNodes, enabled, gain, onExpire } = options;
+
+  const [status, setStatus] = useState<SleepTimerStatus>("idle");
+  const [endsAt, setEndsAt] = useState<number | null>(null);
+  const [remaining, setRemaining] = useState<number | null>(null);
+
+  const statusRef = useRef<SleepTimerStatus>("idle");
+  const fadeDurationRef = useRef(SLEEP_FADE_DURATION);
+  const getNodesRef = useRef(getNodes);
+  const gainRef = useRef(gain);
+  // 音量の操作を検知するための前回の値
+  const previousGainRef = useRef(gain);
+  const onExpireRef = useRef(onExpire);
+  useEffect(() => {
+    getNodesRef.current = getNodes;
+    gainRef.current = gain;
+    onExpireRef.current = onExpire;
+  }, [getNodes, gain, onExpire]);
+
+  // 状態を更新
+  const updateStatus = useCallback((next: SleepTimerStatus) => {
+    statusRef.current = next;
+    setStatus(next);
+  }, []);
+
+  // タイマーを取り消す（フェード中なら音量を戻す）
+  const cancel = useCallback(() => {
+    if (statusRef.current === "fading") {
+      const nodes = getNodesRef.current();
+      if (nodes) {
+        cancelGainFade(nodes.gain, gainRef.current);
+      }
+    }
+    updateStatus("idle");
+    setEndsAt(null);
+    setRemaining(null);
+  }, [updateStatus]);
+
+  // タイマーを開始（設定済みなら時間を置き換える）
+  const start = useCallback(
+    (minutes: number) => {
+      cancel();
+
+      const duration = minutes * 60;
+      fadeDurationRef.current = Math.min(SLEEP_FADE_DURATION, duration);
+      updateStatus("running");
+      setEndsAt(Date.now() + duration * 1000);
+      setRemaining(duration);
+    },
+    [cancel, updateStatus],
+  );
+
+  // 残り時間を確認し、フェードアウトと停止を行う
+  useEffect(() => {
+    if (endsAt === null) return;
+
+    const tick = () => {
+      const seconds = Math.max(0, Math.ceil((endsAt - Date.now()) / 1000));
+      setRemaining(seconds);
+
+      if (seconds <= 0) {
+        updateStatus("idle");
+        setEndsAt(null);
+        setRemaining(null);
+        onExpireRef.current();
+        return;
+      }
+
+      if (
+        statusRef.current === "running" &&
+        seconds <= fadeDurationRef.current
+      ) {
+        const nodes = getNodesRef.current();
+        if (nodes) {
+          fadeOutGain(nodes.gain, seconds);
+        }
+        updateStatus("fading");
+      }
+    };
+
+    tick();
+    const timer = setInterval(tick, TICK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [endsAt, updateStatus]);
+
+  // 3D音響が止まったら取り消す
+  useEffect(() => {
+    if (!enabled) {
+      cancel();
+    }
+  }, [enabled, cancel]);
+
+  // フェード中に音量を操作したら、起きているとみなして取り消す
+  useEffect(() => {
+    if (previousGainRef.current === gain) return;
+
+    previousGainRef.current = gain;
+    if (statusRef.current === "fading") {
+      cancel();
+    }
+  }, [gain, cancel]);
+
+  return { status, remaining, start, cancel };
+}
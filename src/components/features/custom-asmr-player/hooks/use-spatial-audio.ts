@@ -1,21 +1,74 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import {
+  applyBinauralConfig,
+  loadBinauralProcessor,
+  updateBinauralPosition,
+} from "../lib/audio/binaural-renderer";
+import { updateDistanceEffects } from "../lib/audio/distance-effects";
+import {
+  createDynamicsNodes,
+  DEFAULT_DYNAMICS,
+  type DynamicsSettings,
+  updateDynamics,
+} from "../lib/audio/dynamics";
+import {
+  createEnvironmentNodes,
+  DEFAULT_ENVIRONMENT,
+  type EnvironmentSettings,
+  updateEnvironmentImpulse,
+  updateEnvironmentMix,
+} from "../lib/audio/environment";
+import {
+  createEqualizerNodes,
+  DEFAULT_EQUALIZER,
+  type EqualizerSettings,
+  updateEqualizer,
+} from "../lib/audio/equalizer";
+import {
+  MIN_SWITCH_INTERVAL,
+  updateHrirSpatializer,
+} from "../lib/audio/hrir-spatializer";
+import { createLevelMeterNodes } from "../lib/audio/level-meter";
+import {
+  clampOrientation,
+  DEFAULT_ORIENTATION,
+  type ListenerOrientation,
+  orientationToVectors,
+  toListenerSpace,
+  updateListenerOrientation,
+} from "../lib/audio/listener-orientation";
+import type { HrirSet } from "../lib/audio/sofa";
+import {
+  DEFAULT_SOURCE_PAD_POSITIONS,
+  SOURCE_LAYOUTS,
+  type SourceLayout,
+} from "../lib/audio/source-layout";
+import {
+  applyPannerConfig,
   closeAudioContext,
   connectAudioGraph,
   createAudioContext,
+  createChannelSplitter,
   createGainNode,
   createMediaStreamSource,
-  createPannerNode,
+  createVirtualSource,
   DEFAULT_CONFIG,
+  DEFAULT_INPUT_MODES,
   disconnectAudioGraph,
+  type InputMode,
   type Position3D,
   padToPosition3D,
+  replaceGraphSource,
+  resolveRenderer,
   resumeAudioContext,
   type SpatialAudioConfig,
   type SpatialAudioNodes,
   setListenerPosition,
   updateGain,
+  updateInputMode,
   updateSourcePosition,
+  type VirtualSourceKind,
+  type VirtualSourceNodes,
 } from "../lib/audio/spatial-audio-engine";
 
 // エンジンの状態
@@ -26,24 +79,131 @@ export type SpatialAudioStatus =
   | "active" // アクティブ（3D音響処理中）
   | "error"; // エラー
 
+// 仮想音源ごとの状態
+export interface SpatialSourceState {
+  kind: VirtualSourceKind;
+  position: Position3D;
+  gain: number;
+  inputMode: InputMode;
+}
+
 interface UseSpatialAudioOptions {
+  // 初期設定（以降は setConfig で変更する）
   config?: Partial<SpatialAudioConfig>;
   initialGain?: number;
+  initialLayout?: SourceLayout;
+}
+
+// 保存したシーンなどから一括で復元する状態
+export interface SpatialAudioSnapshot {
+  layout: SourceLayout;
+  sources: SpatialSourceState[];
+  gain: number;
+  config: SpatialAudioConfig;
+  environment: EnvironmentSettings;
+  equalizer: EqualizerSettings;
+  dynamics: DynamicsSettings;
+  orientation: ListenerOrientation;
 }
 
 interface UseSpatialAudioResult {
   // 状態
   status: SpatialAudioStatus;
-  position: Position3D;
+  layout: SourceLayout;
+  sources: SpatialSourceState[];
   gain: number;
+  config: SpatialAudioConfig;
+  environment: EnvironmentSettings;
+  equalizer: EqualizerSettings;
+  dynamics: DynamicsSettings;
+  orientation: ListenerOrientation;
 
   // 操作
   initialize: () => Promise<boolean>;
+  restore: (snapshot: SpatialAudioSnapshot) => void;
   connectStream: (stream: MediaStream) => void;
+  connectSource: (node: AudioNode) => void;
   disconnectStream: () => void;
-  setPosition: (x: number, y: number, height?: number) => void;
+  setLayout: (layout: SourceLayout) => void;
+  setPosition: (
+    x: number,
+    y: number,
+    height?: number,
+    kind?: VirtualSourceKind,
+  ) => void;
+  followPosition: (kind: VirtualSourceKind, position: Position3D) => void;
+  movePosition: (kind: VirtualSourceKind, position: Position3D) => void;
+  setSourceGain: (kind: VirtualSourceKind, value: number) => void;
+  setSourceInputMode: (kind: VirtualSourceKind, inputMode: InputMode) => void;
   setGain: (value: number) => void;
+  setConfig: (config: Partial<SpatialAudioConfig>) => void;
+  resetConfig: () => void;
+  setHrirSet: (hrirSet: HrirSet | null) => void;
+  setEnvironment: (environment: Partial<EnvironmentSettings>) => void;
+  setEqualizer: (equalizer: Partial<EqualizerSettings>) => void;
+  setDynamics: (dynamics: Partial<DynamicsSettings>) => void;
+  setOrientation: (orientation: Partial<ListenerOrientation>) => void;
   cleanup: () => void;
+
+  // 他の処理からノードを参照するためのアクセサ
+  getNodes: () => SpatialAudioNodes | null;
+}
+
+// レイアウトの初期配置から仮想音源の状態を作成
+function createLayoutSources(layout: SourceLayout): SpatialSourceState[] {
+  return SOURCE_LAYOUTS[layout].map((kind) => {
+    const { padX, padY } = DEFAULT_SOURCE_PAD_POSITIONS[kind];
+    return {
+      kind,
+      position: padToPosition3D(padX, padY, 0),
+      gain: 1,
+      inputMode: DEFAULT_INPUT_MODES[kind],
+    };
+  });
+}
+
+// HRIRバックエンドを使う場合のみHRIRセットを返す
+function getActiveHrirSet(
+  config: SpatialAudioConfig,
+  hrirSet: HrirSet | null,
+): HrirSet | null {
+  return config.renderer === "hrir" ? hrirSet : null;
+}
+
+// 仮想音源の状態からノードを作成し、位置と音量を反映
+// Panner以外の定位と距離フィルターには頭から見た位置を使う
+function createSourceNodes(
+  context: AudioContext,
+  sources: SpatialSourceState[],
+  config: SpatialAudioConfig,
+  hrirSet: HrirSet | null,
+  orientation: ListenerOrientation,
+): VirtualSourceNodes[] {
+  return sources.map((source) => {
+    const virtualSource = createVirtualSource(
+      context,
+      source.kind,
+      config,
+      source.gain,
+      source.inputMode,
+    );
+    const relative = toListenerSpace(source.position, orientation);
+    updateSourcePosition(virtualSource.panner, source.position);
+    updateDistanceEffects(virtualSource.effects, relative, config);
+    if (virtualSource.binaural) {
+      updateBinauralPosition(virtualSource.binaural, relative);
+    }
+    if (hrirSet) {
+      updateHrirSpatializer(
+        virtualSource.hrir,
+        hrirSet,
+        relative,
+        config,
+        config.hrirInterpolation,
+      );
+    }
+    return virtualSource;
+  });
 }
 
 /**
@@ -52,18 +212,54 @@ interface UseSpatialAudioResult {
 export function useSpatialAudio(
   options: UseSpatialAudioOptions = {},
 ): UseSpatialAudioResult {
-  const { config = {}, initialGain = 1 } = options;
+  const {
+    config: initialConfig,
+    initialGain = 1,
+    initialLayout = "single",
+  } = options;
 
   const [status, setStatus] = useState<SpatialAudioStatus>("idle");
-  const [position, setPositionState] = useState<Position3D>({
-    x: 0,
-    y: 0,
-    z: 1,
-  });
+  const [layout, setLayoutState] = useState<SourceLayout>(initialLayout);
+  const [sources, setSources] = useState<SpatialSourceState[]>(() =>
+    createLayoutSources(initialLayout),
+  );
   const [gain, setGainState] = useState(initialGain);
+  const gainRef = useRef(initialGain);
+  const [config, setConfigState] = useState<SpatialAudioConfig>(() => ({
+    ...DEFAULT_CONFIG,
+    ...initialConfig,
+  }));
 
   const nodesRef = useRef<SpatialAudioNodes | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const configRef = useRef<SpatialAudioConfig>(config);
+  const [environment, setEnvironmentState] =
+    useState<EnvironmentSettings>(DEFAULT_ENVIRONMENT);
+  const environmentRef = useRef<EnvironmentSettings>(DEFAULT_ENVIRONMENT);
+  const [equalizer, setEqualizerState] =
+    useState<EqualizerSettings>(DEFAULT_EQUALIZER);
+  const equalizerRef = useRef<EqualizerSettings>(DEFAULT_EQUALIZER);
+  const [dynamics, setDynamicsState] =
+    useState<DynamicsSettings>(DEFAULT_DYNAMICS);
+  const dynamicsRef = useRef<DynamicsSettings>(DEFAULT_DYNAMICS);
+  const hrirSetRef = useRef<HrirSet | null>(null);
+  // クロスフェード中で反映できなかったHRIRの再試行
+  const hrirRetryRef = useRef(
+    new Map<VirtualSourceKind, ReturnType<typeof setTimeout>>(),
+  );
+  // 初期化前に指定された位置や音量もノードに反映できるよう保持
+  const sourcesRef = useRef<SpatialSourceState[]>(sources);
+  const [orientation, setOrientationState] =
+    useState<ListenerOrientation>(DEFAULT_ORIENTATION);
+  const orientationRef = useRef<ListenerOrientation>(DEFAULT_ORIENTATION);
+  // オートメーションで動いている音源も含めた、現在鳴っている位置
+  const livePositionsRef = useRef(new Map<VirtualSourceKind, Position3D>());
+
+  // 仮想音源の状態を更新
+  const updateSources = useCallback((next: SpatialSourceState[]) => {
+    sourcesRef.current = next;
+    setSources(next);
+  }, []);
 
   // エンジンを初期化
   const initialize = useCallback(async (): Promise<boolean> => {
@@ -78,25 +274,49 @@ export function useSpatialAudio(
       // AudioContextを作成
       const context = createAudioContext();
       await resumeAudioContext(context);
+      // 読み込めなかった場合、バイノーラルバックエンドは panner で代用する
+      await loadBinauralProcessor(context);
 
       // ノードを作成
-      const mergedConfig: SpatialAudioConfig = {
-        ...DEFAULT_CONFIG,
-        ...config,
-      };
-
-      const panner = createPannerNode(context, mergedConfig);
-      const gainNode = createGainNode(context, initialGain);
+      const splitter = createChannelSplitter(context);
+      const hrirSet = getActiveHrirSet(configRef.current, hrirSetRef.current);
+      const virtualSources = createSourceNodes(
+        context,
+        sourcesRef.current,
+        configRef.current,
+        hrirSet,
+        orientationRef.current,
+      );
+      const gainNode = createGainNode(context, gainRef.current);
+      const environmentNodes = createEnvironmentNodes(context);
+      updateEnvironmentImpulse(
+        context,
+        environmentNodes,
+        environmentRef.current,
+      );
+      updateEnvironmentMix(environmentNodes, environmentRef.current);
+      const equalizerNodes = createEqualizerNodes(context);
+      updateEqualizer(equalizerNodes, equalizerRef.current);
+      const dynamicsNodes = createDynamicsNodes(context);
+      updateDynamics(dynamicsNodes, dynamicsRef.current);
 
       // リスナーを設定
-      setListenerPosition(context);
+      const { forward, up } = orientationToVectors(orientationRef.current);
+      setListenerPosition(context, undefined, forward, up);
 
       // ノードを保存
       nodesRef.current = {
         context,
         source: null,
-        panner,
+        equalizer: equalizerNodes,
+        renderer: resolveRenderer(configRef.current, hrirSet, virtualSources),
+        splitter,
+        sources: virtualSources,
+        environment: environmentNodes,
         gain: gainNode,
+        dynamics: dynamicsNodes,
+        meter: createLevelMeterNodes(context),
+        recorder: null,
       };
 
       setStatus("ready");
@@ -105,31 +325,43 @@ export function useSpatialAudio(
       setStatus("error");
       return false;
     }
-  }, [config, initialGain]);
+  }, []);
 
-  // MediaStreamを接続
-  const connectStream = useCallback((stream: MediaStream) => {
+  // 入力ノードを接続（既存の入力は切り替える）
+  const connectSource = useCallback((node: AudioNode) => {
     const nodes = nodesRef.current;
     if (!nodes) {
       return;
     }
 
-    // 既存のソースを切断
     if (nodes.source) {
-      disconnectAudioGraph(nodes);
+      // 接続済みなら入力だけを差し替える
+      replaceGraphSource(nodes, node);
+    } else {
+      // オーディオグラフを接続
+      nodes.source = node;
+      connectAudioGraph(nodes);
     }
 
-    // 新しいソースを作成して接続
-    const source = createMediaStreamSource(nodes.context, stream);
-    nodes.source = source;
-    streamRef.current = stream;
-
-    // オーディオグラフを接続
-    connectAudioGraph(nodes);
-
     setStatus("active");
   }, []);
 
+  // MediaStreamを接続
+  const connectStream = useCallback(
+    (stream: MediaStream) => {
+      const nodes = nodesRef.current;
+      if (!nodes) {
+        return;
+      }
+
+      // 新しいソースを作成して接続
+      const source = createMediaStreamSource(nodes.context, stream);
+      streamRef.current = stream;
+      connectSource(source);
+    },
+    [connectSource],
+  );
+
   // ストリームを切断
   const disconnectStream = useCallback(() => {
     const nodes = nodesRef.current;
@@ -144,29 +376,392 @@ export function useSpatialAudio(
     setStatus("ready");
   }, []);
 
-  // 音源の位置を設定（2Dパッド座標から）
-  const setPosition = useCallback((x: number, y: number, height = 0) => {
+  // 再試行待ちのHRIR更新を取り消す
+  const clearHrirRetries = useCallback(() => {
+    for (const timer of hrirRetryRef.current.values()) {
+      clearTimeout(timer);
+    }
+    hrirRetryRef.current.clear();
+  }, []);
+
+  // 仮想音源を入れ替え（接続中ならグラフを組み直す）
+  // 古い音源に対する再試行は、入れ替えた後に捨てたノードへ反映されないよう先に取り消す
+  const replaceSources = useCallback(
+    (nextLayout: SourceLayout, nextSources: SpatialSourceState[]) => {
+      setLayoutState(nextLayout);
+      updateSources(nextSources);
+      clearHrirRetries();
+      livePositionsRef.current.clear();
+
+      const nodes = nodesRef.current;
+      if (!nodes) {
+        return;
+      }
+
+      const isConnected = nodes.source !== null;
+      if (isConnected) {
+        disconnectAudioGraph(nodes);
+      }
+      nodes.sources = createSourceNodes(
+        nodes.context,
+        nextSources,
+        configRef.current,
+        getActiveHrirSet(configRef.current, hrirSetRef.current),
+        orientationRef.current,
+      );
+      if (isConnected) {
+        connectAudioGraph(nodes);
+      }
+    },
+    [updateSources, clearHrirRetries],
+  );
+
+  // 音源レイアウトを切り替え
+  const setLayout = useCallback(
+    (next: SourceLayout) => {
+      replaceSources(next, createLayoutSources(next));
+    },
+    [replaceSources],
+  );
+
+  // HRIRバックエンドの定位を更新（切り替え直後で反映できなければ少し待って再試行）
+  const updateHrir = useCallback(
+    (virtualSource: VirtualSourceNodes, position: Position3D) => {
+      const retries = hrirRetryRef.current;
+      const apply = () => {
+        retries.delete(virtualSource.kind);
+        // 待っている間に音源が入れ替わった場合は、捨てたノードに反映しない
+        if (!nodesRef.current?.sources.includes(virtualSource)) return;
+        const hrirSet = getActiveHrirSet(configRef.current, hrirSetRef.current);
+        if (!hrirSet) return;
+
+        const applied = updateHrirSpatializer(
+          virtualSource.hrir,
+          hrirSet,
+          position,
+          configRef.current,
+          configRef.current.hrirInterpolation,
+        );
+        if (!applied) {
+          retries.set(
+            virtualSource.kind,
+            setTimeout(apply, MIN_SWITCH_INTERVAL * 1000),
+          );
+        }
+      };
+
+      clearTimeout(retries.get(virtualSource.kind));
+      apply();
+    },
+    [],
+  );
+
+  // 現在鳴っている位置（未記録なら状態の位置）
+  const getLivePosition = useCallback(
+    (kind: VirtualSourceKind): Position3D | null =>
+      livePositionsRef.current.get(kind) ??
+      sourcesRef.current.find((source) => source.kind === kind)?.position ??
+      null,
+    [],
+  );
+
+  // 頭から見た位置に変換し、Panner以外の定位と距離フィルターに反映
+  const applyRelativePosition = useCallback(
+    (virtualSource: VirtualSourceNodes, position: Position3D) => {
+      livePositionsRef.current.set(virtualSource.kind, position);
+      const relative = toListenerSpace(position, orientationRef.current);
+      updateDistanceEffects(virtualSource.effects, relative, configRef.current);
+      if (virtualSource.binaural) {
+        updateBinauralPosition(virtualSource.binaural, relative);
+      }
+      updateHrir(virtualSource, relative);
+    },
+    [updateHrir],
+  );
+
+  // レンダリング方式を設定とHRIRセットに合わせる（変わった場合はグラフを組み直す）
+  const syncRenderer = useCallback(() => {
     const nodes = nodesRef.current;
     if (!nodes) {
       return;
     }
 
-    const pos = padToPosition3D(x, y, height);
-    updateSourcePosition(nodes.panner, pos);
-    setPositionState(pos);
-  }, []);
+    const hrirSet = getActiveHrirSet(configRef.current, hrirSetRef.current);
+    const renderer = resolveRenderer(configRef.current, hrirSet, nodes.sources);
+    if (renderer !== nodes.renderer) {
+      const isConnected = nodes.source !== null;
+      if (isConnected) {
+        disconnectAudioGraph(nodes);
+      }
+      nodes.renderer = renderer;
+      if (isConnected) {
+        connectAudioGraph(nodes);
+      }
+    }
+
+    if (!hrirSet) {
+      return;
+    }
+    for (const virtualSource of nodes.sources) {
+      const position = getLivePosition(virtualSource.kind);
+      if (position) {
+        updateHrir(
+          virtualSource,
+          toListenerSpace(position, orientationRef.current),
+        );
+      }
+    }
+  }, [updateHrir, getLivePosition]);
+
+  // 音源の位置を設定（2Dパッド座標と高さから）
+  // kind を省略した場合はレイアウトの最初の音源を動かす
+  const setPosition = useCallback(
+    (x: number, y: number, height = 0, kind?: VirtualSourceKind) => {
+      const targetKind = kind ?? sourcesRef.current[0]?.kind;
+      const pos = padToPosition3D(x, y, height);
+      updateSources(
+        sourcesRef.current.map((source) =>
+          source.kind === targetKind ? { ...source, position: pos } : source,
+        ),
+      );
+
+      const virtualSource = nodesRef.current?.sources.find(
+        (source) => source.kind === targetKind,
+      );
+      if (virtualSource) {
+        updateSourcePosition(virtualSource.panner, pos);
+        applyRelativePosition(virtualSource, pos);
+      }
+    },
+    [updateSources, applyRelativePosition],
+  );
+
+  // オートメーションで動いている音源の距離フィルターとHRIR・バイノーラルの定位を追従させる
+  // Pannerの位置は予約済みのため、ここではPanner以外だけを更新する
+  const followPosition = useCallback(
+    (kind: VirtualSourceKind, position: Position3D) => {
+      const virtualSource = nodesRef.current?.sources.find(
+        (source) => source.kind === kind,
+      );
+      if (virtualSource) {
+        applyRelativePosition(virtualSource, position);
+      }
+    },
+    [applyRelativePosition],
+  );
+
+  // 状態を更新せずに音源のノードだけを動かす（画面更新ごとに動かす自動モーション用）
+  // 動きを止めたら setPosition で位置を確定する
+  const movePosition = useCallback(
+    (kind: VirtualSourceKind, position: Position3D) => {
+      const virtualSource = nodesRef.current?.sources.find(
+        (source) => source.kind === kind,
+      );
+      if (virtualSource) {
+        updateSourcePosition(virtualSource.panner, position);
+        applyRelativePosition(virtualSource, position);
+      }
+    },
+    [applyRelativePosition],
+  );
+
+  // 仮想音源ごとの音量を設定
+  const setSourceGain = useCallback(
+    (kind: VirtualSourceKind, value: number) => {
+      updateSources(
+        sourcesRef.current.map((source) =>
+          source.kind === kind ? { ...source, gain: value } : source,
+        ),
+      );
+
+      const virtualSource = nodesRef.current?.sources.find(
+        (source) => source.kind === kind,
+      );
+      if (virtualSource) {
+        updateGain(virtualSource.gain, value);
+      }
+    },
+    [updateSources],
+  );
+
+  // 仮想音源ごとの入力の処理を設定
+  const setSourceInputMode = useCallback(
+    (kind: VirtualSourceKind, inputMode: InputMode) => {
+      updateSources(
+        sourcesRef.current.map((source) =>
+          source.kind === kind ? { ...source, inputMode } : source,
+        ),
+      );
+
+      const nodes = nodesRef.current;
+      const virtualSource = nodes?.sources.find(
+        (source) => source.kind === kind,
+      );
+      if (nodes && virtualSource) {
+        updateInputMode(nodes, virtualSource, inputMode);
+      }
+    },
+    [updateSources],
+  );
 
   // 音量を設定
   const setGain = useCallback((value: number) => {
+    gainRef.current = value;
+    setGainState(value);
+
     const nodes = nodesRef.current;
     if (!nodes) {
       return;
     }
 
     updateGain(nodes.gain, value);
-    setGainState(value);
   }, []);
 
+  // パンナー設定を変更（初期化済みなら再生中のPannerNodeに直接反映）
+  const setConfig = useCallback(
+    (next: Partial<SpatialAudioConfig>) => {
+      const merged = { ...configRef.current, ...next };
+      configRef.current = merged;
+      setConfigState(merged);
+
+      for (const virtualSource of nodesRef.current?.sources ?? []) {
+        applyPannerConfig(virtualSource.panner, merged);
+        if (virtualSource.binaural) {
+          applyBinauralConfig(virtualSource.binaural, merged);
+        }
+        const position = getLivePosition(virtualSource.kind);
+        if (position) {
+          updateDistanceEffects(
+            virtualSource.effects,
+            toListenerSpace(position, orientationRef.current),
+            merged,
+          );
+        }
+      }
+      syncRenderer();
+    },
+    [syncRenderer, getLivePosition],
+  );
+
+  // HRIRセットを設定（null で外す）
+  const setHrirSet = useCallback(
+    (hrirSet: HrirSet | null) => {
+      hrirSetRef.current = hrirSet;
+      syncRenderer();
+    },
+    [syncRenderer],
+  );
+
+  // 詳細設定で編集するパンナー設定を既定値に戻す
+  // レンダリング方式とその設定（HRIRの選び方・頭の半径・クロスフィード）はそのまま保つ
+  const resetConfig = useCallback(() => {
+    const {
+      renderer: _renderer,
+      hrirInterpolation: _hrirInterpolation,
+      headRadius: _headRadius,
+      crossfeed: _crossfeed,
+      ...pannerDefaults
+    } = DEFAULT_CONFIG;
+    setConfig(pannerDefaults);
+  }, [setConfig]);
+
+  // 部屋の響きを変更（インパルス応答は響きの種類が変わったときだけ作り直す）
+  const setEnvironment = useCallback((next: Partial<EnvironmentSettings>) => {
+    const previous = environmentRef.current;
+    const merged = { ...previous, ...next };
+    environmentRef.current = merged;
+    setEnvironmentState(merged);
+
+    const nodes = nodesRef.current;
+    if (!nodes) {
+      return;
+    }
+
+    if (
+      merged.preset !== previous.preset ||
+      (merged.preset === "custom" && merged.custom !== previous.custom)
+    ) {
+      updateEnvironmentImpulse(nodes.context, nodes.environment, merged);
+    }
+    updateEnvironmentMix(nodes.environment, merged);
+  }, []);
+
+  // イコライザーを変更
+  const setEqualizer = useCallback((next: Partial<EqualizerSettings>) => {
+    const merged = { ...equalizerRef.current, ...next };
+    equalizerRef.current = merged;
+    setEqualizerState(merged);
+
+    const nodes = nodesRef.current;
+    if (!nodes) {
+      return;
+    }
+
+    updateEqualizer(nodes.equalizer, merged);
+  }, []);
+
+  // コンプレッサー・リミッター・自動音量調整の設定を変更
+  // 自動音量調整の量は useAutoGain が計測結果に合わせて反映する
+  const setDynamics = useCallback((next: Partial<DynamicsSettings>) => {
+    const merged = { ...dynamicsRef.current, ...next };
+    dynamicsRef.current = merged;
+    setDynamicsState(merged);
+
+    const nodes = nodesRef.current;
+    if (!nodes) {
+      return;
+    }
+
+    updateDynamics(nodes.dynamics, merged);
+  }, []);
+
+  // リスナーの頭の向きを設定
+  // Panner は AudioListener の向きで、他のバックエンドと距離フィルターは頭から見た位置で反映
+  const setOrientation = useCallback(
+    (next: Partial<ListenerOrientation>) => {
+      const merged = clampOrientation({ ...orientationRef.current, ...next });
+      orientationRef.current = merged;
+      setOrientationState(merged);
+
+      const nodes = nodesRef.current;
+      if (!nodes) {
+        return;
+      }
+
+      updateListenerOrientation(nodes.context, merged);
+      for (const virtualSource of nodes.sources) {
+        const position = getLivePosition(virtualSource.kind);
+        if (position) {
+          applyRelativePosition(virtualSource, position);
+        }
+      }
+    },
+    [getLivePosition, applyRelativePosition],
+  );
+
+  // 保存した状態を一括で復元（レイアウトが変わらなくても音源ノードは作り直す）
+  const restore = useCallback(
+    (snapshot: SpatialAudioSnapshot) => {
+      // 音源ノードは新しい設定で作成されるよう、先に設定を反映する
+      setConfig(snapshot.config);
+      setEnvironment(snapshot.environment);
+      setEqualizer(snapshot.equalizer);
+      setDynamics(snapshot.dynamics);
+      setOrientation(snapshot.orientation);
+      setGain(snapshot.gain);
+      replaceSources(snapshot.layout, snapshot.sources);
+    },
+    [
+      setConfig,
+      setEnvironment,
+      setEqualizer,
+      setDynamics,
+      setOrientation,
+      setGain,
+      replaceSources,
+    ],
+  );
+
   // クリーンアップ
   const cleanup = useCallback(() => {
     const nodes = nodesRef.current;
@@ -179,13 +774,19 @@ export function useSpatialAudio(
       disconnectAudioGraph(nodes);
     }
 
+    clearHrirRetries();
+    livePositionsRef.current.clear();
+
     // AudioContextを閉じる
     closeAudioContext(nodes.context);
 
     nodesRef.current = null;
     streamRef.current = null;
     setStatus("idle");
-  }, []);
+  }, [clearHrirRetries]);
+
+  // 現在のノード構成を取得（未初期化なら null）
+  const getNodes = useCallback(() => nodesRef.current, []);
 
   // コンポーネントのアンマウント時にクリーンアップ
   useEffect(() => {
@@ -198,13 +799,34 @@ export function useSpatialAudio(
 
   return {
     status,
-    position,
+    layout,
+    sources,
     gain,
+    config,
+    environment,
+    equalizer,
+    dynamics,
+    orientation,
     initialize,
+    restore,
     connectStream,
+    connectSource,
     disconnectStream,
+    setLayout,
     setPosition,
+    followPosition,
+    movePosition,
+    setSourceGain,
+    setSourceInputMode,
     setGain,
+    setConfig,
+    resetConfig,
+    setHrirSet,
+    setEnvironment,
+    setEqualizer,
+    setDynamics,
+    setOrientation,
     cleanup,
+    getNodes,
   };
 }
@@ -0,0 +1,298 @@
+/**
+ * Ambience
+ *
+ * キャプチャした音声の下に重ねる環境音（ノイズ・雨・焚き火・扇風機）を手続き的に生成する
+ * ループ再生する AudioBuffer を作り、それぞれ専用の Gain と Panner で好きな方向に置く
+ */
+
+import {
+  createPannerNode,
+  type Position3D,
+  type SpatialAudioConfig,
+  updateGain,
+  updateSourcePosition,
+} from "./spatial-audio-engine";
+
+// 環境音の種類
+export type AmbienceKind =
+  | "pink-noise" // 高域ほど弱いノイズ
+  | "brown-noise" // さらに低域寄りのノイズ
+  | "rain" // 雨音
+  | "fireplace" // 焚き火のはぜる音
+  | "fan"; // 扇風機・換気扇の唸り
+
+// 環境音ごとの設定
+export interface AmbienceLayerSettings {
+  enabled: boolean;
+  level: number; // 0 から 1
+  azimuth: number; // 正面を 0 とした右回りの角度（度）
+}
+
+export type AmbienceSettings = Record<AmbienceKind, AmbienceLayerSettings>;
+
+// 環境音ごとのノード構成
+// BufferSource (ループ) -> Gain -> Panner -> マスターGain
+export interface AmbienceLayerNodes {
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+  panner: PannerNode;
+}
+
+export const AMBIENCE_LABELS: Record<AmbienceKind, string> = {
+  "pink-noise": "ピンクノイズ",
+  "brown-noise": "ブラウンノイズ",
+  rain: "雨",
+  fireplace: "焚き火",
+  fan: "扇風機",
+};
+
+export const DEFAULT_AMBIENCE: AmbienceSettings = {
+  "pink-noise": { enabled: false, level: 0.3, azimuth: 0 },
+  "brown-noise": { enabled: false, level: 0.3, azimuth: 0 },
+  rain: { enabled: false, level: 0.3, azimuth: -60 },
+  fireplace: { enabled: false, level: 0.3, azimuth: 45 },
+  fan: { enabled: false, level: 0.3, azimuth: 150 },
+};
+
+// ループの長さと、つなぎ目をなめらかにするクロスフェードの長さ（秒）
+// 扇風機の唸りと揺れはこの長さで周期がそろう周波数を使う
+const LOOP_DURATION = 10;
+const LOOP_CROSSFADE = 0.5;
+
+// 生成した音をそろえる音量 (RMS)
+const AMBIENCE_RMS = 0.1;
+
+// リスナーから環境音までの距離（正規化座標）
+const AMBIENCE_DISTANCE = 0.6;
+
+// -1 から 1 の一様乱数
+function white(): number {
+  return Math.random() * 2 - 1;
+}
+
+// ピンクノイズ（Paul Kellet の近似フィルター）
+function createPinkNoise(): () => number {
+  let b0 = 0;
+  let b1 = 0;
+  let b2 = 0;
+  let b3 = 0;
+  let b4 = 0;
+  let b5 = 0;
+  let b6 = 0;
+  return () => {
+    const w = white();
+    b0 = 0.99886 * b0 + w * 0.0555179;
+    b1 = 0.99332 * b1 + w * 0.0750759;
+    b2 = 0.969 * b2 + w * 0.153852;
+    b3 = 0.8665 * b3 + w * 0.3104856;
+    b4 = 0.55 * b4 + w * 0.5329522;
+    b5 = -0.7616 * b5 - w * 0.016898;
+    const pink = b0 + b1 + b2 + b3 + b4 + b5 + b6 + w * 0.5362;
+    b6 = w * 0.115926;
+    return pink * 0.11;
+  };
+}
+
+// ブラウンノイズ（白色雑音を漏れのある積分にかけたもの）
+function createBrownNoise(): () => number {
+  let last = 0;
+  return () => {
+    last = (last + 0.02 * white()) / 1.02;
+    return last * 3.5;
+  };
+}
+
+// 減衰する短いノイズの粒（雨粒や薪のはぜる音）を重ねる
+function addGrains(
+  data: Float32Array,
+  sampleRate: number,
+  options: {
+    rate: number; // 1秒あたりの数
+    duration: [min: number, max: number]; // 減衰の時定数（秒）
+    amplitude: [min: number, max: number];
+  },
+): void {
+  const { rate, duration, amplitude } = options;
+  const count = Math.round(rate * (data.length / sampleRate));
+  for (let n = 0; n < count; n++) {
+    const start = Math.floor(Math.random() * data.length);
+    const decay =
+      (duration[0] + Math.random() * (duration[1] - duration[0])) * sampleRate;
+    const gain = amplitude[0] + Math.random() * (amplitude[1] - amplitude[0]);
+    const length = Math.min(data.length - start, Math.ceil(decay * 5));
+    for (let i = 0; i < length; i++) {
+      data[start + i] += white() * gain * Math.exp(-i / decay);
+    }
+  }
+}
+
+// 1チャンネル分の環境音を生成
+function generateChannel(
+  kind: AmbienceKind,
+  length: number,
+  sampleRate: number,
+): Float32Array {
+  const data = new Float32Array(length);
+
+  switch (kind) {
+    case "pink-noise": {
+      const pink = createPinkNoise();
+      for (let i = 0; i < length; i++) data[i] = pink();
+      break;
+    }
+    case "brown-noise": {
+      const brown = createBrownNoise();
+      for (let i = 0; i < length; i++) data[i] = brown();
+      break;
+    }
+    case "rain": {
+      // 低域を削ったピンクノイズのざわめきに、細かい雨粒を重ねる
+      const pink = createPinkNoise();
+      let previous = 0;
+      let highpassed = 0;
+      for (let i = 0; i < length; i++) {
+        const value = pink();
+        highpassed = 0.97 * (highpassed + value - previous);
+        previous = value;
+        data[i] = highpassed * 0.6;
+      }
+      addGrains(data, sampleRate, {
+        rate: 60,
+        duration: [0.001, 0.004],
+        amplitude: [0.02, 0.25],
+      });
+      break;
+    }
+    case "fireplace": {
+      // 炎の低い唸りに、まばらなはぜる音を重ねる
+      const brown = createBrownNoise();
+      for (let i = 0; i < length; i++) data[i] = brown() * 0.4;
+      addGrains(data, sampleRate, {
+        rate: 8,
+        duration: [0.0005, 0.002],
+        amplitude: [0.2, 0.9],
+      });
+      addGrains(data, sampleRate, {
+        rate: 1.5,
+        duration: [0.005, 0.02],
+        amplitude: [0.1, 0.4],
+      });
+      break;
+    }
+    case "fan": {
+      // こもった風切り音に、モーターの唸りとゆっくりした揺れを加える
+      const brown = createBrownNoise();
+      let lowpassed = 0;
+      const smoothing = Math.exp((-2 * Math.PI * 400) / sampleRate);
+      for (let i = 0; i < length; i++) {
+        lowpassed = smoothing * lowpassed + (1 - smoothing) * brown();
+        const time = i / sampleRate;
+        const hum =
+          0.04 * Math.sin(2 * Math.PI * 120 * time) +
+          0.015 * Math.sin(2 * Math.PI * 240 * time);
+        const wobble = 1 + 0.15 * Math.sin(2 * Math.PI * 0.5 * time);
+        data[i] = (lowpassed * 2 + hum) * wobble;
+      }
+      break;
+    }
+  }
+  return data;
+}
+
+/**
+ * ループ再生用の環境音を生成
+ * 左右は別々に生成して広がりを持たせ、末尾を先頭にクロスフェードしてつなぎ目を消す
+ */
+export function generateAmbienceBuffer(
+  context: BaseAudioContext,
+  kind: AmbienceKind,
+): AudioBuffer {
+  const { sampleRate } = context;
+  const length = Math.round(LOOP_DURATION * sampleRate);
+  const fadeLength = Math.round(LOOP_CROSSFADE * sampleRate);
+  const buffer = context.createBuffer(2, length, sampleRate);
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const generated = generateChannel(kind, length + fadeLength, sampleRate);
+    const data = buffer.getChannelData(channel);
+    data.set(generated.subarray(0, length));
+
+    // 相関のない音どうしなので等パワーでつなぐ
+    for (let i = 0; i < fadeLength; i++) {
+      const angle = ((i / fadeLength) * Math.PI) / 2;
+      data[i] =
+        generated[i] * Math.sin(angle) +
+        generated[length + i] * Math.cos(angle);
+    }
+
+    let sum = 0;
+    for (let i = 0; i < length; i++) sum += data[i] * data[i];
+    const rms = Math.sqrt(sum / length);
+    if (rms > 0) {
+      const scale = AMBIENCE_RMS / rms;
+      for (let i = 0; i < length; i++) data[i] *= scale;
+    }
+  }
+  return buffer;
+}
+
+/**
+ * 角度から環境音の位置を計算（高さは耳の位置）
+ */
+export function azimuthToPosition(azimuth: number): Position3D {
+  const radians = (azimuth * Math.PI) / 180;
+  return {
+    x: Math.sin(radians) * AMBIENCE_DISTANCE,
+    y: 0,
+    z: -Math.cos(radians) * AMBIENCE_DISTANCE,
+  };
+}
+
+/**
+ * 環境音のノードを作成し、出力につないで再生を始める
+ */
+export function startAmbienceLayer(
+  context: BaseAudioContext,
+  buffer: AudioBuffer,
+  settings: AmbienceLayerSettings,
+  config: SpatialAudioConfig,
+  output: AudioNode,
+): AmbienceLayerNodes {
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.loop = true;
+
+  const gain = context.createGain();
+  gain.gain.value = settings.level;
+  const panner = createPannerNode(context, config);
+  updateSourcePosition(panner, azimuthToPosition(settings.azimuth));
+
+  source.connect(gain);
+  gain.connect(panner);
+  panner.connect(output);
+  // 複数の環境音が同じ位相で重ならないよう、開始位置をずらす
+  source.start(0, Math.random() * buffer.duration);
+
+  return { source, gain, panner };
+}
+
+/**
+ * 環境音の音量と方向を更新
+ */
+export function updateAmbienceLayer(
+  nodes: AmbienceLayerNodes,
+  settings: AmbienceLayerSettings,
+): void {
+  updateGain(nodes.gain, settings.level);
+  updateSourcePosition(nodes.panner, azimuthToPosition(settings.azimuth));
+}
+
+/**
+ * 環境音を止めて切断
+ */
+export function stopAmbienceLayer(nodes: AmbienceLayerNodes): void {
+  nodes.source.stop();
+  nodes.source.disconnect();
+  nodes.gain.disconnect();
+  nodes.panner.disconnect();
+}
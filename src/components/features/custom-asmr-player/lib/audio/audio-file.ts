@@ -0,0 +1,49 @@
+/**
+ * Audio File
+ *
+ * ローカルの音声ファイルを読み込み、AudioBufferにデコードするユーティリティ
+ */
+
+// 対応している拡張子
+export const SUPPORTED_AUDIO_EXTENSIONS = [".wav", ".mp3", ".ogg", ".flac"];
+
+// ファイル選択ダイアログに渡す accept 属性
+export const AUDIO_FILE_ACCEPT = [
+  "audio/*",
+  ...SUPPORTED_AUDIO_EXTENSIONS,
+].join(",");
+
+/**
+ * 対応している音声ファイルかどうかを判定
+ * MIMEタイプが空のこともあるため、拡張子でも判定する
+ */
+export function isSupportedAudioFile(file: File): boolean {
+  if (file.type.startsWith("audio/")) return true;
+
+  const name = file.name.toLowerCase();
+  return SUPPORTED_AUDIO_EXTENSIONS.some((extension) =>
+    name.endsWith(extension),
+  );
+}
+
+/**
+ * 音声ファイルをデコード
+ * デコード後のサンプルレートは context に合わせてリサンプリングされる
+ */
+export async function decodeAudioFile(
+  context: BaseAudioContext,
+  file: File,
+): Promise<AudioBuffer> {
+  const data = await file.arrayBuffer();
+  return context.decodeAudioData(data);
+}
+
+/**
+ * 秒数を m:ss 形式に変換
+ */
+export function formatDuration(seconds: number): string {
+  const totalSeconds = Math.max(0, Math.floor(seconds));
+  const minutes = Math.floor(totalSeconds / 60);
+  const rest = totalSeconds % 60;
+  return `${minutes}:${rest.toString().padStart(2, "0")}`;
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { getProgramBeat } from "./beat-generator";
+
+describe("getProgramBeat", () => {
+  const program = { from: 10, to: 4, minutes: 20 };
+
+  it("開始時と終了時はプログラムの両端のビート", () => {
+    expect(getProgramBeat(program, 0)).toBe(10);
+    expect(getProgramBeat(program, 20 * 60)).toBe(4);
+  });
+
+  it("途中は経過時間に比例して変化する", () => {
+    expect(getProgramBeat(program, 5 * 60)).toBeCloseTo(8.5);
+    expect(getProgramBeat(program, 10 * 60)).toBeCloseTo(7);
+  });
+
+  it("範囲外の経過時間は両端で止める", () => {
+    expect(getProgramBeat(program, -30)).toBe(10);
+    expect(getProgramBeat(program, 60 * 60)).toBe(4);
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Beat Generator
+ *
+ * 睡眠やリラックス向けのバイノーラルビートとアイソクロニックトーンを OscillatorNode で生成する
+ * バイノーラルビートは左右の耳に別の周波数を届ける必要があるため、Panner を通さずにマスターGainへ直接つなぐ
+ */
+
+// 生成方式
+export type BeatMode =
+  | "binaural" // 左右でわずかに違う周波数を鳴らす（ヘッドホン必須）
+  | "isochronic"; // 1つの音を一定の間隔で断続させる
+
+// ビートの設定
+export interface BeatSettings {
+  enabled: boolean;
+  mode: BeatMode;
+  carrier: number; // 基準の周波数 (Hz)
+  beat: number; // うなり・断続の周波数 (Hz)
+  level: number; // 0 から 1
+}
+
+// ビートの周波数を時間をかけて変化させるプログラム
+export interface BeatProgram {
+  from: number; // 開始時のビート (Hz)
+  to: number; // 終了時のビート (Hz)
+  minutes: number;
+}
+
+// ビート生成のノード構成
+// バイノーラル: 左右の Oscillator -> Merger -> Level -> マスターGain
+// アイソクロニック: Oscillator -> Pulse (LFO で断続) -> Level -> マスターGain
+export interface BeatGeneratorNodes {
+  mode: BeatMode;
+  oscillators: OscillatorNode[];
+  // アイソクロニックの断続に使う LFO（バイノーラルでは null）
+  lfo: OscillatorNode | null;
+  merger: ChannelMergerNode | null;
+  pulse: GainNode | null;
+  level: GainNode;
+}
+
+export const BEAT_MODE_LABELS: Record<BeatMode, string> = {
+  binaural: "バイノーラルビート",
+  isochronic: "アイソクロニック",
+};
+
+export const MIN_CARRIER_FREQUENCY = 100;
+export const MAX_CARRIER_FREQUENCY = 500;
+export const MIN_BEAT_FREQUENCY = 1;
+export const MAX_BEAT_FREQUENCY = 40;
+
+// 最大レベルでの音量（他の音の下で控えめに鳴らす）
+const MAX_BEAT_GAIN = 0.3;
+
+// 値の変化をなめらかにする時定数（秒）
+const SMOOTHING_TIME = 0.05;
+
+// 断続の角を丸めるために使う倍音の数（奇数次）
+const PULSE_HARMONICS = 4;
+
+export const DEFAULT_BEAT: BeatSettings = {
+  enabled: false,
+  mode: "binaural",
+  carrier: 200,
+  beat: 10,
+  level: 0.5,
+};
+
+// よく使うプログラム
+export const BEAT_PROGRAM_PRESETS: { label: string; program: BeatProgram }[] = [
+  {
+    label: "入眠 (10 → 4 Hz / 20分)",
+    program: { from: 10, to: 4, minutes: 20 },
+  },
+  {
+    label: "リラックス (14 → 8 Hz / 10分)",
+    program: { from: 14, to: 8, minutes: 10 },
+  },
+  {
+    label: "深い眠り (6 → 2 Hz / 30分)",
+    program: { from: 6, to: 2, minutes: 30 },
+  },
+];
+
+// 左右の周波数（基準の周波数を中心にビートの分だけ離す）
+function getBinauralFrequencies(carrier: number, beat: number): number[] {
+  return [carrier - beat / 2, carrier + beat / 2];
+}
+
+// 角を丸めた振幅 0.5 の矩形波（パルスの Gain の 0.5 に加えて 0 と 1 の間で断続させる）
+// シグマ係数で倍音を弱め、急な立ち上がりによるクリックを防ぐ
+function createPulseWave(context: BaseAudioContext): PeriodicWave {
+  const size = PULSE_HARMONICS * 2 + 1;
+  const real = new Float32Array(size);
+  const imag = new Float32Array(size);
+  for (let n = 1; n < size; n += 2) {
+    const sigma = Math.sin((Math.PI * n) / size) / ((Math.PI * n) / size);
+    imag[n] = (2 / (Math.PI * n)) * sigma;
+  }
+  return context.createPeriodicWave(real, imag, {
+    disableNormalization: true,
+  });
+}
+
+/**
+ * ビート生成のノードを作成し、出力につないで鳴らし始める
+ */
+export function startBeatGenerator(
+  context: BaseAudioContext,
+  settings: BeatSettings,
+  output: AudioNode,
+): BeatGeneratorNodes {
+  const level = context.createGain();
+  level.gain.value = settings.level * MAX_BEAT_GAIN;
+  level.connect(output);
+
+  if (settings.mode === "binaural") {
+    const merger = context.createChannelMerger(2);
+    const oscillators = getBinauralFrequencies(
+      settings.carrier,
+      settings.beat,
+    ).map((frequency, channel) => {
+      const oscillator = context.createOscillator();
+      oscillator.frequency.value = frequency;
+      oscillator.connect(merger, 0, channel);
+      oscillator.start();
+      return oscillator;
+    });
+    merger.connect(level);
+    return {
+      mode: "binaural",
+      oscillators,
+      lfo: null,
+      merger,
+      pulse: null,
+      level,
+    };
+  }
+
+  const oscillator = context.createOscillator();
+  oscillator.frequency.value = settings.carrier;
+  const pulse = context.createGain();
+  pulse.gain.value = 0.5;
+  const lfo = context.createOscillator();
+  lfo.setPeriodicWave(createPulseWave(context));
+  lfo.frequency.value = settings.beat;
+
+  lfo.connect(pulse.gain);
+  oscillator.connect(pulse);
+  pulse.connect(level);
+  oscillator.start();
+  lfo.start();
+  return {
+    mode: "isochronic",
+    oscillators: [oscillator],
+    lfo,
+    merger: null,
+    pulse,
+    level,
+  };
+}
+
+// 基準の周波数とビートから、各 Oscillator の周波数を決める
+function getBeatTargets(
+  nodes: BeatGeneratorNodes,
+  carrier: number,
+  beat: number,
+): [AudioParam, number][] {
+  if (nodes.mode === "binaural") {
+    return getBinauralFrequencies(carrier, beat).map((frequency, channel) => [
+      nodes.oscillators[channel].frequency,
+      frequency,
+    ]);
+  }
+
+  const targets: [AudioParam, number][] = [
+    [nodes.oscillators[0].frequency, carrier],
+  ];
+  if (nodes.lfo) {
+    targets.push([nodes.lfo.frequency, beat]);
+  }
+  return targets;
+}
+
+/**
+ * 基準の周波数・ビート・音量を更新（進行中のプログラムは現在の値で止める）
+ */
+export function updateBeatGenerator(
+  nodes: BeatGeneratorNodes,
+  settings: BeatSettings,
+): void {
+  const { currentTime } = nodes.level.context;
+  for (const [param, value] of getBeatTargets(
+    nodes,
+    settings.carrier,
+    settings.beat,
+  )) {
+    const currentValue = param.value;
+    param.cancelScheduledValues(currentTime);
+    param.setValueAtTime(currentValue, currentTime);
+    param.setTargetAtTime(value, currentTime, SMOOTHING_TIME);
+  }
+  updateBeatLevel(nodes, settings.level);
+}
+
+/**
+ * 音量だけを更新（進行中のプログラムはそのまま続ける）
+ */
+export function updateBeatLevel(
+  nodes: BeatGeneratorNodes,
+  level: number,
+): void {
+  nodes.level.gain.setTargetAtTime(
+    level * MAX_BEAT_GAIN,
+    nodes.level.context.currentTime,
+    SMOOTHING_TIME,
+  );
+}
+
+/**
+ * プログラムの開始時のビートに切り替え、終了時のビートまで直線的に変化させる
+ * 経過時間に関係なくオーディオの時刻で進むため、タブが裏にあっても遅れない
+ */
+export function scheduleBeatProgram(
+  nodes: BeatGeneratorNodes,
+  settings: BeatSettings,
+  program: BeatProgram,
+): void {
+  const { currentTime } = nodes.level.context;
+  const endTime = currentTime + program.minutes * 60;
+  const from = getBeatTargets(nodes, settings.carrier, program.from);
+  const to = getBeatTargets(nodes, settings.carrier, program.to);
+  from.forEach(([param, value], index) => {
+    param.cancelScheduledValues(currentTime);
+    param.setValueAtTime(value, currentTime);
+    param.linearRampToValueAtTime(to[index][1], endTime);
+  });
+}
+
+/**
+ * プログラムの経過時間（秒）から現在のビートを計算
+ */
+export function getProgramBeat(program: BeatProgram, elapsed: number): number {
+  const progress = Math.max(0, Math.min(1, elapsed / (program.minutes * 60)));
+  return program.from + (program.to - program.from) * progress;
+}
+
+/**
+ * ビート生成を止めて切断
+ */
+export function stopBeatGenerator(nodes: BeatGeneratorNodes): void {
+  for (const oscillator of nodes.oscillators) {
+    oscillator.stop();
+    oscillator.disconnect();
+  }
+  nodes.lfo?.stop();
+  nodes.lfo?.disconnect();
+  nodes.merger?.disconnect();
+  nodes.pulse?.disconnect();
+  nodes.level.disconnect();
+}
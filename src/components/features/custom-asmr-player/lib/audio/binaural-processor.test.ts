@@ -0,0 +1,229 @@
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { describe, expect, it } from "vitest";
+
+// ワークレットの本体（public/worklets/binaural-processor.js）を、
+// AudioWorkletGlobalScope の代わりになる値を渡して評価する
+const SAMPLE_RATE = 48000;
+const BLOCK_SIZE = 128;
+const HEAD_RADIUS = 0.0875;
+const SPEED_OF_SOUND = 343;
+// 遠い耳の遅延がちょうど32サンプルになる頭の半径
+// 小数遅延の直線補間は高域を落とすため、頭の影だけを測るときに使う
+const INTEGER_DELAY_RADIUS =
+  (32 * SPEED_OF_SOUND) / ((1 + Math.PI / 2) * SAMPLE_RATE);
+
+interface BinauralProcessor {
+  port: { onmessage: ((event: { data: unknown }) => void) | null };
+  process: (
+    inputs: Float32Array[][],
+    outputs: Float32Array[][],
+    parameters: Record<string, Float32Array>,
+  ) => boolean;
+}
+
+type BinauralProcessorClass = new (options?: {
+  processorOptions?: Record<string, unknown>;
+}) => BinauralProcessor;
+
+function loadProcessor(): BinauralProcessorClass {
+  const source = readFileSync(
+    resolve(process.cwd(), "public/worklets/binaural-processor.js"),
+    "utf8",
+  );
+  let registered: BinauralProcessorClass | null = null;
+  class AudioWorkletProcessor {
+    port = { onmessage: null };
+  }
+  new Function(
+    "AudioWorkletProcessor",
+    "registerProcessor",
+    "sampleRate",
+    source,
+  )(
+    AudioWorkletProcessor,
+    (_name: string, processor: BinauralProcessorClass) => {
+      registered = processor;
+    },
+    SAMPLE_RATE,
+  );
+  if (!registered) throw new Error("binaural-processor was not registered");
+  return registered;
+}
+
+const Processor = loadProcessor();
+
+interface RenderOptions {
+  position: [number, number, number];
+  headRadius?: number;
+  crossfeed?: number;
+}
+
+// 入力をブロックごとに処理し、左右の出力をつなげて返す
+function render(
+  input: Float32Array,
+  { position, headRadius = HEAD_RADIUS, crossfeed = 0 }: RenderOptions,
+): [Float32Array, Float32Array] {
+  const processor = new Processor();
+  const [x, y, z] = position;
+  const parameters = {
+    positionX: new Float32Array([x]),
+    positionY: new Float32Array([y]),
+    positionZ: new Float32Array([z]),
+    headRadius: new Float32Array([headRadius]),
+    crossfeed: new Float32Array([crossfeed]),
+  };
+
+  const left = new Float32Array(input.length);
+  const right = new Float32Array(input.length);
+  for (let offset = 0; offset < input.length; offset += BLOCK_SIZE) {
+    const output = [new Float32Array(BLOCK_SIZE), new Float32Array(BLOCK_SIZE)];
+    processor.process(
+      [[input.subarray(offset, offset + BLOCK_SIZE)]],
+      [output],
+      parameters,
+    );
+    left.set(output[0], offset);
+    right.set(output[1], offset);
+  }
+  return [left, right];
+}
+
+// 最初に値が閾値を超えるサンプルの位置
+function findOnset(samples: Float32Array, threshold = 0.01): number {
+  return samples.findIndex((sample) => Math.abs(sample) > threshold);
+}
+
+// 先頭に1だけを置いたインパルス
+function createImpulse(length = BLOCK_SIZE * 2): Float32Array {
+  const impulse = new Float32Array(length);
+  impulse[0] = 1;
+  return impulse;
+}
+
+// 一定値の入力（直流）
+function createConstant(length = BLOCK_SIZE * 40): Float32Array {
+  return new Float32Array(length).fill(1);
+}
+
+// ナイキスト周波数の入力（+1 と -1 の繰り返し）
+function createNyquist(length = BLOCK_SIZE * 40): Float32Array {
+  return Float32Array.from({ length }, (_, i) => (i % 2 === 0 ? 1 : -1));
+}
+
+describe("binaural-processor", () => {
+  it("入力が未接続の間は無音を出力する", () => {
+    const processor = new Processor();
+    const output = [new Float32Array(BLOCK_SIZE), new Float32Array(BLOCK_SIZE)];
+    const parameters = {
+      positionX: new Float32Array([1]),
+      positionY: new Float32Array([0]),
+      positionZ: new Float32Array([0]),
+      headRadius: new Float32Array([HEAD_RADIUS]),
+      crossfeed: new Float32Array([0]),
+    };
+
+    expect(processor.process([[]], [output], parameters)).toBe(true);
+    expect(output.every((channel) => channel.every((s) => s === 0))).toBe(true);
+  });
+
+  it("正面の音源は左右に同じ信号を出力する", () => {
+    const [left, right] = render(createImpulse(), { position: [0, 0, -1] });
+
+    expect(Array.from(left)).toEqual(Array.from(right));
+  });
+
+  it("右の音源は左耳に頭を回り込む時間だけ遅れて届く (ITD)", () => {
+    const [left, right] = render(createImpulse(), { position: [1, 0, 0] });
+
+    // 近い耳は入射角0で遅延なし、遠い耳は a/c × (1 + π/2)
+    const expected =
+      (HEAD_RADIUS / SPEED_OF_SOUND) * (1 + Math.PI / 2) * SAMPLE_RATE;
+    expect(findOnset(right)).toBe(0);
+    expect(findOnset(left)).toBeGreaterThanOrEqual(Math.floor(expected));
+    expect(findOnset(left)).toBeLessThanOrEqual(Math.ceil(expected));
+  });
+
+  it("左右の音源は鏡像の出力になる", () => {
+    const [leftOfRight, rightOfRight] = render(createImpulse(), {
+      position: [1, 0, 0],
+    });
+    const [leftOfLeft, rightOfLeft] = render(createImpulse(), {
+      position: [-1, 0, 0],
+    });
+
+    expect(Array.from(leftOfLeft)).toEqual(Array.from(rightOfRight));
+    expect(Array.from(rightOfLeft)).toEqual(Array.from(leftOfRight));
+  });
+
+  it("頭の影は低域をそのまま通す", () => {
+    const [left, right] = render(createConstant(), { position: [1, 0, 0] });
+
+    expect(left.at(-1)).toBeCloseTo(1, 3);
+    expect(right.at(-1)).toBeCloseTo(1, 3);
+  });
+
+  it("頭の影は近い耳の高域を持ち上げ、遠い耳の高域を落とす (ILD)", () => {
+    const [left, right] = render(createNyquist(), {
+      position: [1, 0, 0],
+      headRadius: INTEGER_DELAY_RADIUS,
+    });
+
+    // ナイキストでのシェルフの利得は係数 α そのもの
+    // 近い耳 (入射角0): α = 2、遠い耳 (入射角π): α = 1.05 + 0.95 × cos(π × 180 / 150)
+    const farAlpha = 1.05 + 0.95 * Math.cos(Math.PI * (180 / 150));
+    expect(Math.abs(right.at(-1) ?? 0)).toBeCloseTo(2, 2);
+    expect(Math.abs(left.at(-1) ?? 0)).toBeCloseTo(farAlpha, 2);
+  });
+
+  it("距離減衰は PannerNode の inverse モデルと同じ", () => {
+    const [left, right] = render(createConstant(), { position: [0, 0, -4] });
+
+    // refDistance / (refDistance + rolloffFactor × (distance - refDistance))
+    expect(left.at(-1)).toBeCloseTo(1 / 4, 3);
+    expect(right.at(-1)).toBeCloseTo(1 / 4, 3);
+  });
+
+  it("メッセージで受け取った距離モデルを使う", () => {
+    const processor = new Processor();
+    processor.port.onmessage?.({
+      data: {
+        type: "distance",
+        config: { distanceModel: "linear", maxDistance: 5 },
+      },
+    });
+    const output = [new Float32Array(BLOCK_SIZE), new Float32Array(BLOCK_SIZE)];
+    const parameters = {
+      positionX: new Float32Array([0]),
+      positionY: new Float32Array([0]),
+      positionZ: new Float32Array([-3]),
+      headRadius: new Float32Array([HEAD_RADIUS]),
+      crossfeed: new Float32Array([0]),
+    };
+    for (let i = 0; i < 40; i++) {
+      processor.process([[createConstant(BLOCK_SIZE)]], [output], parameters);
+    }
+
+    // 1 - rolloffFactor × (3 - 1) / (5 - 1)
+    expect(output[0].at(-1)).toBeCloseTo(0.5, 3);
+  });
+
+  it("クロスフィードは反対の耳に低域を混ぜ、全体の音量は保つ", () => {
+    const [left, right] = render(createConstant(), {
+      position: [1, 0, 0],
+      crossfeed: 1,
+    });
+
+    expect(left.at(-1)).toBeCloseTo(1, 3);
+    expect(right.at(-1)).toBeCloseTo(1, 3);
+
+    // 高域は混ぜないため、遠い耳の高域は持ち上がらない
+    const [nyquistLeft] = render(createNyquist(), {
+      position: [1, 0, 0],
+      headRadius: INTEGER_DELAY_RADIUS,
+      crossfeed: 1,
+    });
+    const farAlpha = 1.05 + 0.95 * Math.cos(Math.PI * (180 / 150));
+    expect(Math.abs(nyquistLeft.at(-1) ?? 0)).toBeLessThan(farAlpha);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Binaural Renderer
+ *
+ * AudioWorklet で実装した独自のバイノーラルレンダリングバックエンド
+ * 両耳間時間差 (ITD) と頭の影による両耳間レベル差 (ILD) を計算で求めるため、
+ * ブラウザの HRTF 実装に依存せず、頭の大きさやクロスフィードも調整できる
+ *
+ * 信号処理の本体は public/worklets/binaural-processor.js
+ */
+
+import type { Position3D, SpatialAudioConfig } from "./spatial-audio-engine";
+import { POSITION_SCALE } from "./spatial-audio-engine";
+
+// ワークレットのモジュールと登録名
+const BINAURAL_PROCESSOR_URL = "/worklets/binaural-processor.js";
+const BINAURAL_PROCESSOR_NAME = "binaural-processor";
+
+// 頭の半径の範囲 (cm)
+export const MIN_HEAD_RADIUS = 5;
+export const MAX_HEAD_RADIUS = 12;
+
+// バイノーラルバックエンドのノード構成
+export interface BinauralRendererNodes {
+  node: AudioWorkletNode;
+  positionX: AudioParam;
+  positionY: AudioParam;
+  positionZ: AudioParam;
+  headRadius: AudioParam;
+  crossfeed: AudioParam;
+}
+
+// 値の変化をなめらかにする時定数（秒）
+const SMOOTHING_TIME = 0.02;
+
+// ワークレットを読み込み済みのコンテキスト
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+// 距離モデルの設定（ワークレットにメッセージで渡す）
+function getDistanceOptions(config: SpatialAudioConfig) {
+  return {
+    distanceModel: config.distanceModel,
+    refDistance: config.refDistance,
+    maxDistance: config.maxDistance,
+    rolloffFactor: config.rolloffFactor,
+  };
+}
+
+// ワークレットの AudioParam を取得
+function getParam(node: AudioWorkletNode, name: string): AudioParam {
+  const param = node.parameters.get(name);
+  if (!param) {
+    throw new Error(`Missing AudioParam: ${name}`);
+  }
+  return param;
+}
+
+/**
+ * コンテキストにワークレットのモジュールを読み込む
+ * 読み込めない環境（非セキュアコンテキストなど）では false を返す
+ */
+export async function loadBinauralProcessor(
+  context: BaseAudioContext,
+): Promise<boolean> {
+  if (loadedContexts.has(context)) return true;
+  if (!context.audioWorklet) return false;
+
+  try {
+    await context.audioWorklet.addModule(BINAURAL_PROCESSOR_URL);
+    loadedContexts.add(context);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * バイノーラルバックエンドのノードを作成
+ * ワークレットを読み込んでいないコンテキストでは null を返す
+ */
+export function createBinauralRenderer(
+  context: BaseAudioContext,
+  config: SpatialAudioConfig,
+): BinauralRendererNodes | null {
+  if (!loadedContexts.has(context)) return null;
+
+  // 入力はモノラルにまとめ、左右の耳の信号を出力する
+  const node = new AudioWorkletNode(context, BINAURAL_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [2],
+    channelCount: 1,
+    channelCountMode: "explicit",
+    channelInterpretation: "speakers",
+    processorOptions: getDistanceOptions(config),
+  });
+
+  const nodes: BinauralRendererNodes = {
+    node,
+    positionX: getParam(node, "positionX"),
+    positionY: getParam(node, "positionY"),
+    positionZ: getParam(node, "positionZ"),
+    headRadius: getParam(node, "headRadius"),
+    crossfeed: getParam(node, "crossfeed"),
+  };
+  nodes.headRadius.value = config.headRadius / 100;
+  nodes.crossfeed.value = config.crossfeed;
+  return nodes;
+}
+
+/**
+ * 既存のノードに設定を反映
+ */
+export function applyBinauralConfig(
+  nodes: BinauralRendererNodes,
+  config: SpatialAudioConfig,
+): void {
+  const currentTime = nodes.node.context.currentTime;
+  nodes.headRadius.setTargetAtTime(
+    config.headRadius / 100,
+    currentTime,
+    SMOOTHING_TIME,
+  );
+  nodes.crossfeed.setTargetAtTime(
+    config.crossfeed,
+    currentTime,
+    SMOOTHING_TIME,
+  );
+  nodes.node.port.postMessage({
+    type: "distance",
+    config: getDistanceOptions(config),
+  });
+}
+
+/**
+ * 音源の位置を更新
+ * time を指定した場合はその時刻に向けて直線的に変化させる（オートメーション用）
+ */
+export function updateBinauralPosition(
+  nodes: BinauralRendererNodes,
+  position: Position3D,
+  time?: number,
+): void {
+  const targets: [AudioParam, number][] = [
+    [nodes.positionX, position.x * POSITION_SCALE],
+    [nodes.positionY, position.y * POSITION_SCALE],
+    [nodes.positionZ, position.z * POSITION_SCALE],
+  ];
+
+  for (const [param, value] of targets) {
+    if (time === undefined) {
+      param.setTargetAtTime(
+        value,
+        nodes.node.context.currentTime,
+        SMOOTHING_TIME,
+      );
+    } else {
+      param.linearRampToValueAtTime(value, time);
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  getDistanceEffectParams,
+  getProximityLevelGains,
+} from "./distance-effects";
+
+const enabled = { airAbsorption: true, proximityEffect: true };
+const disabled = { airAbsorption: false, proximityEffect: false };
+
+describe("getDistanceEffectParams", () => {
+  it("近い音源は高域を落とさない", () => {
+    expect(
+      getDistanceEffectParams({ x: 0, y: 0, z: -0.3 }, enabled).airCutoff,
+    ).toBe(20000);
+  });
+
+  it("パッドの角では最も暗くなり、その間は周波数の対数で補間する", () => {
+    const corner = getDistanceEffectParams({ x: 1, y: 0, z: -1 }, enabled);
+    expect(corner.airCutoff).toBeCloseTo(3000);
+
+    const middle = (0.3 + Math.SQRT2) / 2;
+    expect(
+      getDistanceEffectParams({ x: 0, y: 0, z: -middle }, enabled).airCutoff,
+    ).toBeCloseTo(Math.sqrt(20000 * 3000));
+  });
+
+  it("近接効果は範囲の外では効かない", () => {
+    const params = getDistanceEffectParams({ x: 0.4, y: 0, z: 0 }, enabled);
+
+    expect(params.proximityGain).toBe(0);
+    expect(params.proximityLevel).toBe(0);
+  });
+
+  it("耳元の音源は低域を持ち上げ、音源のある側の耳を大きくする", () => {
+    const right = getDistanceEffectParams({ x: 0.1, y: 0, z: 0 }, enabled);
+    const left = getDistanceEffectParams({ x: -0.1, y: 0, z: 0 }, enabled);
+    const closeness = (1 - 0.1 / 0.35) ** 2;
+
+    expect(right.proximityGain).toBeCloseTo(9 * closeness);
+    expect(right.proximityLevel).toBeCloseTo(6 * closeness);
+    expect(left.proximityLevel).toBeCloseTo(-6 * closeness);
+  });
+
+  it("正面の音源には左右差を付けない", () => {
+    const params = getDistanceEffectParams({ x: 0, y: 0, z: -0.1 }, enabled);
+
+    expect(params.proximityGain).toBeGreaterThan(0);
+    expect(params.proximityLevel).toBe(0);
+  });
+
+  it("無効にした効果は素通しにする", () => {
+    expect(getDistanceEffectParams({ x: 0.05, y: 0, z: -1 }, disabled)).toEqual(
+      { airCutoff: 20000, proximityGain: 0, proximityLevel: 0 },
+    );
+  });
+});
+
+describe("getProximityLevelGains", () => {
+  it("遠い耳だけを強調量の分だけ下げる", () => {
+    const [left, right] = getProximityLevelGains(6);
+
+    expect(left).toBeCloseTo(10 ** (-6 / 20));
+    expect(right).toBe(1);
+    expect(getProximityLevelGains(-6)).toEqual([right, left]);
+  });
+
+  it("左右差がなければどちらも1", () => {
+    expect(getProximityLevelGains(0)).toEqual([1, 1]);
+  });
+});
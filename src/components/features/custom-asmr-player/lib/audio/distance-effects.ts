@@ -0,0 +1,159 @@
+/**
+ * Distance Effects
+ *
+ * 音源までの距離に応じたフィルターステージ
+ * 遠い音源は空気吸収で高域が落ち、耳元の音源は近接効果で低域と左右差が強まる
+ */
+
+import type { Position3D, SpatialAudioConfig } from "./spatial-audio-engine";
+
+// 左右差の強調: Splitter -> 耳ごとの Gain -> Merger
+// レンダラーが作った左右の信号を混ぜずに、音量差だけを加える
+export interface ProximityLevelNodes {
+  input: ChannelSplitterNode;
+  gains: GainNode[]; // [左, 右]
+  output: ChannelMergerNode;
+}
+
+// 仮想音源ごとのフィルター構成
+// Gain -> 空気吸収 (Lowpass) -> 近接効果 (Lowshelf) -> Panner -> 左右差の強調
+export interface DistanceEffectNodes {
+  airFilter: BiquadFilterNode;
+  proximityFilter: BiquadFilterNode;
+  proximityLevel: ProximityLevelNodes;
+}
+
+// 距離から計算したフィルターの値
+export interface DistanceEffectParams {
+  airCutoff: number; // ローパスのカットオフ周波数 (Hz)
+  proximityGain: number; // 低域のブースト量 (dB)
+  proximityLevel: number; // 左右差の強調量 (dB、正なら右耳が大きい)
+}
+
+// 空気吸収: この距離から高域が落ち始め、パッドの角で最も暗くなる
+const AIR_START_DISTANCE = 0.3;
+const AIR_END_DISTANCE = Math.SQRT2;
+const AIR_MAX_CUTOFF = 20000;
+const AIR_MIN_CUTOFF = 3000;
+
+// 近接効果: この距離より近づくと効き始める
+const PROXIMITY_RANGE = 0.35;
+const PROXIMITY_SHELF_FREQUENCY = 250;
+const MAX_PROXIMITY_BOOST = 9;
+const MAX_PROXIMITY_LEVEL = 6;
+
+// Butterworth 特性になる Q (dB)。0 dB ではカットオフ付近に山ができる
+const BUTTERWORTH_Q = -3.01;
+
+// 値の変化をなめらかにする時定数（秒）
+const SMOOTHING_TIME = 0.02;
+
+/**
+ * 正規化座標の位置からフィルターの値を計算
+ * リスナーは原点にいるため、原点からの距離をそのまま使う
+ */
+export function getDistanceEffectParams(
+  position: Position3D,
+  config: Pick<SpatialAudioConfig, "airAbsorption" | "proximityEffect">,
+): DistanceEffectParams {
+  const distance = Math.hypot(position.x, position.y, position.z);
+
+  // 高域は周波数の対数で補間すると自然に暗くなる
+  const air = Math.max(
+    0,
+    Math.min(
+      1,
+      (distance - AIR_START_DISTANCE) / (AIR_END_DISTANCE - AIR_START_DISTANCE),
+    ),
+  );
+  const airCutoff = config.airAbsorption
+    ? AIR_MAX_CUTOFF * (AIR_MIN_CUTOFF / AIR_MAX_CUTOFF) ** air
+    : AIR_MAX_CUTOFF;
+
+  // 近いほど強く、二乗して境界付近の変化をゆるやかにする
+  const closeness = config.proximityEffect
+    ? Math.max(0, 1 - distance / PROXIMITY_RANGE) ** 2
+    : 0;
+  // 横方向にいるほど左右差を大きくする
+  const lateral = distance > 0 ? position.x / distance : 0;
+
+  return {
+    airCutoff,
+    proximityGain: closeness * MAX_PROXIMITY_BOOST,
+    proximityLevel: lateral * closeness * MAX_PROXIMITY_LEVEL,
+  };
+}
+
+/**
+ * 左右差の強調量から耳ごとの音量を計算（[左, 右]）
+ * 音量が上がって割れないよう、近い耳はそのままにして遠い耳だけを下げる
+ */
+export function getProximityLevelGains(level: number): number[] {
+  const far = 10 ** (-Math.abs(level) / 20);
+  return level > 0 ? [far, 1] : [1, far];
+}
+
+/**
+ * 距離フィルターのノードを作成（初期状態は素通し）
+ */
+export function createDistanceEffectNodes(
+  context: BaseAudioContext,
+): DistanceEffectNodes {
+  const airFilter = context.createBiquadFilter();
+  airFilter.type = "lowpass";
+  airFilter.frequency.value = AIR_MAX_CUTOFF;
+  airFilter.Q.value = BUTTERWORTH_Q;
+
+  const proximityFilter = context.createBiquadFilter();
+  proximityFilter.type = "lowshelf";
+  proximityFilter.frequency.value = PROXIMITY_SHELF_FREQUENCY;
+  proximityFilter.gain.value = 0;
+
+  // 内部の接続は作成時に済ませ、外からは input と output につなぐだけでよい
+  const input = context.createChannelSplitter(2);
+  const output = context.createChannelMerger(2);
+  const gains = [0, 1].map((channel) => {
+    const gain = context.createGain();
+    input.connect(gain, channel);
+    gain.connect(output, 0, channel);
+    return gain;
+  });
+
+  return {
+    airFilter,
+    proximityFilter,
+    proximityLevel: { input, gains, output },
+  };
+}
+
+/**
+ * 位置に合わせてフィルターを更新
+ * time を指定した場合はその時刻に向けて直線的に変化させる（オートメーション用）
+ */
+export function updateDistanceEffects(
+  nodes: DistanceEffectNodes,
+  position: Position3D,
+  config: Pick<SpatialAudioConfig, "airAbsorption" | "proximityEffect">,
+  time?: number,
+): void {
+  const params = getDistanceEffectParams(position, config);
+  const [leftGain, rightGain] = getProximityLevelGains(params.proximityLevel);
+  const targets: [AudioParam, number][] = [
+    [nodes.airFilter.frequency, params.airCutoff],
+    [nodes.proximityFilter.gain, params.proximityGain],
+    [nodes.proximityLevel.gains[0].gain, leftGain],
+    [nodes.proximityLevel.gains[1].gain, rightGain],
+  ];
+
+  for (const [param, value] of targets) {
+    if (time === undefined) {
+      param.setTargetAtTime(
+        value,
+        nodes.airFilter.context.currentTime,
+        SMOOTHING_TIME,
+      );
+    } else {
+      param.linearRampToValueAtTime(value, time);
+    }
+  }
+}
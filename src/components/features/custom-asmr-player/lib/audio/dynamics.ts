@@ -0,0 +1,169 @@
+/**
+ * Dynamics
+ *
+ * 出力の音量をそろえるダイナミクスステージ
+ * ラウドネスに合わせた自動音量調整とコンプレッサーで動画ごとの音量差をならし、
+ * マスター音量の後ろのリミッターで音割れを防ぐ
+ */
+
+import { createLoudnessMeterNodes, type LoudnessMeterNodes } from "./loudness";
+
+// ダイナミクスの設定
+export interface DynamicsSettings {
+  // 大きな音を抑えて音量差をならす
+  compressor: boolean;
+  // 0 dBFS を超えないように抑える
+  limiter: boolean;
+  // ラウドネスが目標に近づくように音量を自動で調整する
+  autoGain: boolean;
+  // 自動音量調整の目標 (LUFS)
+  targetLoudness: number;
+}
+
+// ダイナミクスステージのノード構成
+// 環境 -> Input -> 自動音量調整 -> コンプレッサー -> マスターGain -> リミッター -> Destination
+//           └-> ラウドネス計測（調整前の音を測る）
+export interface DynamicsNodes {
+  input: GainNode;
+  autoGain: GainNode;
+  compressor: DynamicsCompressorNode;
+  limiter: DynamicsCompressorNode;
+  loudness: LoudnessMeterNodes;
+}
+
+// コンプレッサーのパラメータ
+interface CompressorParams {
+  threshold: number; // dB
+  knee: number; // dB
+  ratio: number;
+  attack: number; // 秒
+  release: number; // 秒
+}
+
+export const MIN_TARGET_LOUDNESS = -30;
+export const MAX_TARGET_LOUDNESS = -10;
+
+// 自動音量調整で増減できる最大量 (dB)
+export const MAX_AUTO_GAIN = 12;
+
+// これより小さいラウドネスは無音の区間とみなし、音量を上げない (LUFS)
+const AUTO_GAIN_GATE = -50;
+
+// 音量を下げるときは速く、上げるときはゆっくり追従させる時定数（秒）
+const AUTO_GAIN_FALL_TIME = 0.3;
+const AUTO_GAIN_RISE_TIME = 2;
+
+// 会話や囁きが不自然にならない程度のゆるいかけ方
+const LEVELER_PARAMS: CompressorParams = {
+  threshold: -24,
+  knee: 12,
+  ratio: 3,
+  attack: 0.01,
+  release: 0.25,
+};
+
+// 速いアタックと高いレシオでピークを抑える
+// DynamicsCompressorNode は自動でメイクアップゲインを加えるため、閾値は少し低めにする
+const LIMITER_PARAMS: CompressorParams = {
+  threshold: -1.5,
+  knee: 0,
+  ratio: 20,
+  attack: 0.001,
+  release: 0.05,
+};
+
+// 無効時に使う、何もしないパラメータ
+const BYPASS_PARAMS: CompressorParams = {
+  threshold: 0,
+  knee: 0,
+  ratio: 1,
+  attack: 0.003,
+  release: 0.25,
+};
+
+export const DEFAULT_DYNAMICS: DynamicsSettings = {
+  compressor: false,
+  limiter: true,
+  autoGain: false,
+  targetLoudness: -20,
+};
+
+// コンプレッサーにパラメータを設定
+function applyCompressorParams(
+  compressor: DynamicsCompressorNode,
+  params: CompressorParams,
+): void {
+  compressor.threshold.value = params.threshold;
+  compressor.knee.value = params.knee;
+  compressor.ratio.value = params.ratio;
+  compressor.attack.value = params.attack;
+  compressor.release.value = params.release;
+}
+
+/**
+ * ダイナミクスステージのノードを作成（初期状態は素通し）
+ * 内部の接続は作成時に済ませ、外からは input と compressor / limiter をつなぐ
+ */
+export function createDynamicsNodes(context: BaseAudioContext): DynamicsNodes {
+  const input = context.createGain();
+  const autoGain = context.createGain();
+  const compressor = context.createDynamicsCompressor();
+  const limiter = context.createDynamicsCompressor();
+  const loudness = createLoudnessMeterNodes(context);
+  applyCompressorParams(compressor, BYPASS_PARAMS);
+  applyCompressorParams(limiter, BYPASS_PARAMS);
+
+  input.connect(autoGain);
+  input.connect(loudness.input);
+  autoGain.connect(compressor);
+
+  return { input, autoGain, compressor, limiter, loudness };
+}
+
+/**
+ * 設定に合わせてコンプレッサーとリミッターを更新
+ * 自動音量調整の量は計測結果に合わせて updateAutoGain で反映する
+ */
+export function updateDynamics(
+  nodes: DynamicsNodes,
+  settings: DynamicsSettings,
+): void {
+  applyCompressorParams(
+    nodes.compressor,
+    settings.compressor ? LEVELER_PARAMS : BYPASS_PARAMS,
+  );
+  applyCompressorParams(
+    nodes.limiter,
+    settings.limiter ? LIMITER_PARAMS : BYPASS_PARAMS,
+  );
+}
+
+/**
+ * 計測したラウドネスから自動音量調整の量 (dB) を計算
+ * 無音の区間では現在の量を保つ
+ */
+export function getAutoGainAmount(
+  loudness: number,
+  targetLoudness: number,
+  current: number,
+): number {
+  if (loudness < AUTO_GAIN_GATE) return current;
+  return Math.max(
+    -MAX_AUTO_GAIN,
+    Math.min(MAX_AUTO_GAIN, targetLoudness - loudness),
+  );
+}
+
+/**
+ * 自動音量調整の量 (dB) を反映
+ * 下げるときは速く、上げるときはゆっくり変化させる
+ */
+export function updateAutoGain(nodes: DynamicsNodes, decibels: number): void {
+  const { gain, context } = nodes.autoGain;
+  const value = 10 ** (decibels / 20);
+  gain.setTargetAtTime(
+    value,
+    context.currentTime,
+    value < gain.value ? AUTO_GAIN_FALL_TIME : AUTO_GAIN_RISE_TIME,
+  );
+}
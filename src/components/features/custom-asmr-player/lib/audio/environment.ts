@@ -0,0 +1,208 @@
+/**
+ * Environment
+ *
+ * ConvolverNode で部屋の響きを付加する環境ステージ
+ * インパルス応答はファイルを同梱せず、パラメータから合成する
+ */
+
+// 環境のプリセット
+export type EnvironmentPreset =
+  | "none" // 響きなし
+  | "bedroom" // 小さな寝室
+  | "booth" // スタジオブース
+  | "cathedral" // 大聖堂
+  | "outdoors" // 屋外
+  | "custom"; // パラメータを指定して生成
+
+// インパルス応答を合成するパラメータ
+export interface ReverbParams {
+  // 残響時間（秒、-60dBまで減衰する時間）
+  decay: number;
+  // 直接音から残響が始まるまでの時間（秒）
+  preDelay: number;
+  // 高域の減衰量（0: 明るい, 1: こもる）
+  damping: number;
+}
+
+// 環境の設定
+export interface EnvironmentSettings {
+  preset: EnvironmentPreset;
+  // custom のときに使うパラメータ
+  custom: ReverbParams;
+  // 響きの割合（0: ドライのみ, 1: ウェットのみ）
+  mix: number;
+}
+
+// 環境ステージのノード構成
+// 仮想音源のGain -> Send -> Convolver -> Wet -> マスターGain
+// 仮想音源のPanner -> Dry -> マスターGain
+export interface EnvironmentNodes {
+  send: GainNode;
+  convolver: ConvolverNode;
+  wet: GainNode;
+  dry: GainNode;
+}
+
+export const MIN_REVERB_DECAY = 0.1;
+export const MAX_REVERB_DECAY = 8;
+export const MAX_REVERB_PRE_DELAY = 0.2;
+
+// プリセットごとのパラメータ
+export const ENVIRONMENT_PRESET_PARAMS: Record<
+  Exclude<EnvironmentPreset, "none" | "custom">,
+  ReverbParams
+> = {
+  bedroom: { decay: 0.5, preDelay: 0.005, damping: 0.6 },
+  booth: { decay: 0.2, preDelay: 0.002, damping: 0.8 },
+  cathedral: { decay: 4.5, preDelay: 0.04, damping: 0.35 },
+  outdoors: { decay: 0.8, preDelay: 0.03, damping: 0.9 },
+};
+
+// プリセットの表示名
+export const ENVIRONMENT_PRESET_LABELS: Record<EnvironmentPreset, string> = {
+  none: "なし（ドライ）",
+  bedroom: "小さな寝室",
+  booth: "スタジオブース",
+  cathedral: "大聖堂",
+  outdoors: "屋外",
+  custom: "カスタム",
+};
+
+export const DEFAULT_ENVIRONMENT: EnvironmentSettings = {
+  preset: "none",
+  custom: { decay: 1.5, preDelay: 0.02, damping: 0.5 },
+  mix: 0.25,
+};
+
+// 立ち上がりのクリックノイズを防ぐフェードイン（秒）
+const FADE_IN_TIME = 0.002;
+
+/**
+ * 設定からインパルス応答のパラメータを取得
+ * 響きなしの場合は null
+ */
+export function getReverbParams(
+  settings: EnvironmentSettings,
+): ReverbParams | null {
+  if (settings.preset === "none") return null;
+  if (settings.preset === "custom") return settings.custom;
+  return ENVIRONMENT_PRESET_PARAMS[settings.preset];
+}
+
+/**
+ * インパルス応答を合成
+ * 左右で独立したノイズを指数減衰させ、時間とともに高域を削って自然な残響にする
+ */
+export function generateImpulseResponse(
+  context: BaseAudioContext,
+  params: ReverbParams,
+): AudioBuffer {
+  const { sampleRate } = context;
+  const decay = Math.max(MIN_REVERB_DECAY, params.decay);
+  const preDelaySamples = Math.floor(params.preDelay * sampleRate);
+  const decaySamples = Math.floor(decay * sampleRate);
+  const fadeInSamples = Math.max(1, Math.floor(FADE_IN_TIME * sampleRate));
+
+  const buffer = context.createBuffer(
+    2,
+    preDelaySamples + decaySamples,
+    sampleRate,
+  );
+
+  for (let channel = 0; channel < 2; channel++) {
+    const data = buffer.getChannelData(channel);
+    let filtered = 0;
+
+    for (let i = 0; i < decaySamples; i++) {
+      const progress = i / decaySamples;
+      // -60dB (= e^-6.9) まで指数減衰
+      const envelope =
+        Math.exp(-6.9 * progress) * Math.min(1, i / fadeInSamples);
+      // 後半ほどローパスを強くかける
+      const smoothing = 1 - params.damping * progress * 0.95;
+      filtered += smoothing * (Math.random() * 2 - 1 - filtered);
+
+      data[preDelaySamples + i] = filtered * envelope;
+    }
+  }
+
+  return buffer;
+}
+
+/**
+ * 環境ステージのノードを作成（初期状態はドライのみ）
+ */
+export function createEnvironmentNodes(
+  context: BaseAudioContext,
+): EnvironmentNodes {
+  const send = context.createGain();
+  const convolver = context.createConvolver();
+  const wet = context.createGain();
+  const dry = context.createGain();
+  wet.gain.value = 0;
+
+  return { send, convolver, wet, dry };
+}
+
+/**
+ * 環境ステージをマスターGainに接続
+ */
+export function connectEnvironment(
+  environment: EnvironmentNodes,
+  output: AudioNode,
+): void {
+  environment.send.connect(environment.convolver);
+  environment.convolver.connect(environment.wet);
+  environment.wet.connect(output);
+  environment.dry.connect(output);
+}
+
+/**
+ * 環境ステージを切断
+ */
+export function disconnectEnvironment(environment: EnvironmentNodes): void {
+  environment.send.disconnect();
+  environment.convolver.disconnect();
+  environment.wet.disconnect();
+  environment.dry.disconnect();
+}
+
+/**
+ * インパルス応答を差し替え
+ * 響きなしの場合は buffer を外して処理を止める
+ */
+export function updateEnvironmentImpulse(
+  context: BaseAudioContext,
+  environment: EnvironmentNodes,
+  settings: EnvironmentSettings,
+): void {
+  const params = getReverbParams(settings);
+  environment.convolver.buffer = params
+    ? generateImpulseResponse(context, params)
+    : null;
+}
+
+/**
+ * ドライとウェットの割合を更新
+ * 等パワーでクロスフェードし、割合を変えても全体の音量感を保つ
+ */
+export function updateEnvironmentMix(
+  environment: EnvironmentNodes,
+  settings: EnvironmentSettings,
+): void {
+  const { context } = environment.wet;
+  const mix =
+    settings.preset === "none" ? 0 : Math.max(0, Math.min(1, settings.mix));
+  const angle = (mix * Math.PI) / 2;
+
+  environment.dry.gain.setTargetAtTime(
+    Math.cos(angle),
+    context.currentTime,
+    0.02,
+  );
+  environment.wet.gain.setTargetAtTime(
+    Math.sin(angle),
+    context.currentTime,
+    0.02,
+  );
+}
@@ -0,0 +1,226 @@
+/**
+ * Equalizer
+ *
+ * 入力の音質を整える BiquadFilterNode の直列チェーン
+ * こもった低域（ブーミー）や耳につく高域（ヒスノイズ）を、定位の前に一度だけ補正する
+ */
+
+// 帯域（チェーンの並び順）
+export type EqualizerBandId =
+  | "highpass" // 不要な低域のカット（ランブル対策）
+  | "lowShelf"
+  | "lowMid"
+  | "mid"
+  | "highMid"
+  | "highShelf";
+
+// 帯域ごとの設定
+export interface EqualizerBand {
+  frequency: number; // 中心・カットオフ周波数 (Hz)
+  gain: number; // 増減量 (dB)。ハイパスでは使わない
+  q: number; // 帯域幅。ピーキング以外では使わない
+}
+
+// イコライザーの設定
+export interface EqualizerSettings {
+  enabled: boolean;
+  bands: Record<EqualizerBandId, EqualizerBand>;
+}
+
+// イコライザーのノード構成
+// Input -> ハイパス -> ローシェルフ -> ピーキング x3 -> ハイシェルフ -> Output
+export interface EqualizerNodes {
+  input: BiquadFilterNode;
+  output: BiquadFilterNode;
+  filters: Record<EqualizerBandId, BiquadFilterNode>;
+}
+
+export const EQUALIZER_BAND_IDS: EqualizerBandId[] = [
+  "highpass",
+  "lowShelf",
+  "lowMid",
+  "mid",
+  "highMid",
+  "highShelf",
+];
+
+export const EQUALIZER_BAND_LABELS: Record<EqualizerBandId, string> = {
+  highpass: "ローカット",
+  lowShelf: "低域",
+  lowMid: "中低域",
+  mid: "中域",
+  highMid: "中高域",
+  highShelf: "高域",
+};
+
+const EQUALIZER_BAND_TYPES: Record<EqualizerBandId, BiquadFilterType> = {
+  highpass: "highpass",
+  lowShelf: "lowshelf",
+  lowMid: "peaking",
+  mid: "peaking",
+  highMid: "peaking",
+  highShelf: "highshelf",
+};
+
+// 帯域ごとに動かせる周波数の範囲 (Hz)
+export const EQUALIZER_FREQUENCY_RANGES: Record<
+  EqualizerBandId,
+  [min: number, max: number]
+> = {
+  highpass: [20, 300],
+  lowShelf: [40, 500],
+  lowMid: [100, 1000],
+  mid: [400, 4000],
+  highMid: [1500, 12000],
+  highShelf: [2000, 16000],
+};
+
+export const MAX_EQUALIZER_GAIN = 12;
+export const MIN_EQUALIZER_Q = 0.3;
+export const MAX_EQUALIZER_Q = 8;
+
+// ハイパスの Q（バターワース特性）
+const HIGHPASS_Q = Math.SQRT1_2;
+
+// 無効時に使う、可聴域より下のハイパス周波数 (Hz)
+const BYPASS_HIGHPASS_FREQUENCY = 10;
+
+// 値の変化をなめらかにする時定数（秒）
+const SMOOTHING_TIME = 0.02;
+
+// 初期値（すべてフラット）
+export const DEFAULT_EQUALIZER: EqualizerSettings = {
+  enabled: true,
+  bands: {
+    highpass: { frequency: 20, gain: 0, q: HIGHPASS_Q },
+    lowShelf: { frequency: 120, gain: 0, q: 1 },
+    lowMid: { frequency: 300, gain: 0, q: 1 },
+    mid: { frequency: 1500, gain: 0, q: 1 },
+    highMid: { frequency: 5000, gain: 0, q: 1 },
+    highShelf: { frequency: 10000, gain: 0, q: 1 },
+  },
+};
+
+/**
+ * 帯域がゲインを持つか（ハイパス以外）
+ */
+export function hasEqualizerGain(id: EqualizerBandId): boolean {
+  return id !== "highpass";
+}
+
+/**
+ * 帯域が Q を持つか（ピーキングのみ）
+ */
+export function hasEqualizerQ(id: EqualizerBandId): boolean {
+  return EQUALIZER_BAND_TYPES[id] === "peaking";
+}
+
+// 実際にフィルターへ設定する値（無効時は素通しになる値）
+function getFilterValues(
+  id: EqualizerBandId,
+  settings: EqualizerSettings,
+): EqualizerBand {
+  const band = settings.bands[id];
+  if (id === "highpass") {
+    return {
+      frequency: settings.enabled ? band.frequency : BYPASS_HIGHPASS_FREQUENCY,
+      gain: 0,
+      q: HIGHPASS_Q,
+    };
+  }
+  return { ...band, gain: settings.enabled ? band.gain : 0 };
+}
+
+/**
+ * イコライザーのノードを作成（初期状態は素通し）
+ * 内部の接続は作成時に済ませ、外からは input と output をつなぐだけでよい
+ */
+export function createEqualizerNodes(
+  context: BaseAudioContext,
+): EqualizerNodes {
+  const filters = {} as Record<EqualizerBandId, BiquadFilterNode>;
+  let previous: BiquadFilterNode | null = null;
+
+  for (const id of EQUALIZER_BAND_IDS) {
+    const filter = context.createBiquadFilter();
+    filter.type = EQUALIZER_BAND_TYPES[id];
+    const values = getFilterValues(id, {
+      ...DEFAULT_EQUALIZER,
+      enabled: false,
+    });
+    filter.frequency.value = values.frequency;
+    filter.gain.value = values.gain;
+    filter.Q.value = values.q;
+
+    previous?.connect(filter);
+    previous = filter;
+    filters[id] = filter;
+  }
+
+  return {
+    input: filters[EQUALIZER_BAND_IDS[0]],
+    output: filters[EQUALIZER_BAND_IDS[EQUALIZER_BAND_IDS.length - 1]],
+    filters,
+  };
+}
+
+/**
+ * 設定に合わせてフィルターを更新
+ * time を指定した場合はその時刻に値を確定させる（オフラインレンダリング用）
+ */
+export function updateEqualizer(
+  nodes: EqualizerNodes,
+  settings: EqualizerSettings,
+  time?: number,
+): void {
+  for (const id of EQUALIZER_BAND_IDS) {
+    const filter = nodes.filters[id];
+    const values = getFilterValues(id, settings);
+    const targets: [AudioParam, number][] = [
+      [filter.frequency, values.frequency],
+      [filter.gain, values.gain],
+      [filter.Q, values.q],
+    ];
+
+    for (const [param, value] of targets) {
+      if (time === undefined) {
+        param.setTargetAtTime(
+          value,
+          filter.context.currentTime,
+          SMOOTHING_TIME,
+        );
+      } else {
+        param.setValueAtTime(value, time);
+      }
+    }
+  }
+}
+
+/**
+ * 設定したときの周波数特性 (dB) を計算
+ * オートメーションは描画に反映されないため、nodes には表示専用のノードを渡し、値を直接書き換える
+ */
+export function getEqualizerResponse(
+  nodes: EqualizerNodes,
+  settings: EqualizerSettings,
+  frequencies: Float32Array<ArrayBuffer>,
+): Float32Array<ArrayBuffer> {
+  const magnitude = new Float32Array(frequencies.length);
+  const phase = new Float32Array(frequencies.length);
+  const response = new Float32Array(frequencies.length);
+
+  for (const id of EQUALIZER_BAND_IDS) {
+    const filter = nodes.filters[id];
+    const values = getFilterValues(id, settings);
+    filter.frequency.value = values.frequency;
+    filter.gain.value = values.gain;
+    filter.Q.value = values.q;
+
+    // 直列なので各フィルターのデシベルを足し合わせる
+    filter.getFrequencyResponse(frequencies, magnitude, phase);
+    for (let i = 0; i < response.length; i++) {
+      response[i] += 20 * Math.log10(Math.max(magnitude[i], 1e-6));
+    }
+  }
+  return response;
+}
@@ -0,0 +1,199 @@
+import { describe, expect, it } from "vitest";
+import {
+  getDistanceGain,
+  type HrirSpatializerNodes,
+  MIN_SWITCH_INTERVAL,
+  updateHrirSpatializer,
+} from "./hrir-spatializer";
+import type { HrirSet } from "./sofa";
+import { DEFAULT_CONFIG } from "./spatial-audio-engine";
+
+// 予約された値を記録する AudioParam の代わり
+function createRecordingParam() {
+  return {
+    value: 0,
+    setValueAtTime(value: number) {
+      this.value = value;
+    },
+    setTargetAtTime(value: number) {
+      this.value = value;
+    },
+  };
+}
+
+// HRIRバックエンドのノードの代わり（コンテキストの時刻は外から進める）
+function createNodes() {
+  const context = {
+    currentTime: 0,
+    sampleRate: 48000,
+    createBuffer: (channels: number, length: number) => {
+      const data = Array.from(
+        { length: channels },
+        () => new Float32Array(length),
+      );
+      return {
+        data,
+        copyToChannel: (source: Float32Array, channel: number) =>
+          data[channel].set(source),
+      };
+    },
+  };
+  const createGain = () => ({ context, gain: createRecordingParam() });
+  const nodes = {
+    input: createGain(),
+    convolvers: [{ buffer: null }, { buffer: null }],
+    fades: [createGain(), createGain()],
+    output: createGain(),
+    active: 0,
+    hrirSet: null,
+    key: null,
+    switchedAt: Number.NEGATIVE_INFINITY,
+  } as unknown as HrirSpatializerNodes;
+  return { context, nodes };
+}
+
+// 前後左右の4方向を測定した、サンプル1つだけのHRIRセット
+function createHrirSet(name: string, scale = 1): HrirSet {
+  const directions = [
+    { x: 0, y: 0, z: -1 },
+    { x: 1, y: 0, z: 0 },
+    { x: 0, y: 0, z: 1 },
+    { x: -1, y: 0, z: 0 },
+  ];
+  return {
+    name,
+    sampleRate: 48000,
+    length: 1,
+    measurements: directions.map((direction, index) => ({
+      direction,
+      left: Float32Array.from([(index + 1) * scale]),
+      right: Float32Array.from([-(index + 1) * scale]),
+    })),
+  };
+}
+
+// Convolver に設定したバッファの左右の先頭サンプル
+function readActiveHrir(nodes: HrirSpatializerNodes): number[] {
+  const buffer = nodes.convolvers[nodes.active].buffer as unknown as {
+    data: Float32Array[];
+  };
+  return buffer.data.map((channel) => channel[0]);
+}
+
+describe("getDistanceGain", () => {
+  const config = {
+    ...DEFAULT_CONFIG,
+    refDistance: 1,
+    maxDistance: 5,
+    rolloffFactor: 1,
+  };
+
+  it("基準距離より近い音源は減衰させない", () => {
+    expect(getDistanceGain(0.5, { ...config, distanceModel: "inverse" })).toBe(
+      1,
+    );
+  });
+
+  it("PannerNode と同じ3つの距離モデルで減衰させる", () => {
+    expect(getDistanceGain(3, { ...config, distanceModel: "linear" })).toBe(
+      0.5,
+    );
+    expect(getDistanceGain(4, { ...config, distanceModel: "inverse" })).toBe(
+      0.25,
+    );
+    expect(
+      getDistanceGain(2, {
+        ...config,
+        distanceModel: "exponential",
+        rolloffFactor: 2,
+      }),
+    ).toBe(0.25);
+  });
+});
+
+describe("updateHrirSpatializer", () => {
+  const position = { x: 0.2, y: 0, z: 0 };
+
+  it("最も近い測定点のHRIRを設定する", () => {
+    const { nodes } = createNodes();
+    updateHrirSpatializer(
+      nodes,
+      createHrirSet("a.sofa"),
+      position,
+      DEFAULT_CONFIG,
+      "nearest",
+    );
+
+    expect(readActiveHrir(nodes)).toEqual([2, -2]);
+  });
+
+  it("補間では近い3点を角度の逆数で重み付けする", () => {
+    const { nodes } = createNodes();
+    // 正面と右の間では、正面と右が45度、同じ135度の後ろと左は先に並ぶ後ろが選ばれる
+    updateHrirSpatializer(
+      nodes,
+      createHrirSet("a.sofa"),
+      { x: 0.2, y: 0, z: -0.2 },
+      DEFAULT_CONFIG,
+      "interpolated",
+    );
+
+    const [front, right, back] = [1 / 45, 1 / 45, 1 / 135];
+    const total = front + right + back;
+    expect(readActiveHrir(nodes)[0]).toBeCloseTo(
+      (1 * front + 2 * right + 3 * back) / total,
+      5,
+    );
+  });
+
+  it("同じセットの同じ測定点なら差し替えない", () => {
+    const { nodes } = createNodes();
+    const set = createHrirSet("a.sofa");
+    updateHrirSpatializer(nodes, set, position, DEFAULT_CONFIG, "nearest");
+    const active = nodes.active;
+
+    expect(
+      updateHrirSpatializer(nodes, set, position, DEFAULT_CONFIG, "nearest"),
+    ).toBe(true);
+    expect(nodes.active).toBe(active);
+  });
+
+  it("同じ名前でも別に読み込んだセットなら差し替える", () => {
+    const { context, nodes } = createNodes();
+    updateHrirSpatializer(
+      nodes,
+      createHrirSet("a.sofa"),
+      position,
+      DEFAULT_CONFIG,
+      "nearest",
+    );
+    context.currentTime = MIN_SWITCH_INTERVAL;
+    updateHrirSpatializer(
+      nodes,
+      createHrirSet("a.sofa", 10),
+      position,
+      DEFAULT_CONFIG,
+      "nearest",
+    );
+
+    expect(readActiveHrir(nodes)).toEqual([20, -20]);
+  });
+
+  it("直前の切り替えから間もない場合は差し替えずに false を返す", () => {
+    const { context, nodes } = createNodes();
+    const set = createHrirSet("a.sofa");
+    updateHrirSpatializer(nodes, set, position, DEFAULT_CONFIG, "nearest");
+    context.currentTime = MIN_SWITCH_INTERVAL / 2;
+
+    expect(
+      updateHrirSpatializer(
+        nodes,
+        set,
+        { x: -0.2, y: 0, z: 0 },
+        DEFAULT_CONFIG,
+        "nearest",
+      ),
+    ).toBe(false);
+    expect(readActiveHrir(nodes)).toEqual([2, -2]);
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * HRIR Spatializer
+ *
+ * 読み込んだHRIRセットとの畳み込みで音源を定位させるレンダリングバックエンド
+ * PannerNode の代わりに、方向に応じたHRIRを ConvolverNode に設定する
+ */
+
+import type { HrirSet } from "./sofa";
+import { resampleLinear } from "./sofa";
+import {
+  POSITION_SCALE,
+  type Position3D,
+  type SpatialAudioConfig,
+} from "./spatial-audio-engine";
+
+// HRIRの選び方
+export type HrirInterpolation =
+  | "nearest" // 最も近い測定点
+  | "interpolated"; // 近い3点を角度で重み付けして合成
+
+// HRIRバックエンドのノード構成
+// Input (モノラル) -> Convolver A/B -> クロスフェード -> 距離減衰
+export interface HrirSpatializerNodes {
+  input: GainNode;
+  convolvers: [ConvolverNode, ConvolverNode];
+  fades: [GainNode, GainNode];
+  output: GainNode;
+  // 現在鳴っている側の Convolver
+  active: 0 | 1;
+  // 現在のHRIRを取り出したセットと測定点の組み合わせ（同じなら差し替えない）
+  // セットは名前ではなくオブジェクトで比べ、同じ名前のファイルを読み込み直しても差し替える
+  hrirSet: HrirSet | null;
+  key: string | null;
+  // 最後に差し替えたコンテキスト時刻
+  switchedAt: number;
+}
+
+// HRIRを差し替えるときのクロスフェードの時定数（秒）
+const CROSSFADE_TIME = 0.01;
+// クロスフェードが終わる前に差し替えないための最小間隔（秒）
+export const MIN_SWITCH_INTERVAL = 0.03;
+// 補間に使う測定点の数
+const INTERPOLATION_POINTS = 3;
+
+/**
+ * HRIRバックエンドのノードを作成
+ */
+export function createHrirSpatializer(
+  context: BaseAudioContext,
+): HrirSpatializerNodes {
+  // HRIRは左右で別の応答をかけるため、入力はモノラルにまとめる
+  const input = context.createGain();
+  input.channelCount = 1;
+  input.channelCountMode = "explicit";
+  input.channelInterpretation = "speakers";
+
+  const convolvers: [ConvolverNode, ConvolverNode] = [
+    context.createConvolver(),
+    context.createConvolver(),
+  ];
+  const fades: [GainNode, GainNode] = [
+    context.createGain(),
+    context.createGain(),
+  ];
+  const output = context.createGain();
+
+  convolvers.forEach((convolver, index) => {
+    // 左右の音量差を保つため正規化しない
+    convolver.normalize = false;
+    fades[index].gain.value = index === 0 ? 1 : 0;
+    input.connect(convolver);
+    convolver.connect(fades[index]);
+    fades[index].connect(output);
+  });
+
+  return {
+    input,
+    convolvers,
+    fades,
+    output,
+    active: 0,
+    hrirSet: null,
+    key: null,
+    switchedAt: Number.NEGATIVE_INFINITY,
+  };
+}
+
+/**
+ * PannerNode と同じ距離モデルで距離減衰を計算
+ */
+export function getDistanceGain(
+  distance: number,
+  config: SpatialAudioConfig,
+): number {
+  const { refDistance, maxDistance, rolloffFactor, distanceModel } = config;
+  const clamped = Math.max(distance, refDistance);
+
+  switch (distanceModel) {
+    case "linear": {
+      const range = Math.max(maxDistance - refDistance, Number.EPSILON);
+      const ratio = (Math.min(clamped, maxDistance) - refDistance) / range;
+      return 1 - Math.min(rolloffFactor, 1) * ratio;
+    }
+    case "inverse":
+      return (
+        refDistance / (refDistance + rolloffFactor * (clamped - refDistance))
+      );
+    case "exponential":
+      return (clamped / refDistance) ** -rolloffFactor;
+  }
+}
+
+/**
+ * 方向に対応するHRIRの測定点と重みを選ぶ
+ */
+function selectMeasurements(
+  hrirSet: HrirSet,
+  direction: Position3D,
+  interpolation: HrirInterpolation,
+): { index: number; weight: number }[] {
+  // 方向ベクトルの内積から角度を求め、近い順に並べる
+  const ranked = hrirSet.measurements
+    .map((measurement, index) => {
+      const dot =
+        measurement.direction.x * direction.x +
+        measurement.direction.y * direction.y +
+        measurement.direction.z * direction.z;
+      return { index, angle: Math.acos(Math.max(-1, Math.min(1, dot))) };
+    })
+    .sort((a, b) => a.angle - b.angle);
+
+  if (interpolation === "nearest" || ranked[0].angle < 1e-4) {
+    return [{ index: ranked[0].index, weight: 1 }];
+  }
+
+  // 角度の逆数で重み付け
+  const nearest = ranked.slice(0, INTERPOLATION_POINTS);
+  const inverse = nearest.map(({ angle }) => 1 / angle);
+  const total = inverse.reduce((sum, value) => sum + value, 0);
+  return nearest.map(({ index }, i) => ({ index, weight: inverse[i] / total }));
+}
+
+/**
+ * 選んだ測定点を合成してステレオのHRIRバッファを作成
+ */
+function createHrirBuffer(
+  context: BaseAudioContext,
+  hrirSet: HrirSet,
+  selection: { index: number; weight: number }[],
+): AudioBuffer {
+  const channels = [new Float32Array(0), new Float32Array(0)];
+
+  for (const { index, weight } of selection) {
+    const { left, right } = hrirSet.measurements[index];
+    [left, right].forEach((data, channel) => {
+      const resampled = resampleLinear(
+        data,
+        hrirSet.sampleRate,
+        context.sampleRate,
+      );
+      if (channels[channel].length === 0) {
+        channels[channel] = new Float32Array(resampled.length);
+      }
+      for (let i = 0; i < resampled.length; i++) {
+        channels[channel][i] += resampled[i] * weight;
+      }
+    });
+  }
+
+  const buffer = context.createBuffer(
+    2,
+    channels[0].length,
+    context.sampleRate,
+  );
+  buffer.copyToChannel(channels[0], 0);
+  buffer.copyToChannel(channels[1], 1);
+  return buffer;
+}
+
+/**
+ * 音源の位置に合わせてHRIRと距離減衰を更新
+ * HRIRは使っていない側の Convolver に設定してからクロスフェードで切り替える
+ * 直前の切り替えから間もない場合は差し替えずに false を返す
+ */
+export function updateHrirSpatializer(
+  nodes: HrirSpatializerNodes,
+  hrirSet: HrirSet,
+  position: Position3D,
+  config: SpatialAudioConfig,
+  interpolation: HrirInterpolation,
+): boolean {
+  const { context } = nodes.output;
+  const currentTime = context.currentTime;
+  const distance = Math.hypot(position.x, position.y, position.z);
+
+  nodes.output.gain.setTargetAtTime(
+    getDistanceGain(distance * POSITION_SCALE, config),
+    currentTime,
+    CROSSFADE_TIME,
+  );
+
+  // 原点では方向が決まらないため正面として扱う
+  const direction =
+    distance > 0
+      ? {
+          x: position.x / distance,
+          y: position.y / distance,
+          z: position.z / distance,
+        }
+      : { x: 0, y: 0, z: -1 };
+  const selection = selectMeasurements(hrirSet, direction, interpolation);
+  const key = selection
+    .map(({ index, weight }) => `${index}@${weight.toFixed(2)}`)
+    .join(",");
+
+  if (hrirSet === nodes.hrirSet && key === nodes.key) return true;
+  // 初回以外は、直前のクロスフェードが終わるまで待つ
+  if (
+    nodes.key !== null &&
+    currentTime - nodes.switchedAt < MIN_SWITCH_INTERVAL
+  ) {
+    return false;
+  }
+
+  const next = nodes.active === 0 ? 1 : 0;
+  nodes.convolvers[next].buffer = createHrirBuffer(context, hrirSet, selection);
+
+  if (nodes.key === null) {
+    // 初回はフェードせずに切り替える
+    nodes.fades[next].gain.setValueAtTime(1, currentTime);
+    nodes.fades[nodes.active].gain.setValueAtTime(0, currentTime);
+  } else {
+    nodes.fades[next].gain.setTargetAtTime(1, currentTime, CROSSFADE_TIME);
+    nodes.fades[nodes.active].gain.setTargetAtTime(
+      0,
+      currentTime,
+      CROSSFADE_TIME,
+    );
+  }
+
+  nodes.active = next;
+  nodes.hrirSet = hrirSet;
+  nodes.key = key;
+  nodes.switchedAt = currentTime;
+  return true;
+}
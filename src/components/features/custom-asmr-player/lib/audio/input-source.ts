@@ -0,0 +1,18 @@
+/**
+ * Input Source
+ *
+ * 空間音響グラフに入力する音声ソースの種類
+ */
+
+// 入力ソースの種類
+export type InputSourceType =
+  | "tab" // タブ音声キャプチャ
+  | "file" // ローカルファイル
+  | "mic"; // マイク / ライン入力
+
+// 入力ソースの表示名
+export const INPUT_SOURCE_LABELS: Record<InputSourceType, string> = {
+  tab: "タブ音声",
+  file: "ファイル",
+  mic: "マイク",
+};
@@ -0,0 +1,131 @@
+/**
+ * Level Meter
+ *
+ * 出力の音量（ピーク・RMS）と周波数スペクトルを測るための AnalyserNode 群
+ * メーターとスペクトルはリミッターの後ろから分岐させるため、聞こえている音をそのまま測る
+ * 入力が届いているかどうかは、音量や処理の影響を受けないよう処理前の音源から分岐させて測る
+ */
+
+// 左右チャンネルの数
+const METER_CHANNELS = 2;
+
+// 時間波形を読み取るサンプル数
+const METER_FFT_SIZE = 2048;
+
+// スペクトルの解像度となめらかさ
+const SPECTRUM_FFT_SIZE = 2048;
+const SPECTRUM_SMOOTHING = 0.8;
+
+// 表示するスペクトルの下限・上限 (dB)
+export const SPECTRUM_MIN_DECIBELS = -90;
+export const SPECTRUM_MAX_DECIBELS = -10;
+
+// メーターの表示範囲の下限 (dBFS)
+export const METER_MIN_DECIBELS = -60;
+
+// 音量計測用のノード
+export interface LevelMeterNodes {
+  // 出力から分岐させる入力
+  input: GainNode;
+  splitter: ChannelSplitterNode;
+  // チャンネルごとの時間波形
+  channels: AnalyserNode[];
+  // 左右を混ぜたスペクトル
+  spectrum: AnalyserNode;
+  // 処理前の音源から分岐させる、入力の有無の判定用
+  signal: AnalyserNode;
+}
+
+// チャンネルごとの音量（dBFS）
+export interface ChannelLevel {
+  peak: number;
+  rms: number;
+}
+
+/**
+ * 音量計測用のノードを作成
+ * 内部の接続は作成時に済ませ、外からは input につなぐだけでよい
+ */
+export function createLevelMeterNodes(
+  context: BaseAudioContext,
+): LevelMeterNodes {
+  const input = context.createGain();
+  const splitter = context.createChannelSplitter(METER_CHANNELS);
+  const channels = Array.from({ length: METER_CHANNELS }, (_, index) => {
+    const analyser = context.createAnalyser();
+    analyser.fftSize = METER_FFT_SIZE;
+    splitter.connect(analyser, index);
+    return analyser;
+  });
+
+  const spectrum = context.createAnalyser();
+  spectrum.fftSize = SPECTRUM_FFT_SIZE;
+  spectrum.smoothingTimeConstant = SPECTRUM_SMOOTHING;
+  spectrum.minDecibels = SPECTRUM_MIN_DECIBELS;
+  spectrum.maxDecibels = SPECTRUM_MAX_DECIBELS;
+
+  const signal = context.createAnalyser();
+  signal.fftSize = METER_FFT_SIZE;
+
+  input.connect(splitter);
+  input.connect(spectrum);
+
+  return { input, splitter, channels, spectrum, signal };
+}
+
+/**
+ * 振幅をデシベルに変換（無音は表示範囲の下限）
+ */
+export function amplitudeToDecibels(amplitude: number): number {
+  if (amplitude <= 0) return METER_MIN_DECIBELS;
+  return Math.max(METER_MIN_DECIBELS, 20 * Math.log10(amplitude));
+}
+
+/**
+ * チャンネルごとのピークとRMSを読み取る
+ * buffer は読み取りに使う作業領域（METER_FFT_SIZE 以上の長さ）
+ */
+export function readChannelLevels(
+  meter: LevelMeterNodes,
+  buffer: Float32Array<ArrayBuffer>,
+): ChannelLevel[] {
+  return meter.channels.map((analyser) => {
+    analyser.getFloatTimeDomainData(buffer);
+
+    let peak = 0;
+    let sum = 0;
+    for (let i = 0; i < analyser.fftSize; i++) {
+      const sample = Math.abs(buffer[i]);
+      peak = Math.max(peak, sample);
+      sum += sample * sample;
+    }
+    return {
+      peak: amplitudeToDecibels(peak),
+      rms: amplitudeToDecibels(Math.sqrt(sum / analyser.fftSize)),
+    };
+  });
+}
+
+/**
+ * 処理前の入力のピーク（dBFS）を読み取る
+ * buffer は readChannelLevels と同じ作業領域を使える
+ */
+export function readSignalPeak(
+  meter: LevelMeterNodes,
+  buffer: Float32Array<ArrayBuffer>,
+): number {
+  meter.signal.getFloatTimeDomainData(buffer);
+
+  let peak = 0;
+  for (let i = 0; i < meter.signal.fftSize; i++) {
+    peak = Math.max(peak, Math.abs(buffer[i]));
+  }
+  return amplitudeToDecibels(peak);
+}
+
+/**
+ * 読み取りに使う作業領域を作成
+ */
+export function createMeterBuffer(): Float32Array<ArrayBuffer> {
+  return new Float32Array(METER_FFT_SIZE);
+}
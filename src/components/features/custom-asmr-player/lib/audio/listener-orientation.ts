@@ -0,0 +1,155 @@
+/**
+ * Listener Orientation
+ *
+ * リスナーの頭の向き（ヨー・ピッチ・ロール）を扱うユーティリティ
+ * PannerNode には AudioListener の向きとして、HRIRやバイノーラルなど
+ * 自前で定位を計算するバックエンドには頭から見た音源の位置として反映する
+ */
+
+import type { Position3D } from "./spatial-audio-engine";
+
+// 頭の向き（度）
+export interface ListenerOrientation {
+  yaw: number; // 左右の向き（右を向くと正）
+  pitch: number; // 上下の向き（上を向くと正）
+  roll: number; // 首の傾き（右に傾けると正）
+}
+
+// 正面を向いた状態
+export const DEFAULT_ORIENTATION: ListenerOrientation = {
+  yaw: 0,
+  pitch: 0,
+  roll: 0,
+};
+
+// 各軸の範囲（度）
+export const ORIENTATION_LIMITS: Record<keyof ListenerOrientation, number> = {
+  yaw: 180,
+  pitch: 90,
+  roll: 90,
+};
+
+// 値の変化をなめらかにする時定数（秒）
+const SMOOTHING_TIME = 0.02;
+
+// 頭の向きを表す基底ベクトル
+interface OrientationAxes {
+  forward: Position3D;
+  up: Position3D;
+  right: Position3D;
+}
+
+/**
+ * 角度を -180 から 180 度の範囲に収める
+ */
+export function wrapDegrees(degrees: number): number {
+  const wrapped = (((degrees + 180) % 360) + 360) % 360;
+  return wrapped - 180;
+}
+
+/**
+ * 頭の向きを範囲内に収める（ヨーは一周させ、ピッチとロールは端で止める）
+ */
+export function clampOrientation(
+  orientation: ListenerOrientation,
+): ListenerOrientation {
+  const clamp = (value: number, limit: number) =>
+    Math.max(-limit, Math.min(limit, value));
+  return {
+    yaw: wrapDegrees(orientation.yaw),
+    pitch: clamp(orientation.pitch, ORIENTATION_LIMITS.pitch),
+    roll: clamp(orientation.roll, ORIENTATION_LIMITS.roll),
+  };
+}
+
+/**
+ * 頭の向きから前・上・右のベクトルを計算
+ * ヨー → ピッチ → ロールの順に回転させる（エンジンの座標系は x: 右, y: 上, -z: 前）
+ */
+function getOrientationAxes(orientation: ListenerOrientation): OrientationAxes {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const yaw = toRadians(orientation.yaw);
+  const pitch = toRadians(orientation.pitch);
+  const roll = toRadians(orientation.roll);
+
+  const forward = {
+    x: Math.cos(pitch) * Math.sin(yaw),
+    y: Math.sin(pitch),
+    z: -Math.cos(pitch) * Math.cos(yaw),
+  };
+  // ピッチは右向きの軸まわりの回転のため、右ベクトルはヨーだけで決まる
+  const flatRight = { x: Math.cos(yaw), y: 0, z: Math.sin(yaw) };
+  // 上 = 右 × 前
+  const flatUp = {
+    x: flatRight.y * forward.z - flatRight.z * forward.y,
+    y: flatRight.z * forward.x - flatRight.x * forward.z,
+    z: flatRight.x * forward.y - flatRight.y * forward.x,
+  };
+
+  // ロールは前向きの軸まわりに上と右を回す
+  const cos = Math.cos(roll);
+  const sin = Math.sin(roll);
+  return {
+    forward,
+    up: {
+      x: flatUp.x * cos + flatRight.x * sin,
+      y: flatUp.y * cos + flatRight.y * sin,
+      z: flatUp.z * cos + flatRight.z * sin,
+    },
+    right: {
+      x: flatRight.x * cos - flatUp.x * sin,
+      y: flatRight.y * cos - flatUp.y * sin,
+      z: flatRight.z * cos - flatUp.z * sin,
+    },
+  };
+}
+
+/**
+ * AudioListener に渡す前方向と上方向のベクトルを計算
+ */
+export function orientationToVectors(orientation: ListenerOrientation): {
+  forward: Position3D;
+  up: Position3D;
+} {
+  const { forward, up } = getOrientationAxes(orientation);
+  return { forward, up };
+}
+
+/**
+ * 空間に固定された音源の位置を、頭から見た位置に変換
+ * 頭が右を向くと、正面の音源は左から聞こえるようになる
+ */
+export function toListenerSpace(
+  position: Position3D,
+  orientation: ListenerOrientation,
+): Position3D {
+  const { forward, up, right } = getOrientationAxes(orientation);
+  const dot = (axis: Position3D) =>
+    position.x * axis.x + position.y * axis.y + position.z * axis.z;
+  return { x: dot(right), y: dot(up), z: -dot(forward) };
+}
+
+/**
+ * 再生中の AudioListener の向きをなめらかに更新
+ */
+export function updateListenerOrientation(
+  context: BaseAudioContext,
+  orientation: ListenerOrientation,
+): void {
+  const { listener } = context;
+  if (!listener.forwardX) return;
+
+  const { forward, up } = orientationToVectors(orientation);
+  const targets: [AudioParam, number][] = [
+    [listener.forwardX, forward.x],
+    [listener.forwardY, forward.y],
+    [listener.forwardZ, forward.z],
+    [listener.upX, up.x],
+    [listener.upY, up.y],
+    [listener.upZ, up.z],
+  ];
+
+  for (const [param, value] of targets) {
+    param.setTargetAtTime(value, context.currentTime, SMOOTHING_TIME);
+  }
+}
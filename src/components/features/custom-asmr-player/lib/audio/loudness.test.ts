@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import {
+  getLoudnessReading,
+  LOUDNESS_FLOOR,
+  meanSquareToLoudness,
+  pushLoudnessBlock,
+} from "./loudness";
+
+describe("meanSquareToLoudness", () => {
+  it("フルスケールの平均二乗値は -0.691 LUFS", () => {
+    expect(meanSquareToLoudness(1)).toBeCloseTo(-0.691);
+  });
+
+  it("平均二乗値が 1/10 になると 10 LU 下がる", () => {
+    expect(meanSquareToLoudness(0.1)).toBeCloseTo(-10.691);
+  });
+
+  it("無音やごく小さい値は下限に揃える", () => {
+    expect(meanSquareToLoudness(0)).toBe(LOUDNESS_FLOOR);
+    expect(meanSquareToLoudness(1e-12)).toBe(LOUDNESS_FLOOR);
+  });
+});
+
+describe("getLoudnessReading", () => {
+  it("履歴がなければどちらも下限", () => {
+    expect(getLoudnessReading([])).toEqual({
+      momentary: LOUDNESS_FLOOR,
+      shortTerm: LOUDNESS_FLOOR,
+    });
+  });
+
+  it("モーメンタリーは直近の4ブロックだけを平均する", () => {
+    const blocks = [...Array(26).fill(0), 1, 1, 1, 1];
+    const reading = getLoudnessReading(blocks);
+
+    expect(reading.momentary).toBeCloseTo(meanSquareToLoudness(1));
+    expect(reading.shortTerm).toBeCloseTo(meanSquareToLoudness(4 / 30));
+  });
+});
+
+describe("pushLoudnessBlock", () => {
+  it("ショートタームに必要な30ブロックだけを残す", () => {
+    let blocks: number[] = [];
+    for (let i = 0; i < 40; i++) {
+      blocks = pushLoudnessBlock(blocks, i);
+    }
+
+    expect(blocks).toHaveLength(30);
+    expect(blocks[0]).toBe(10);
+    expect(blocks.at(-1)).toBe(39);
+  });
+});
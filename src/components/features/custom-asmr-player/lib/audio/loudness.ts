@@ -0,0 +1,137 @@
+/**
+ * Loudness
+ *
+ * ITU-R BS.1770 に近い方法でラウドネス (LUFS) を測るためのノードと計算
+ * K特性は BiquadFilterNode で近似し、AnalyserNode から一定間隔で読み取ったブロックを平均する
+ */
+
+// 左右チャンネルの数
+const LOUDNESS_CHANNELS = 2;
+
+// 1回に読み取るサンプル数（読み取り間隔ぶんの音をおおむね覆う長さ）
+const LOUDNESS_FFT_SIZE = 4096;
+
+// 読み取り間隔（ミリ秒）
+export const LOUDNESS_BLOCK_INTERVAL = 100;
+
+// モーメンタリー (400ms) とショートターム (3秒) に使うブロック数
+const MOMENTARY_BLOCKS = 4;
+const SHORT_TERM_BLOCKS = 30;
+
+// これより小さい値は無音として扱う (LUFS)
+export const LOUDNESS_FLOOR = -70;
+
+// K特性の近似（高域のシェルフと低域のハイパス）
+const K_SHELF_FREQUENCY = 1681.97;
+const K_SHELF_GAIN = 4;
+const K_HIGHPASS_FREQUENCY = 38.13;
+const K_HIGHPASS_Q = 0.5;
+
+// ラウドネス計測用のノード
+// Input -> K特性 (Highshelf -> Highpass) -> Splitter -> チャンネルごとの Analyser
+export interface LoudnessMeterNodes {
+  input: GainNode;
+  shelf: BiquadFilterNode;
+  highpass: BiquadFilterNode;
+  splitter: ChannelSplitterNode;
+  channels: AnalyserNode[];
+}
+
+// 直近のブロックから計算したラウドネス (LUFS)
+export interface LoudnessReading {
+  momentary: number;
+  shortTerm: number;
+}
+
+/**
+ * ラウドネス計測用のノードを作成
+ * 内部の接続は作成時に済ませ、外からは input につなぐだけでよい
+ */
+export function createLoudnessMeterNodes(
+  context: BaseAudioContext,
+): LoudnessMeterNodes {
+  const input = context.createGain();
+
+  const shelf = context.createBiquadFilter();
+  shelf.type = "highshelf";
+  shelf.frequency.value = K_SHELF_FREQUENCY;
+  shelf.gain.value = K_SHELF_GAIN;
+
+  const highpass = context.createBiquadFilter();
+  highpass.type = "highpass";
+  highpass.frequency.value = K_HIGHPASS_FREQUENCY;
+  highpass.Q.value = K_HIGHPASS_Q;
+
+  const splitter = context.createChannelSplitter(LOUDNESS_CHANNELS);
+  const channels = Array.from({ length: LOUDNESS_CHANNELS }, (_, index) => {
+    const analyser = context.createAnalyser();
+    analyser.fftSize = LOUDNESS_FFT_SIZE;
+    splitter.connect(analyser, index);
+    return analyser;
+  });
+
+  input.connect(shelf);
+  shelf.connect(highpass);
+  highpass.connect(splitter);
+
+  return { input, shelf, highpass, splitter, channels };
+}
+
+/**
+ * 平均二乗値をラウドネス (LUFS) に変換
+ */
+export function meanSquareToLoudness(meanSquare: number): number {
+  if (meanSquare <= 0) return LOUDNESS_FLOOR;
+  return Math.max(LOUDNESS_FLOOR, -0.691 + 10 * Math.log10(meanSquare));
+}
+
+/**
+ * 直近のブロックの平均二乗値（左右の合計）を読み取る
+ * buffer は読み取りに使う作業領域（LOUDNESS_FFT_SIZE 以上の長さ）
+ */
+export function readLoudnessBlock(
+  meter: LoudnessMeterNodes,
+  buffer: Float32Array<ArrayBuffer>,
+): number {
+  let total = 0;
+  for (const analyser of meter.channels) {
+    analyser.getFloatTimeDomainData(buffer);
+
+    let sum = 0;
+    for (let i = 0; i < analyser.fftSize; i++) {
+      sum += buffer[i] * buffer[i];
+    }
+    total += sum / analyser.fftSize;
+  }
+  return total;
+}
+
+/**
+ * 読み取ったブロックの履歴からラウドネスを計算
+ * blocks は古い順で、ショートタームより古いものは使わない
+ */
+export function getLoudnessReading(blocks: number[]): LoudnessReading {
+  const average = (count: number) => {
+    const recent = blocks.slice(-count);
+    if (recent.length === 0) return 0;
+    return recent.reduce((sum, value) => sum + value, 0) / recent.length;
+  };
+  return {
+    momentary: meanSquareToLoudness(average(MOMENTARY_BLOCKS)),
+    shortTerm: meanSquareToLoudness(average(SHORT_TERM_BLOCKS)),
+  };
+}
+
+/**
+ * ブロックの履歴に追加（ショートタームに必要な数だけ残す）
+ */
+export function pushLoudnessBlock(blocks: number[], block: number): number[] {
+  return [...blocks, block].slice(-SHORT_TERM_BLOCKS);
+}
+
+/**
+ * 読み取りに使う作業領域を作成
+ */
+export function createLoudnessBuffer(): Float32Array<ArrayBuffer> {
+  return new Float32Array(LOUDNESS_FFT_SIZE);
+}
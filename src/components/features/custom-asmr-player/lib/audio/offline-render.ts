@@ -0,0 +1,312 @@
+/**
+ * Offline Render
+ *
+ * 読み込んだ音声ファイルと記録した動きを OfflineAudioContext でレンダリングし、
+ * ライブ再生と同じ空間音響を適用したステレオ音声を作成する
+ */
+
+import {
+  getMotionPathDuration,
+  getMotionPathTime,
+  interpolateMotionPath,
+  type MotionKeyframe,
+  type MotionLoopMode,
+  scheduleMotionPass,
+} from "../motion/motion-path";
+import {
+  loadBinauralProcessor,
+  updateBinauralPosition,
+} from "./binaural-renderer";
+import { updateDistanceEffects } from "./distance-effects";
+import {
+  createDynamicsNodes,
+  type DynamicsSettings,
+  updateDynamics,
+} from "./dynamics";
+import {
+  createEnvironmentNodes,
+  type EnvironmentSettings,
+  getReverbParams,
+  updateEnvironmentImpulse,
+  updateEnvironmentMix,
+} from "./environment";
+import {
+  createEqualizerNodes,
+  type EqualizerSettings,
+  updateEqualizer,
+} from "./equalizer";
+import { updateHrirSpatializer } from "./hrir-spatializer";
+import {
+  DEFAULT_ORIENTATION,
+  type ListenerOrientation,
+  orientationToVectors,
+  toListenerSpace,
+} from "./listener-orientation";
+import type { HrirSet } from "./sofa";
+import {
+  connectAudioGraph,
+  createBufferSource,
+  createChannelSplitter,
+  createGainNode,
+  createVirtualSource,
+  type InputMode,
+  POSITION_SCALE,
+  type Position3D,
+  resolveRenderer,
+  type SpatialAudioConfig,
+  type SpatialAudioNodes,
+  setListenerPosition,
+  type VirtualSourceKind,
+  type VirtualSourceNodes,
+} from "./spatial-audio-engine";
+
+// レンダリングする仮想音源の設定
+export interface OfflineRenderSource {
+  kind: VirtualSourceKind;
+  position: Position3D;
+  gain: number;
+  inputMode: InputMode;
+}
+
+// レンダリング中に再生する動き
+export interface OfflineMotionAutomation {
+  kind: VirtualSourceKind;
+  keyframes: MotionKeyframe[];
+  loopMode: MotionLoopMode;
+  speed: number;
+}
+
+export interface OfflineRenderOptions {
+  buffer: AudioBuffer;
+  sources: OfflineRenderSource[];
+  config: SpatialAudioConfig;
+  gain: number;
+  environment: EnvironmentSettings;
+  equalizer: EqualizerSettings;
+  // コンプレッサーとリミッターのみ使う（自動音量調整はライブ再生専用）
+  dynamics: DynamicsSettings;
+  // config.renderer が hrir のときに使うHRIRセット
+  hrirSet?: HrirSet | null;
+  // リスナーの頭の向き（レンダリング中は固定）
+  orientation?: ListenerOrientation;
+  automation?: OfflineMotionAutomation | null;
+  // 0 から 1 の進捗を通知
+  onProgress?: (progress: number) => void;
+}
+
+// 進捗を通知する回数
+const PROGRESS_STEPS = 50;
+// HRIRバックエンドで動きに合わせてHRIRを差し替える間隔（秒）
+const HRIR_UPDATE_INTERVAL = 0.05;
+// OfflineAudioContext が一時停止できる単位（サンプル数）
+const RENDER_QUANTUM = 128;
+
+// 記録した動きを曲の長さぶん予約
+// 距離フィルターとバイノーラルの定位も、頭から見た位置で同じキーフレームに動かす
+function scheduleAutomation(
+  virtualSource: VirtualSourceNodes,
+  automation: OfflineMotionAutomation,
+  config: SpatialAudioConfig,
+  orientation: ListenerOrientation,
+  duration: number,
+): void {
+  const { keyframes, loopMode, speed } = automation;
+  if (getMotionPathDuration(keyframes) <= 0) return;
+
+  let startTime = 0;
+  let pass = 0;
+  while (startTime < duration) {
+    if (loopMode === "once" && pass > 0) return;
+
+    startTime = scheduleMotionPass(virtualSource.panner, keyframes, startTime, {
+      speed,
+      reverse: loopMode === "ping-pong" && pass % 2 === 1,
+      onKeyframe: (position, time) => {
+        const relative = toListenerSpace(position, orientation);
+        updateDistanceEffects(virtualSource.effects, relative, config, time);
+        if (virtualSource.binaural) {
+          updateBinauralPosition(virtualSource.binaural, relative, time);
+        }
+      },
+    });
+    pass++;
+  }
+}
+
+/**
+ * 空間音響を適用した音声をオフラインでレンダリング
+ * ライブ再生と同じ createVirtualSource / createPannerNode の構成を使う
+ */
+export async function renderSpatialAudio(
+  options: OfflineRenderOptions,
+): Promise<AudioBuffer> {
+  const {
+    buffer,
+    sources,
+    config,
+    gain,
+    environment,
+    equalizer,
+    dynamics,
+    hrirSet: loadedHrirSet,
+    orientation = DEFAULT_ORIENTATION,
+    automation,
+    onProgress,
+  } = options;
+  const hrirSet = config.renderer === "hrir" ? (loadedHrirSet ?? null) : null;
+
+  // 残響の余韻が途切れないよう、響きの長さぶん延ばしてレンダリング
+  const reverb = getReverbParams(environment);
+  const tailLength = reverb
+    ? Math.ceil((reverb.preDelay + reverb.decay) * buffer.sampleRate)
+    : 0;
+  const context = new OfflineAudioContext(
+    2,
+    buffer.length + tailLength,
+    buffer.sampleRate,
+  );
+  const renderDuration = context.length / context.sampleRate;
+  if (config.renderer === "binaural") {
+    await loadBinauralProcessor(context);
+  }
+
+  // ライブ再生と同じグラフを構築
+  const source = createBufferSource(context, buffer);
+  const environmentNodes = createEnvironmentNodes(context);
+  updateEnvironmentImpulse(context, environmentNodes, environment);
+  updateEnvironmentMix(environmentNodes, environment);
+  const equalizerNodes = createEqualizerNodes(context);
+  updateEqualizer(equalizerNodes, equalizer, 0);
+  const dynamicsNodes = createDynamicsNodes(context);
+  updateDynamics(dynamicsNodes, dynamics);
+
+  const virtualSources = sources.map((settings) => {
+    const virtualSource = createVirtualSource(
+      context,
+      settings.kind,
+      config,
+      settings.gain,
+      settings.inputMode,
+    );
+
+    // 開始時点の位置を確定（ライブ再生のような補間は不要）
+    const { panner } = virtualSource;
+    const { x, y, z } = settings.position;
+    panner.positionX.setValueAtTime(x * POSITION_SCALE, 0);
+    panner.positionY.setValueAtTime(y * POSITION_SCALE, 0);
+    panner.positionZ.setValueAtTime(z * POSITION_SCALE, 0);
+    const relative = toListenerSpace(settings.position, orientation);
+    updateDistanceEffects(virtualSource.effects, relative, config, 0);
+    if (virtualSource.binaural) {
+      updateBinauralPosition(virtualSource.binaural, relative, 0);
+    }
+    if (hrirSet) {
+      updateHrirSpatializer(
+        virtualSource.hrir,
+        hrirSet,
+        relative,
+        config,
+        config.hrirInterpolation,
+      );
+    }
+
+    if (automation?.kind === settings.kind) {
+      scheduleAutomation(
+        virtualSource,
+        automation,
+        config,
+        orientation,
+        buffer.duration,
+      );
+    }
+    return virtualSource;
+  });
+
+  const nodes: SpatialAudioNodes<OfflineAudioContext> = {
+    context,
+    source,
+    equalizer: equalizerNodes,
+    renderer: resolveRenderer(config, hrirSet, virtualSources),
+    splitter: createChannelSplitter(context),
+    sources: virtualSources,
+    environment: environmentNodes,
+    gain: createGainNode(context, gain),
+    dynamics: dynamicsNodes,
+    meter: null,
+    recorder: null,
+  };
+  const { forward, up } = orientationToVectors(orientation);
+  setListenerPosition(context, undefined, forward, up);
+  connectAudioGraph(nodes);
+
+  // HRIRはオートメーションで動かせないため、一時停止して差し替える
+  const hrirMotion =
+    hrirSet && automation
+      ? nodes.sources.find((source) => source.kind === automation.kind)
+      : undefined;
+  const updateMotionHrir = (time: number) => {
+    if (!hrirSet || !automation || !hrirMotion) return;
+
+    const { keyframes, loopMode, speed } = automation;
+    const duration = getMotionPathDuration(keyframes);
+    if (duration <= 0) return;
+
+    const pathTime = getMotionPathTime(duration, time * speed, loopMode);
+    updateHrirSpatializer(
+      hrirMotion.hrir,
+      hrirSet,
+      toListenerSpace(
+        interpolateMotionPath(keyframes, pathTime.time),
+        orientation,
+      ),
+      config,
+      config.hrirInterpolation,
+    );
+  };
+
+  // 一定間隔で一時停止して進捗の通知とHRIRの差し替えを行う
+  // suspend に対応していないブラウザでは完了時のみ通知し、HRIRは開始位置のまま
+  if (typeof context.suspend === "function") {
+    const quantize = (time: number) =>
+      (Math.floor((time * context.sampleRate) / RENDER_QUANTUM) *
+        RENDER_QUANTUM) /
+      context.sampleRate;
+
+    // 同じ時刻に二度一時停止できないため、時刻ごとにまとめる
+    const suspensions = new Map<number, boolean>();
+    if (hrirMotion) {
+      for (
+        let t = HRIR_UPDATE_INTERVAL;
+        t < buffer.duration;
+        t += HRIR_UPDATE_INTERVAL
+      ) {
+        suspensions.set(quantize(t), false);
+      }
+    }
+    if (onProgress) {
+      for (let step = 1; step < PROGRESS_STEPS; step++) {
+        suspensions.set(
+          quantize((renderDuration * step) / PROGRESS_STEPS),
+          true,
+        );
+      }
+    }
+
+    for (const [time, reportsProgress] of suspensions) {
+      if (time <= 0) continue;
+      context
+        .suspend(time)
+        .then(() => {
+          updateMotionHrir(time);
+          if (reportsProgress) onProgress?.(time / renderDuration);
+          return context.resume();
+        })
+        .catch(() => {});
+    }
+  }
+
+  source.start(0);
+  const rendered = await context.startRendering();
+  onProgress?.(1);
+  return rendered;
+}
@@ -0,0 +1,51 @@
+/**
+ * Recording Format
+ *
+ * MediaRecorderで録音する際の形式を選択するユーティリティ
+ */
+
+// 優先順に並べた録音形式の候補
+const RECORDING_MIME_TYPES = [
+  "audio/webm;codecs=opus",
+  "audio/ogg;codecs=opus",
+  "audio/webm",
+  "audio/ogg",
+  "audio/mp4",
+];
+
+/**
+ * ブラウザが対応している録音形式を取得
+ * MediaRecorder がない、または候補に対応していない場合は null
+ */
+export function getSupportedRecordingMimeType(): string | null {
+  if (typeof MediaRecorder === "undefined") return null;
+
+  return (
+    RECORDING_MIME_TYPES.find((mimeType) =>
+      MediaRecorder.isTypeSupported(mimeType),
+    ) ?? null
+  );
+}
+
+/**
+ * MIMEタイプから書き出し用の拡張子を取得
+ */
+export function getRecordingExtension(mimeType: string): string {
+  if (mimeType.startsWith("audio/ogg")) return "ogg";
+  if (mimeType.startsWith("audio/mp4")) return "m4a";
+  return "webm";
+}
+
+/**
+ * 録音した音声をデコード
+ * 録音時のサンプルレートでデコードし、WAVへの変換に使う
+ */
+export async function decodeRecording(
+  blob: Blob,
+  sampleRate: number,
+): Promise<AudioBuffer> {
+  const data = await blob.arrayBuffer();
+  // デコードだけに使うため長さは最小でよい
+  const context = new OfflineAudioContext(2, 1, sampleRate);
+  return context.decodeAudioData(data);
+}
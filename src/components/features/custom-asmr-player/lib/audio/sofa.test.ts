@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// jsfive の代わりに、パスごとのデータセットを返すファイルを使う
+const hdf5 = vi.hoisted(() => ({
+  attrs: {} as Record<string, unknown>,
+  datasets: {} as Record<string, unknown>,
+}));
+
+vi.mock("jsfive", () => {
+  class Dataset {
+    constructor(
+      public value: ArrayLike<number>,
+      public shape: number[],
+      public attrs: Record<string, unknown> = {},
+    ) {}
+  }
+  class File {
+    attrs = hdf5.attrs;
+    get(path: string) {
+      return hdf5.datasets[path];
+    }
+  }
+  return { Dataset, File };
+});
+
+const { Dataset } = (await import("jsfive")) as unknown as {
+  Dataset: new (
+    value: ArrayLike<number>,
+    shape: number[],
+    attrs?: Record<string, unknown>,
+  ) => unknown;
+};
+const { parseSofa, resampleLinear } = await import("./sofa");
+
+// 測定点2つ（正面と左）、長さ3サンプルのHRIRを持つファイル
+function setUpSofa(positionType: "spherical" | "cartesian" = "spherical") {
+  hdf5.attrs = { SOFAConventions: ["SimpleFreeFieldHRIR"] };
+  hdf5.datasets = {
+    "Data.IR": new Dataset([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12], [2, 2, 3]),
+    "Data.SamplingRate": new Dataset([44100], [1]),
+    SourcePosition: new Dataset(
+      positionType === "spherical" ? [0, 0, 1, 90, 0, 1] : [2, 0, 0, 0, 3, 0],
+      [2, 3],
+      { Type: positionType },
+    ),
+  };
+}
+
+beforeEach(() => {
+  setUpSofa();
+});
+
+describe("parseSofa", () => {
+  it("測定点ごとに左右のHRIRを取り出す", () => {
+    const set = parseSofa(new ArrayBuffer(0), "subject.sofa");
+
+    expect(set.name).toBe("subject.sofa");
+    expect(set.sampleRate).toBe(44100);
+    expect(set.length).toBe(3);
+    expect(Array.from(set.measurements[0].left)).toEqual([1, 2, 3]);
+    expect(Array.from(set.measurements[0].right)).toEqual([4, 5, 6]);
+    expect(Array.from(set.measurements[1].left)).toEqual([7, 8, 9]);
+    expect(Array.from(set.measurements[1].right)).toEqual([10, 11, 12]);
+  });
+
+  it("球座標の方位角は前から左回りとしてエンジンの座標系に変換する", () => {
+    const [front, left] = parseSofa(
+      new ArrayBuffer(0),
+      "subject.sofa",
+    ).measurements;
+
+    expect(front.direction.x).toBeCloseTo(0);
+    expect(front.direction.z).toBeCloseTo(-1);
+    expect(left.direction.x).toBeCloseTo(-1);
+    expect(left.direction.z).toBeCloseTo(0);
+  });
+
+  it("直交座標は正規化してエンジンの座標系に変換する", () => {
+    setUpSofa("cartesian");
+    const [front, left] = parseSofa(
+      new ArrayBuffer(0),
+      "subject.sofa",
+    ).measurements;
+
+    expect(front.direction).toEqual({ x: -0, y: 0, z: -1 });
+    expect(left.direction).toEqual({ x: -1, y: 0, z: -0 });
+  });
+
+  it("対応していない規約は読み込まない", () => {
+    hdf5.attrs = { SOFAConventions: "GeneralFIR" };
+
+    expect(() => parseSofa(new ArrayBuffer(0), "subject.sofa")).toThrow(
+      "Unsupported SOFA convention",
+    );
+  });
+
+  it("必要な変数が欠けていれば読み込まない", () => {
+    delete hdf5.datasets["Data.SamplingRate"];
+
+    expect(() => parseSofa(new ArrayBuffer(0), "subject.sofa")).toThrow(
+      "Missing SOFA variables",
+    );
+  });
+
+  it("左右2つの受音点がなければ読み込まない", () => {
+    hdf5.datasets["Data.IR"] = new Dataset([1, 2, 3], [1, 1, 3]);
+
+    expect(() => parseSofa(new ArrayBuffer(0), "subject.sofa")).toThrow(
+      "SOFA file must contain stereo HRIRs",
+    );
+  });
+});
+
+describe("resampleLinear", () => {
+  it("同じサンプルレートならそのまま返す", () => {
+    const data = Float32Array.from([1, 2, 3]);
+
+    expect(resampleLinear(data, 48000, 48000)).toBe(data);
+  });
+
+  it("アップサンプリングは間を直線で補う", () => {
+    expect(
+      Array.from(resampleLinear(Float32Array.from([0, 1, 0]), 24000, 48000)),
+    ).toEqual([0, 0.5, 1, 0.5, 0, 0]);
+  });
+
+  it("ダウンサンプリングは長さを比率に合わせる", () => {
+    expect(
+      Array.from(resampleLinear(Float32Array.from([0, 1, 2, 3]), 48000, 24000)),
+    ).toEqual([0, 2]);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * SOFA
+ *
+ * SOFA (AES69) 形式のHRIRセットを読み込むユーティリティ
+ * SimpleFreeFieldHRIR 規約のファイルから、方向ごとの左右インパルス応答を取り出す
+ */
+
+import { Dataset, File as Hdf5File } from "jsfive";
+import type { Position3D } from "./spatial-audio-engine";
+
+// 方向ごとのHRIR
+export interface HrirMeasurement {
+  // リスナーから見た方向（エンジンの座標系の単位ベクトル）
+  direction: Position3D;
+  left: Float32Array;
+  right: Float32Array;
+}
+
+// 読み込んだHRIRセット
+export interface HrirSet {
+  name: string;
+  sampleRate: number;
+  length: number;
+  measurements: HrirMeasurement[];
+}
+
+// ファイル選択ダイアログに渡す accept 属性
+export const SOFA_FILE_ACCEPT = ".sofa";
+
+// 対応している規約
+const SUPPORTED_CONVENTION = "SimpleFreeFieldHRIR";
+
+// データセットを取得（存在しない場合は null）
+function readDataset(file: Hdf5File, path: string): Dataset | null {
+  try {
+    const object = file.get(path);
+    return object instanceof Dataset ? object : null;
+  } catch {
+    return null;
+  }
+}
+
+// 文字列の属性を取得（配列で格納されている場合は先頭）
+function readStringAttribute(
+  attrs: Record<string, unknown>,
+  name: string,
+): string | null {
+  const value = attrs[name];
+  if (typeof value === "string") return value;
+  if (Array.isArray(value) && typeof value[0] === "string") return value[0];
+  return null;
+}
+
+// 長さ1に正規化
+function normalize(vector: Position3D): Position3D {
+  const length = Math.hypot(vector.x, vector.y, vector.z) || 1;
+  return { x: vector.x / length, y: vector.y / length, z: vector.z / length };
+}
+
+/**
+ * SOFAの音源位置をエンジンの座標系の方向に変換
+ * SOFA は X: 前, Y: 左, Z: 上、エンジンは x: 右, y: 上, -z: 前
+ * 球座標は方位角が前から左回り、仰角が上向きを正とする（度）
+ */
+function toDirection(
+  coordinates: [number, number, number],
+  isCartesian: boolean,
+): Position3D {
+  if (isCartesian) {
+    const [front, left, up] = coordinates;
+    return normalize({ x: -left, y: up, z: -front });
+  }
+
+  const [azimuthDeg, elevationDeg] = coordinates;
+  const azimuth = (azimuthDeg * Math.PI) / 180;
+  const elevation = (elevationDeg * Math.PI) / 180;
+  return {
+    x: -Math.cos(elevation) * Math.sin(azimuth),
+    y: Math.sin(elevation),
+    z: -Math.cos(elevation) * Math.cos(azimuth),
+  };
+}
+
+/**
+ * 線形補間でサンプルレートを変換
+ * HRIRは数百サンプル程度と短いため、単純な補間で十分
+ */
+export function resampleLinear(
+  data: Float32Array,
+  fromRate: number,
+  toRate: number,
+): Float32Array {
+  if (fromRate === toRate) return data;
+
+  const length = Math.max(1, Math.round((data.length * toRate) / fromRate));
+  const result = new Float32Array(length);
+  const ratio = fromRate / toRate;
+
+  for (let i = 0; i < length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, data.length - 1);
+    const fraction = position - index;
+    result[i] =
+      (data[index] ?? 0) * (1 - fraction) + (data[next] ?? 0) * fraction;
+  }
+
+  return result;
+}
+
+/**
+ * SOFAファイルを解析してHRIRセットを作成
+ * 対応していない規約やデータが欠けている場合は例外を投げる
+ */
+export function parseSofa(data: ArrayBuffer, name: string): HrirSet {
+  const file = new Hdf5File(data, name);
+
+  const convention = readStringAttribute(file.attrs, "SOFAConventions");
+  if (convention && convention !== SUPPORTED_CONVENTION) {
+    throw new Error(`Unsupported SOFA convention: ${convention}`);
+  }
+
+  const ir = readDataset(file, "Data.IR");
+  const sampleRateData = readDataset(file, "Data.SamplingRate");
+  const sourcePosition = readDataset(file, "SourcePosition");
+  if (!ir || !sampleRateData || !sourcePosition) {
+    throw new Error("Missing SOFA variables");
+  }
+
+  // Data.IR は [測定数, 受音点数, サンプル数]
+  const [count, receivers, length] = ir.shape;
+  if (receivers !== 2 || !count || !length) {
+    throw new Error("SOFA file must contain stereo HRIRs");
+  }
+
+  const irValues = ir.value as ArrayLike<number>;
+  const positions = sourcePosition.value as ArrayLike<number>;
+  const sampleRate = Number((sampleRateData.value as ArrayLike<number>)[0]);
+  const isCartesian =
+    readStringAttribute(sourcePosition.attrs, "Type") === "cartesian";
+
+  const measurements: HrirMeasurement[] = [];
+  for (let m = 0; m < count; m++) {
+    const offset = m * receivers * length;
+    measurements.push({
+      direction: toDirection(
+        [positions[m * 3], positions[m * 3 + 1], positions[m * 3 + 2]],
+        isCartesian,
+      ),
+      left: Float32Array.from({ length }, (_, i) => irValues[offset + i]),
+      right: Float32Array.from(
+        { length },
+        (_, i) => irValues[offset + length + i],
+      ),
+    });
+  }
+
+  return { name, sampleRate, length, measurements };
+}
+
+/**
+ * SOFAファイルを読み込む
+ */
+export async function loadSofaFile(file: File): Promise<HrirSet> {
+  const data = await file.arrayBuffer();
+  return parseSofa(data, file.name);
+}
@@ -0,0 +1,65 @@
+/**
+ * Source Layout
+ *
+ * キャプチャした1つのストリームを、どの仮想音源に分割して配置するかの定義
+ * ステレオ音声を複数の音源に分けることで、リスナーの周囲に音場を広げる
+ */
+
+import type { InputMode, VirtualSourceKind } from "./spatial-audio-engine";
+
+// 音源レイアウト
+export type SourceLayout =
+  | "single" // ステレオのまま1音源
+  | "stereo" // 左右チャンネルを2音源に
+  | "mid-side" // ミッド/サイド成分を2音源に
+  | "quad"; // 左右 + ミッド/サイドの4音源
+
+// レイアウトごとの仮想音源
+export const SOURCE_LAYOUTS: Record<SourceLayout, VirtualSourceKind[]> = {
+  single: ["full"],
+  stereo: ["left", "right"],
+  "mid-side": ["mid", "side"],
+  quad: ["left", "right", "mid", "side"],
+};
+
+// レイアウトの表示名
+export const SOURCE_LAYOUT_LABELS: Record<SourceLayout, string> = {
+  single: "シングル",
+  stereo: "ステレオ分割 (L/R)",
+  "mid-side": "ミッド/サイド分割",
+  quad: "4音源 (L/R/M/S)",
+};
+
+// 仮想音源の表示名
+export const VIRTUAL_SOURCE_LABELS: Record<
+  VirtualSourceKind,
+  { name: string; short: string }
+> = {
+  full: { name: "ステレオ", short: "🔊" },
+  left: { name: "左チャンネル", short: "L" },
+  right: { name: "右チャンネル", short: "R" },
+  mid: { name: "ミッド", short: "M" },
+  side: { name: "サイド", short: "S" },
+};
+
+// 入力の処理の表示名
+export const INPUT_MODE_LABELS: Record<InputMode, string> = {
+  stereo: "ステレオのまま",
+  mono: "モノラル (L+R)",
+  left: "左のみ",
+  right: "右のみ",
+  side: "サイド (L−R)",
+  "phase-invert": "位相反転チェック",
+};
+
+// 仮想音源の初期配置（パッド座標）
+export const DEFAULT_SOURCE_PAD_POSITIONS: Record<
+  VirtualSourceKind,
+  { padX: number; padY: number }
+> = {
+  full: { padX: 0, padY: 0.5 },
+  left: { padX: -0.7, padY: 0.3 },
+  right: { padX: 0.7, padY: 0.3 },
+  mid: { padX: 0, padY: 0.6 },
+  side: { padX: 0, padY: -0.6 },
+};
@@ -5,6 +5,29 @@
  * PannerNode (HRTF) を使用して、音源の位置を3D空間に配置
  */
 
+import {
+  type BinauralRendererNodes,
+  createBinauralRenderer,
+} from "./binaural-renderer";
+import {
+  createDistanceEffectNodes,
+  type DistanceEffectNodes,
+} from "./distance-effects";
+import type { DynamicsNodes } from "./dynamics";
+import {
+  connectEnvironment,
+  disconnectEnvironment,
+  type EnvironmentNodes,
+} from "./environment";
+import type { EqualizerNodes } from "./equalizer";
+import {
+  createHrirSpatializer,
+  type HrirInterpolation,
+  type HrirSpatializerNodes,
+} from "./hrir-spatializer";
+import type { LevelMeterNodes } from "./level-meter";
+import type { HrirSet } from "./sofa";
+
 // 3D空間での位置
 export interface Position3D {
   x: number; // 左右 (-1: 左, 1: 右)
@@ -12,6 +35,12 @@ export interface Position3D {
   z: number; // 前後 (-1: 後ろ, 1: 前)
 }
 
+// 定位のレンダリング方式
+export type SpatialRenderer =
+  | "panner" // ブラウザ内蔵の PannerNode
+  | "hrir" // 読み込んだHRIRセットとの畳み込み
+  | "binaural"; // AudioWorklet による頭部モデルの計算
+
 // エンジンの設定
 export interface SpatialAudioConfig {
   // 最大距離（この距離で音量が0になる）
@@ -24,6 +53,18 @@ export interface SpatialAudioConfig {
   panningModel: PanningModelType;
   // 距離モデル
   distanceModel: DistanceModelType;
+  // 遠い音源の高域を落とす（空気吸収）
+  airAbsorption: boolean;
+  // 耳元の音源の低域と左右差を強める（近接効果）
+  proximityEffect: boolean;
+  // レンダリング方式（HRIRセットやワークレットが使えない場合は panner で動作）
+  renderer: SpatialRenderer;
+  // HRIRの選び方
+  hrirInterpolation: HrirInterpolation;
+  // 頭の半径 (cm)（binaural で使用）
+  headRadius: number;
+  // 反対の耳に回り込ませる量 (0 から 1)（binaural で使用）
+  crossfeed: number;
 }
 
 // デフォルト設定
@@ -33,14 +74,113 @@ export const DEFAULT_CONFIG: SpatialAudioConfig = {
   rolloffFactor: 1,
   panningModel: "HRTF",
   distanceModel: "inverse",
+  airAbsorption: true,
+  proximityEffect: true,
+  renderer: "panner",
+  hrirInterpolation: "interpolated",
+  headRadius: 8.75,
+  crossfeed: 0,
 };
 
-// エンジンのノード構成
-export interface SpatialAudioNodes {
-  context: AudioContext;
-  source: MediaStreamAudioSourceNode | null;
+// 距離パラメータの範囲（範囲外の値は PannerNode が RangeError を投げる場合がある）
+export const MIN_REF_DISTANCE = 0.1;
+export const MAX_REF_DISTANCE = 5;
+export const MIN_MAX_DISTANCE = 1;
+export const MAX_MAX_DISTANCE = 50;
+export const MAX_ROLLOFF_FACTOR = 5;
+
+// 仮想音源の種類（キャプチャしたステレオ音声から取り出す成分）
+export type VirtualSourceKind =
+  | "full" // ステレオのまま
+  | "left" // 左チャンネル
+  | "right" // 右チャンネル
+  | "mid" // ミッド成分 (L+R)/2
+  | "side"; // サイド成分 (L-R)/2
+
+// Panner に入れる前の入力の処理
+export type InputMode =
+  | "stereo" // ステレオのまま
+  | "mono" // L+R を混ぜたモノラル（ミッド成分と同じ）
+  | "left" // 左チャンネルのみ
+  | "right" // 右チャンネルのみ
+  | "side" // サイド成分 (L-R)/2
+  | "phase-invert"; // 右チャンネルの極性を反転したステレオ（位相の確認用）
+
+// 入力の処理ごとに左右チャンネルにかける係数
+// 出力チャンネルごとの [左, 右] で、1行ならモノラル、2行ならステレオで出力する
+// stereo はスプリッターを通さずにそのまま入力する
+const INPUT_MODE_MATRICES: Record<
+  Exclude<InputMode, "stereo">,
+  [number, number][]
+> = {
+  mono: [[0.5, 0.5]],
+  left: [[1, 0]],
+  right: [[0, 1]],
+  side: [[0.5, -0.5]],
+  "phase-invert": [
+    [1, 0],
+    [0, -1],
+  ],
+};
+
+// 仮想音源ごとの入力の処理の初期値（レイアウトで取り出す成分）
+export const DEFAULT_INPUT_MODES: Record<VirtualSourceKind, InputMode> = {
+  full: "stereo",
+  left: "left",
+  right: "right",
+  mid: "mono",
+  side: "side",
+};
+
+// スプリッターのチャンネルに係数をかけて取り出すノード
+interface InputTap {
+  channel: number;
+  // ステレオで出力する場合のマージャーの入力番号
+  output: number;
+  node: GainNode;
+}
+
+// 仮想音源ごとのノード構成
+// Taps (-> Merger) -> Gain -> 距離フィルター -> Panner / HRIR / Binaural -> 左右差の強調
+export interface VirtualSourceNodes {
+  kind: VirtualSourceKind;
+  inputMode: InputMode;
+  taps: InputTap[];
+  // ステレオで出力する入力の処理でのみ使う
+  merger: ChannelMergerNode | null;
+  gain: GainNode;
+  effects: DistanceEffectNodes;
+  // 他のバックエンドでも、位置の基準とオートメーションの対象として使う
   panner: PannerNode;
+  hrir: HrirSpatializerNodes;
+  // ワークレットを読み込んでいない場合は null
+  binaural: BinauralRendererNodes | null;
+}
+
+// エンジンのノード構成
+// オフラインレンダリングでも同じ構成を使うため、コンテキストの型は差し替え可能
+export interface SpatialAudioNodes<
+  Context extends BaseAudioContext = AudioContext,
+> {
+  context: Context;
+  // タブ音声・マイク・ファイルなどの入力ノード
+  source: AudioNode | null;
+  // 定位の前に音質を整えるイコライザー
+  equalizer: EqualizerNodes;
+  // 実際に使うレンダリング方式
+  renderer: SpatialRenderer;
+  splitter: ChannelSplitterNode;
+  sources: VirtualSourceNodes[];
+  // 部屋の響きを付加する環境ステージ
+  environment: EnvironmentNodes;
+  // マスター音量
   gain: GainNode;
+  // 自動音量調整・コンプレッサー・リミッター
+  dynamics: DynamicsNodes;
+  // 出力の音量計測（オフラインレンダリングでは使わない）
+  meter: LevelMeterNodes | null;
+  // 出力の録音先（録音中のみ。グラフを組み直してもつなぎ直す）
+  recorder: MediaStreamAudioDestinationNode | null;
 }
 
 /**
@@ -65,21 +205,11 @@ export async function resumeAudioContext(context: AudioContext): Promise<void> {
  * PannerNodeを作成し、HRTFで3D空間音響を設定
  */
 export function createPannerNode(
-  context: AudioContext,
+  context: BaseAudioContext,
   config: SpatialAudioConfig = DEFAULT_CONFIG,
 ): PannerNode {
   const panner = context.createPanner();
-
-  // パニングモデル（HRTF = Head-Related Transfer Function）
-  panner.panningModel = config.panningModel;
-
-  // 距離モデル
-  panner.distanceModel = config.distanceModel;
-
-  // 距離パラメータ
-  panner.maxDistance = config.maxDistance;
-  panner.refDistance = config.refDistance;
-  panner.rolloffFactor = config.rolloffFactor;
+  applyPannerConfig(panner, config);
 
   // リスナーの方向性（全方向から聞こえる）
   panner.coneInnerAngle = 360;
@@ -94,11 +224,31 @@ export function createPannerNode(
   return panner;
 }
 
+/**
+ * 既存のPannerNodeに設定を反映
+ * グラフを組み直さずに再生中でも切り替えられる
+ */
+export function applyPannerConfig(
+  panner: PannerNode,
+  config: SpatialAudioConfig,
+): void {
+  // パニングモデル（HRTF = Head-Related Transfer Function）
+  panner.panningModel = config.panningModel;
+
+  // 距離モデル
+  panner.distanceModel = config.distanceModel;
+
+  // 距離パラメータ
+  panner.maxDistance = config.maxDistance;
+  panner.refDistance = config.refDistance;
+  panner.rolloffFactor = config.rolloffFactor;
+}
+
 /**
  * GainNodeを作成（音量制御用）
  */
 export function createGainNode(
-  context: AudioContext,
+  context: BaseAudioContext,
   initialGain = 1,
 ): GainNode {
   const gain = context.createGain();
@@ -116,30 +266,293 @@ export function createMediaStreamSource(
   return context.createMediaStreamSource(stream);
 }
 
+/**
+ * 処理後の音声をMediaStreamとして取り出す出力ノードを作成
+ * リミッターに追加で接続すると、聴いている音をそのまま録音できる
+ */
+export function createStreamDestination(
+  context: AudioContext,
+): MediaStreamAudioDestinationNode {
+  return context.createMediaStreamDestination();
+}
+
+/**
+ * デコード済みの音声からソースノードを作成
+ * AudioBufferSourceNode は一度しか再生できないため、再生のたびに作り直す
+ */
+export function createBufferSource(
+  context: BaseAudioContext,
+  buffer: AudioBuffer,
+  loop = false,
+): AudioBufferSourceNode {
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.loop = loop;
+  return source;
+}
+
+/**
+ * ステレオ音声を左右チャンネルに分けるスプリッターを作成
+ */
+export function createChannelSplitter(
+  context: BaseAudioContext,
+): ChannelSplitterNode {
+  return context.createChannelSplitter(2);
+}
+
+// 入力の処理に合わせてタップとマージャーを作成
+function createInputTaps(
+  context: BaseAudioContext,
+  inputMode: InputMode,
+): Pick<VirtualSourceNodes, "taps" | "merger"> {
+  if (inputMode === "stereo") {
+    return { taps: [], merger: null };
+  }
+
+  const matrix = INPUT_MODE_MATRICES[inputMode];
+  const taps = matrix.flatMap((coefficients, output) =>
+    coefficients.flatMap((coefficient, channel) =>
+      coefficient === 0
+        ? []
+        : [{ channel, output, node: createGainNode(context, coefficient) }],
+    ),
+  );
+  return {
+    taps,
+    merger:
+      matrix.length > 1 ? context.createChannelMerger(matrix.length) : null,
+  };
+}
+
+/**
+ * 仮想音源を作成
+ * 入力の処理ごとにタップを用意し、個別のGainとPannerを持たせる
+ */
+export function createVirtualSource(
+  context: BaseAudioContext,
+  kind: VirtualSourceKind,
+  config: SpatialAudioConfig = DEFAULT_CONFIG,
+  initialGain = 1,
+  inputMode: InputMode = DEFAULT_INPUT_MODES[kind],
+): VirtualSourceNodes {
+  return {
+    kind,
+    inputMode,
+    ...createInputTaps(context, inputMode),
+    gain: createGainNode(context, initialGain),
+    effects: createDistanceEffectNodes(context),
+    panner: createPannerNode(context, config),
+    hrir: createHrirSpatializer(context),
+    binaural: createBinauralRenderer(context, config),
+  };
+}
+
+/**
+ * 設定と読み込み状況から実際に使うレンダリング方式を決める
+ * HRIRセットやワークレットが使えない場合は panner に戻す
+ */
+export function resolveRenderer(
+  config: SpatialAudioConfig,
+  hrirSet: HrirSet | null,
+  sources: VirtualSourceNodes[],
+): SpatialRenderer {
+  if (config.renderer === "hrir" && hrirSet) {
+    return "hrir";
+  }
+  if (
+    config.renderer === "binaural" &&
+    sources.every((source) => source.binaural)
+  ) {
+    return "binaural";
+  }
+  return "panner";
+}
+
+// 入力を仮想音源の Gain まで接続
+function connectInputTaps(
+  nodes: SpatialAudioNodes<BaseAudioContext>,
+  virtualSource: VirtualSourceNodes,
+): void {
+  if (!nodes.source) return;
+
+  if (virtualSource.inputMode === "stereo") {
+    nodes.equalizer.output.connect(virtualSource.gain);
+    return;
+  }
+  for (const tap of virtualSource.taps) {
+    nodes.splitter.connect(tap.node, tap.channel);
+    if (virtualSource.merger) {
+      tap.node.connect(virtualSource.merger, 0, tap.output);
+    } else {
+      tap.node.connect(virtualSource.gain);
+    }
+  }
+  virtualSource.merger?.connect(virtualSource.gain);
+}
+
+// 入力から仮想音源の Gain までを切断
+function disconnectInputTaps(
+  nodes: SpatialAudioNodes<BaseAudioContext>,
+  virtualSource: VirtualSourceNodes,
+): void {
+  if (virtualSource.inputMode === "stereo") {
+    if (nodes.source) {
+      nodes.equalizer.output.disconnect(virtualSource.gain);
+    }
+  }
+  for (const tap of virtualSource.taps) {
+    nodes.splitter.disconnect(tap.node);
+    tap.node.disconnect();
+  }
+  virtualSource.merger?.disconnect();
+}
+
+/**
+ * 仮想音源の入力の処理を切り替え（接続中ならタップだけを組み直す）
+ */
+export function updateInputMode(
+  nodes: SpatialAudioNodes<BaseAudioContext>,
+  virtualSource: VirtualSourceNodes,
+  inputMode: InputMode,
+): void {
+  if (virtualSource.inputMode === inputMode) return;
+
+  const isConnected = nodes.source !== null;
+  if (isConnected) {
+    disconnectInputTaps(nodes, virtualSource);
+  }
+  Object.assign(virtualSource, {
+    inputMode,
+    ...createInputTaps(nodes.context, inputMode),
+  });
+  if (isConnected) {
+    connectInputTaps(nodes, virtualSource);
+  }
+}
+
+/**
+ * 仮想音源をグラフに接続
+ * イコライザー/Splitter -> Taps (-> Merger) -> Gain -> 距離フィルター -> Panner -> Dry -> マスターGain
+ * 残響は距離で減衰させないため、Panner の手前から Send に分岐する
+ */
+function connectVirtualSource(
+  nodes: SpatialAudioNodes<BaseAudioContext>,
+  virtualSource: VirtualSourceNodes,
+): void {
+  if (!nodes.source) return;
+
+  connectInputTaps(nodes, virtualSource);
+  const { airFilter, proximityFilter, proximityLevel } = virtualSource.effects;
+  virtualSource.gain.connect(airFilter);
+  airFilter.connect(proximityFilter);
+  if (nodes.renderer === "hrir") {
+    proximityFilter.connect(virtualSource.hrir.input);
+    virtualSource.hrir.output.connect(proximityLevel.input);
+  } else if (nodes.renderer === "binaural" && virtualSource.binaural) {
+    proximityFilter.connect(virtualSource.binaural.node);
+    virtualSource.binaural.node.connect(proximityLevel.input);
+  } else {
+    proximityFilter.connect(virtualSource.panner);
+    virtualSource.panner.connect(proximityLevel.input);
+  }
+  proximityLevel.output.connect(nodes.environment.dry);
+  virtualSource.gain.connect(nodes.environment.send);
+}
+
+/**
+ * 仮想音源をグラフから切断
+ */
+function disconnectVirtualSource(virtualSource: VirtualSourceNodes): void {
+  for (const tap of virtualSource.taps) {
+    tap.node.disconnect();
+  }
+  virtualSource.merger?.disconnect();
+  virtualSource.gain.disconnect();
+  virtualSource.effects.airFilter.disconnect();
+  virtualSource.effects.proximityFilter.disconnect();
+  virtualSource.panner.disconnect();
+  virtualSource.hrir.output.disconnect();
+  virtualSource.binaural?.node.disconnect();
+  // 左右差の強調は内部の接続を残し、出力だけを切断する
+  virtualSource.effects.proximityLevel.output.disconnect();
+}
+
 /**
  * オーディオグラフを構築
- * Source -> Panner -> Gain -> Destination
+ * Source -> イコライザー -> Splitter -> (仮想音源ごとに Gain -> Panner) -> 環境
+ * -> ダイナミクス -> Gain -> リミッター -> Destination
  */
-export function connectAudioGraph(nodes: SpatialAudioNodes): void {
+export function connectAudioGraph(
+  nodes: SpatialAudioNodes<BaseAudioContext>,
+): void {
   if (!nodes.source) return;
 
-  // ノードを接続: Source -> Panner -> Gain -> Destination
-  nodes.source.connect(nodes.panner);
-  nodes.panner.connect(nodes.gain);
-  nodes.gain.connect(nodes.context.destination);
+  // ノードを接続: Source -> EQ -> Splitter -> 仮想音源 -> 環境 -> 自動音量調整 -> コンプレッサー
+  //             -> Gain -> リミッター -> Destination
+  //                                 ├-> Meter
+  //                                 └-> Recorder
+  // 入力の有無は処理前の Source から分岐させて測る
+  nodes.source.connect(nodes.equalizer.input);
+  if (nodes.meter) {
+    nodes.source.connect(nodes.meter.signal);
+  }
+  nodes.equalizer.output.connect(nodes.splitter);
+  for (const virtualSource of nodes.sources) {
+    connectVirtualSource(nodes, virtualSource);
+  }
+  connectEnvironment(nodes.environment, nodes.dynamics.input);
+  nodes.dynamics.compressor.connect(nodes.gain);
+  nodes.gain.connect(nodes.dynamics.limiter);
+  nodes.dynamics.limiter.connect(nodes.context.destination);
+  if (nodes.meter) {
+    nodes.dynamics.limiter.connect(nodes.meter.input);
+  }
+  if (nodes.recorder) {
+    nodes.dynamics.limiter.connect(nodes.recorder);
+  }
+}
+
+/**
+ * 接続中のグラフの入力だけを差し替える
+ * ファイルのシークや再開のたびに仮想音源やフィルターを組み直さないよう、イコライザー以降はそのまま使う
+ */
+export function replaceGraphSource(
+  nodes: SpatialAudioNodes<BaseAudioContext>,
+  source: AudioNode,
+): void {
+  nodes.source?.disconnect();
+  nodes.source = source;
+  source.connect(nodes.equalizer.input);
+  if (nodes.meter) {
+    source.connect(nodes.meter.signal);
+  }
 }
 
 /**
  * オーディオグラフを切断
  */
-export function disconnectAudioGraph(nodes: SpatialAudioNodes): void {
+export function disconnectAudioGraph(
+  nodes: SpatialAudioNodes<BaseAudioContext>,
+): void {
   if (nodes.source) {
     nodes.source.disconnect();
   }
-  nodes.panner.disconnect();
+  // イコライザー内部の接続は残し、出力だけを切断する
+  nodes.equalizer.output.disconnect();
+  nodes.splitter.disconnect();
+  for (const virtualSource of nodes.sources) {
+    disconnectVirtualSource(virtualSource);
+  }
+  disconnectEnvironment(nodes.environment);
+  // ダイナミクス内部の接続は残し、外へ出る接続だけを切断する
+  nodes.dynamics.compressor.disconnect();
   nodes.gain.disconnect();
+  nodes.dynamics.limiter.disconnect();
 }
 
+// 正規化座標 (-1 から 1) を Web Audio の空間座標に変換する倍率
+export const POSITION_SCALE = 5;
+
 /**
  * 音源の位置を更新
  * 座標は -1 から 1 の正規化された値
@@ -147,7 +560,7 @@ export function disconnectAudioGraph(nodes: SpatialAudioNodes): void {
 export function updateSourcePosition(
   panner: PannerNode,
   position: Position3D,
-  scale = 5,
+  scale = POSITION_SCALE,
 ): void {
   // 正規化された座標をスケーリング
   const x = position.x * scale;
@@ -170,12 +583,40 @@ export function updateGain(gain: GainNode, value: number): void {
   gain.gain.setTargetAtTime(clampedValue, currentTime, 0.02);
 }
 
+// 指数カーブは 0 に到達できないため、この値まで下げてから無音にする
+const FADE_OUT_FLOOR = 0.0001;
+
+/**
+ * 音量を指数カーブで徐々に下げ、duration 秒後に無音にする
+ */
+export function fadeOutGain(gain: GainNode, duration: number): void {
+  const param = gain.gain;
+  const currentTime = gain.context.currentTime;
+  const endTime = currentTime + duration;
+  param.cancelScheduledValues(currentTime);
+  param.setValueAtTime(Math.max(FADE_OUT_FLOOR, param.value), currentTime);
+  param.exponentialRampToValueAtTime(FADE_OUT_FLOOR, endTime);
+  param.setValueAtTime(0, endTime);
+}
+
+/**
+ * フェードアウトを取り消し、現在の値から指定の音量に戻す
+ */
+export function cancelGainFade(gain: GainNode, value: number): void {
+  const param = gain.gain;
+  const currentTime = gain.context.currentTime;
+  const currentValue = param.value;
+  param.cancelScheduledValues(currentTime);
+  param.setValueAtTime(currentValue, currentTime);
+  updateGain(gain, value);
+}
+
 /**
  * リスナーの位置と向きを設定
  * 通常は原点に配置し、前方を向く
  */
 export function setListenerPosition(
-  context: AudioContext,
+  context: BaseAudioContext,
   position: Position3D = { x: 0, y: 0, z: 0 },
   forward: Position3D = { x: 0, y: 0, z: -1 },
   up: Position3D = { x: 0, y: 1, z: 0 },
@@ -222,3 +663,19 @@ export function padToPosition3D(
     z: -padY, // パッドのY（上が+）を3DのZ（前が-）に変換
   };
 }
+
+/**
+ * 3D座標から2D座標（パッドの位置）と高さに変換
+ * padToPosition3D の逆変換
+ */
+export function position3DToPad(position: Position3D): {
+  padX: number;
+  padY: number;
+  height: number;
+} {
+  return {
+    padX: position.x,
+    padY: -position.z,
+    height: position.y,
+  };
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { encodeWav } from "./wav-encoder";
+
+// チャンネルごとのサンプルから AudioBuffer の代わりを作る
+function createBuffer(channels: number[][], sampleRate = 48000): AudioBuffer {
+  return {
+    numberOfChannels: channels.length,
+    sampleRate,
+    length: channels[0].length,
+    getChannelData: (channel: number) => Float32Array.from(channels[channel]),
+  } as unknown as AudioBuffer;
+}
+
+// Blob を読み取って DataView にする
+async function readWav(blob: Blob): Promise<DataView> {
+  const buffer = await new Promise<ArrayBuffer>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.readAsArrayBuffer(blob);
+  });
+  return new DataView(buffer);
+}
+
+// ヘッダーの4文字を読み取る
+function readString(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    ...Array.from({ length: 4 }, (_, i) => view.getUint8(offset + i)),
+  );
+}
+
+// 24bit のサンプルを符号付きで読み取る
+function readInt24(view: DataView, offset: number): number {
+  const value =
+    view.getUint8(offset) |
+    (view.getUint8(offset + 1) << 8) |
+    (view.getUint8(offset + 2) << 16);
+  return value & 0x800000 ? value - 0x1000000 : value;
+}
+
+describe("encodeWav", () => {
+  it("リニアPCMのヘッダーを書き込む", async () => {
+    const blob = encodeWav(
+      createBuffer(
+        [
+          [0, 0, 0],
+          [0, 0, 0],
+        ],
+        44100,
+      ),
+      16,
+    );
+    const view = await readWav(blob);
+
+    expect(blob.type).toBe("audio/wav");
+    expect(view.byteLength).toBe(44 + 3 * 2 * 2);
+    expect(readString(view, 0)).toBe("RIFF");
+    expect(view.getUint32(4, true)).toBe(36 + 12);
+    expect(readString(view, 8)).toBe("WAVE");
+    expect(readString(view, 12)).toBe("fmt ");
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(44100);
+    expect(view.getUint32(28, true)).toBe(44100 * 4);
+    expect(view.getUint16(32, true)).toBe(4);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(readString(view, 36)).toBe("data");
+    expect(view.getUint32(40, true)).toBe(12);
+  });
+
+  it("16bit ではチャンネルをインターリーブし、範囲外はクリップする", async () => {
+    const view = await readWav(
+      encodeWav(
+        createBuffer([
+          [0.5, 2],
+          [-0.5, -2],
+        ]),
+        16,
+      ),
+    );
+
+    expect(
+      Array.from({ length: 4 }, (_, i) => view.getInt16(44 + i * 2, true)),
+    ).toEqual([16384, -16383, 32767, -32767]);
+  });
+
+  it("24bit では3バイトのリトルエンディアンで書き込む", async () => {
+    const view = await readWav(encodeWav(createBuffer([[1, -1, 0.25]]), 24));
+
+    expect(view.getUint16(32, true)).toBe(3);
+    expect(view.getUint16(34, true)).toBe(24);
+    expect(
+      Array.from({ length: 3 }, (_, i) => readInt24(view, 44 + i * 3)),
+    ).toEqual([8388607, -8388607, 2097152]);
+  });
+});
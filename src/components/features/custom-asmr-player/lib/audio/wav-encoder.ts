@@ -0,0 +1,76 @@
+/**
+ * WAV Encoder
+ *
+ * AudioBufferをリニアPCMのWAVファイルにエンコードする
+ */
+
+// 書き出せるビット深度
+export type WavBitDepth = 16 | 24;
+
+// RIFF/WAVEヘッダーのサイズ（バイト）
+const HEADER_SIZE = 44;
+
+// ヘッダーに4文字のASCIIを書き込む
+function writeString(view: DataView, offset: number, value: string): void {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+}
+
+/**
+ * AudioBufferをWAV形式のBlobにエンコード
+ * チャンネルはインターリーブし、-1 から 1 を超えるサンプルはクリップする
+ */
+export function encodeWav(buffer: AudioBuffer, bitDepth: WavBitDepth): Blob {
+  const { numberOfChannels, sampleRate, length } = buffer;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numberOfChannels * bytesPerSample;
+  const dataSize = length * blockAlign;
+
+  const arrayBuffer = new ArrayBuffer(HEADER_SIZE + dataSize);
+  const view = new DataView(arrayBuffer);
+
+  // RIFFヘッダー
+  writeString(view, 0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, "WAVE");
+
+  // fmtチャンク
+  writeString(view, 12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // リニアPCM
+  view.setUint16(22, numberOfChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+
+  // dataチャンク
+  writeString(view, 36, "data");
+  view.setUint32(40, dataSize, true);
+
+  const channels = Array.from({ length: numberOfChannels }, (_, channel) =>
+    buffer.getChannelData(channel),
+  );
+  const maxValue = 2 ** (bitDepth - 1) - 1;
+
+  let offset = HEADER_SIZE;
+  for (let i = 0; i < length; i++) {
+    for (const data of channels) {
+      const sample = Math.max(-1, Math.min(1, data[i]));
+      const value = Math.round(sample * maxValue);
+
+      if (bitDepth === 16) {
+        view.setInt16(offset, value, true);
+      } else {
+        // 24bitはリトルエンディアンで3バイトに分けて書き込む
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([arrayBuffer], { type: "audio/wav" });
+}
@@ -0,0 +1,31 @@
+/**
+ * Download
+ *
+ * ブラウザ上で生成したファイルをダウンロードさせるユーティリティ
+ */
+
+/**
+ * Blobをファイルとしてダウンロード
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+
+  // クリック直後に解放するとダウンロードが始まらないブラウザがあるため遅らせる
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * 元のファイル名から拡張子を差し替えた書き出し用のファイル名を作成
+ */
+export function toExportFileName(
+  fileName: string | null,
+  suffix: string,
+  extension: string,
+): string {
+  const baseName = fileName?.replace(/\.[^.]+$/, "") || "custom-asmr";
+  return `${baseName}-${suffix}.${extension}`;
+}
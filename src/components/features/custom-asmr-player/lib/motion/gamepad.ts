@@ -0,0 +1,67 @@
+/**
+ * Gamepad
+ *
+ * ゲームパッドの入力を音源の移動量に変換するユーティリティ
+ * 標準マッピング（mapping === "standard"）のボタン配置を前提とする
+ */
+
+import type { PadPoint } from "./motion-presets";
+
+// 標準マッピングでのボタン・スティックの番号
+const LEFT_STICK_X = 0;
+const LEFT_STICK_Y = 1;
+const LEFT_TRIGGER = 6;
+const RIGHT_TRIGGER = 7;
+const LEFT_STICK_PRESS = 10;
+
+// スティックの遊び（これ未満の傾きは無視する）
+const STICK_DEADZONE = 0.15;
+
+// スティックやトリガーを一杯に入れたときの速さ（1秒あたり）
+export const GAMEPAD_MOVE_SPEED = 1;
+export const GAMEPAD_HEIGHT_SPEED = 0.8;
+
+// ゲームパッドの入力
+export interface GamepadInput {
+  // 1秒あたりの移動量
+  velocity: PadPoint;
+  // スティックの押し込み（中央に戻す）
+  recenter: boolean;
+}
+
+// 遊びを除いて 0 から 1 に割り当て直す
+function applyDeadzone(value: number): number {
+  const magnitude = Math.abs(value);
+  if (magnitude < STICK_DEADZONE) return 0;
+  return (
+    (Math.sign(value) * (magnitude - STICK_DEADZONE)) / (1 - STICK_DEADZONE)
+  );
+}
+
+/**
+ * 接続中のゲームパッドから最初に見つかったものを取得
+ */
+export function getActiveGamepad(): Gamepad | null {
+  if (typeof navigator === "undefined" || !navigator.getGamepads) return null;
+  return navigator.getGamepads().find((gamepad) => gamepad?.connected) ?? null;
+}
+
+/**
+ * ゲームパッドの状態を移動量に変換
+ * 左スティックで前後左右、右トリガーで上、左トリガーで下に動かす
+ */
+export function readGamepadInput(gamepad: Gamepad): GamepadInput {
+  const axis = (index: number) => applyDeadzone(gamepad.axes[index] ?? 0);
+  const button = (index: number) => gamepad.buttons[index]?.value ?? 0;
+
+  return {
+    velocity: {
+      x: axis(LEFT_STICK_X) * GAMEPAD_MOVE_SPEED,
+      // スティックは奥に倒すと負のため反転して前を正にする
+      y: -axis(LEFT_STICK_Y) * GAMEPAD_MOVE_SPEED,
+      height:
+        (button(RIGHT_TRIGGER) - button(LEFT_TRIGGER)) * GAMEPAD_HEIGHT_SPEED,
+    },
+    recenter: gamepad.buttons[LEFT_STICK_PRESS]?.pressed ?? false,
+  };
+}
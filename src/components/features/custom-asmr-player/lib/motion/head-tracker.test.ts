@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  fromDeviceOrientation,
+  getRelativeOrientation,
+  parseHeadTrackerMessage,
+} from "./head-tracker";
+
+// OpenTrack の UDP パケットと同じ並びのバイナリを作る
+function createOpenTrackPacket(values: number[]): ArrayBuffer {
+  const buffer = new ArrayBuffer(values.length * 8);
+  const view = new DataView(buffer);
+  values.forEach((value, i) => view.setFloat64(i * 8, value, true));
+  return buffer;
+}
+
+describe("parseHeadTrackerMessage", () => {
+  it("JSON のオブジェクトを読み取る（省略した軸は0）", () => {
+    expect(parseHeadTrackerMessage('{"yaw": 30, "pitch": -10}')).toEqual({
+      yaw: 30,
+      pitch: -10,
+      roll: 0,
+    });
+  });
+
+  it("JSON の配列は OpenTrack の並びとして回転だけを読み取る", () => {
+    expect(parseHeadTrackerMessage("[1, 2, 3, 45, 10, -5]")).toEqual({
+      yaw: 45,
+      pitch: 10,
+      roll: -5,
+    });
+  });
+
+  it("バイナリの OpenTrack パケットを読み取る", () => {
+    const packet = createOpenTrackPacket([0, 0, 0, -90, 20, 15]);
+
+    expect(parseHeadTrackerMessage(packet)).toEqual({
+      yaw: -90,
+      pitch: 20,
+      roll: 15,
+    });
+  });
+
+  it("範囲外の角度は範囲内に収める", () => {
+    expect(
+      parseHeadTrackerMessage('{"yaw": 270, "pitch": 120, "roll": -100}'),
+    ).toEqual({ yaw: -90, pitch: 90, roll: -90 });
+  });
+
+  it("読み取れないメッセージは null を返す", () => {
+    expect(parseHeadTrackerMessage("not json")).toBeNull();
+    expect(parseHeadTrackerMessage('{"pitch": 10}')).toBeNull();
+    expect(parseHeadTrackerMessage('{"yaw": "30"}')).toBeNull();
+    expect(parseHeadTrackerMessage("[1, 2, 3]")).toBeNull();
+    expect(parseHeadTrackerMessage(new ArrayBuffer(16))).toBeNull();
+    expect(parseHeadTrackerMessage(42)).toBeNull();
+  });
+});
+
+describe("fromDeviceOrientation", () => {
+  it("alpha の符号を反転してヨーにする", () => {
+    expect(fromDeviceOrientation({ alpha: 30, beta: 10, gamma: -5 })).toEqual({
+      yaw: -30,
+      pitch: 10,
+      roll: -5,
+    });
+  });
+
+  it("値が欠けていれば null を返す", () => {
+    expect(
+      fromDeviceOrientation({ alpha: null, beta: 0, gamma: 0 }),
+    ).toBeNull();
+  });
+});
+
+describe("getRelativeOrientation", () => {
+  it("基準との差分のヨーは -180 から 180 度に収める", () => {
+    expect(
+      getRelativeOrientation(
+        { yaw: 170, pitch: 0, roll: 0 },
+        { yaw: -170, pitch: 0, roll: 0 },
+      ),
+    ).toEqual({ yaw: -20, pitch: 0, roll: 0 });
+  });
+
+  it("ピッチとロールは差分をそのまま使う", () => {
+    expect(
+      getRelativeOrientation(
+        { yaw: 0, pitch: 30, roll: -10 },
+        { yaw: 0, pitch: 10, roll: 5 },
+      ),
+    ).toEqual({ yaw: 0, pitch: 20, roll: -15 });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Head Tracker
+ *
+ * 端末のセンサーや外部のヘッドトラッカーから届く値を、リスナーの頭の向きに変換するユーティリティ
+ * 外部トラッカーは OpenTrack の UDP 出力をローカルのブリッジで WebSocket に中継したものを想定する
+ */
+
+import {
+  clampOrientation,
+  type ListenerOrientation,
+  wrapDegrees,
+} from "../audio/listener-orientation";
+
+// ヘッドトラッカーの入力元
+export type HeadTrackerSource =
+  | "device" // 端末の向きセンサー (DeviceOrientationEvent)
+  | "websocket"; // WebSocket で届く外部トラッカー
+
+// WebSocket ブリッジの既定の接続先
+export const DEFAULT_HEAD_TRACKER_URL = "ws://localhost:4242";
+
+// OpenTrack の UDP パケット（x, y, z, ヨー, ピッチ, ロールの float64 が6つ）
+const OPENTRACK_PACKET_VALUES = 6;
+const OPENTRACK_ROTATION_OFFSET = 3;
+
+// 有限の数値だけを受け付ける
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+// OpenTrack の並び（位置3つ + 回転3つ）から向きを取り出す
+function fromOpenTrackValues(
+  values: ArrayLike<number>,
+): ListenerOrientation | null {
+  if (values.length < OPENTRACK_PACKET_VALUES) return null;
+
+  const [yaw, pitch, roll] = [0, 1, 2].map(
+    (i) => values[OPENTRACK_ROTATION_OFFSET + i],
+  );
+  if (![yaw, pitch, roll].every(isFiniteNumber)) return null;
+  return { yaw, pitch, roll };
+}
+
+/**
+ * ヘッドトラッカーのメッセージを頭の向きに変換
+ * 次の形式に対応し、読み取れない場合は null を返す
+ * - JSON のオブジェクト {"yaw": 度, "pitch": 度, "roll": 度}
+ * - JSON の配列 [x, y, z, yaw, pitch, roll]（OpenTrack の並び）
+ * - バイナリの OpenTrack UDP パケット（リトルエンディアンの float64 × 6）
+ */
+export function parseHeadTrackerMessage(
+  data: unknown,
+): ListenerOrientation | null {
+  if (data instanceof ArrayBuffer) {
+    if (data.byteLength < OPENTRACK_PACKET_VALUES * 8) return null;
+    const view = new DataView(data);
+    const values = Array.from({ length: OPENTRACK_PACKET_VALUES }, (_, i) =>
+      view.getFloat64(i * 8, true),
+    );
+    const orientation = fromOpenTrackValues(values);
+    return orientation && clampOrientation(orientation);
+  }
+
+  if (typeof data !== "string") return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    return null;
+  }
+
+  if (Array.isArray(parsed)) {
+    const orientation = fromOpenTrackValues(parsed);
+    return orientation && clampOrientation(orientation);
+  }
+
+  if (typeof parsed === "object" && parsed !== null) {
+    const { yaw, pitch = 0, roll = 0 } = parsed as Record<string, unknown>;
+    if (![yaw, pitch, roll].every(isFiniteNumber)) return null;
+    return clampOrientation({
+      yaw: yaw as number,
+      pitch: pitch as number,
+      roll: roll as number,
+    });
+  }
+
+  return null;
+}
+
+/**
+ * DeviceOrientationEvent の値を頭の向きに変換
+ * alpha は左回りに増えるため符号を反転し、beta を上下、gamma を傾きとして扱う
+ * 端末を頭に固定して正面を合わせる前提の近似で、基準との差分を使う
+ */
+export function fromDeviceOrientation(
+  event: Pick<DeviceOrientationEvent, "alpha" | "beta" | "gamma">,
+): ListenerOrientation | null {
+  const { alpha, beta, gamma } = event;
+  if (alpha === null || beta === null || gamma === null) return null;
+  return { yaw: -alpha, pitch: beta, roll: gamma };
+}
+
+/**
+ * 基準の向きからの差分を計算（正面のリセットに使う）
+ */
+export function getRelativeOrientation(
+  orientation: ListenerOrientation,
+  reference: ListenerOrientation,
+): ListenerOrientation {
+  return clampOrientation({
+    yaw: wrapDegrees(orientation.yaw - reference.yaw),
+    pitch: orientation.pitch - reference.pitch,
+    roll: orientation.roll - reference.roll,
+  });
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import {
+  getMotionPathDuration,
+  getMotionPathTime,
+  interpolateMotionPath,
+  type MotionKeyframe,
+  scheduleMotionPass,
+} from "./motion-path";
+
+// 記録開始から少し経ってから動かし始めた軌跡
+const keyframes: MotionKeyframe[] = [
+  { time: 1, position: { x: 0, y: 0, z: 0 } },
+  { time: 2, position: { x: 1, y: 0, z: -1 } },
+  { time: 3, position: { x: 1, y: 1, z: -1 } },
+];
+
+// 予約された値を記録する AudioParam の代わり
+function createRecordingParam() {
+  const events: [string, number, number][] = [];
+  return {
+    events,
+    setValueAtTime: (value: number, time: number) => {
+      events.push(["set", value, time]);
+    },
+    linearRampToValueAtTime: (value: number, time: number) => {
+      events.push(["ramp", value, time]);
+    },
+  };
+}
+
+function createRecordingPanner() {
+  return {
+    positionX: createRecordingParam(),
+    positionY: createRecordingParam(),
+    positionZ: createRecordingParam(),
+  };
+}
+
+describe("getMotionPathDuration", () => {
+  it("先頭から最後のキーフレームまでの秒数", () => {
+    expect(getMotionPathDuration(keyframes)).toBe(2);
+    expect(getMotionPathDuration([])).toBe(0);
+  });
+});
+
+describe("interpolateMotionPath", () => {
+  it("キーフレームの間は直線的に補間する", () => {
+    expect(interpolateMotionPath(keyframes, 0.5)).toEqual({
+      x: 0.5,
+      y: 0,
+      z: -0.5,
+    });
+    expect(interpolateMotionPath(keyframes, 1.25)).toEqual({
+      x: 1,
+      y: 0.25,
+      z: -1,
+    });
+  });
+
+  it("範囲外の時刻は両端のキーフレームの位置", () => {
+    expect(interpolateMotionPath(keyframes, -1)).toEqual(keyframes[0].position);
+    expect(interpolateMotionPath(keyframes, 10)).toEqual(keyframes[2].position);
+  });
+});
+
+describe("getMotionPathTime", () => {
+  it("once は最後で止まり、終了を知らせる", () => {
+    expect(getMotionPathTime(2, 1.5, "once")).toEqual({
+      time: 1.5,
+      pass: 0,
+      finished: false,
+    });
+    expect(getMotionPathTime(2, 3, "once")).toEqual({
+      time: 2,
+      pass: 0,
+      finished: true,
+    });
+  });
+
+  it("loop は先頭に戻って繰り返す", () => {
+    expect(getMotionPathTime(2, 5, "loop")).toEqual({
+      time: 1,
+      pass: 2,
+      finished: false,
+    });
+  });
+
+  it("ping-pong は奇数周を逆再生する", () => {
+    expect(getMotionPathTime(2, 2.5, "ping-pong")).toEqual({
+      time: 1.5,
+      pass: 1,
+      finished: false,
+    });
+    expect(getMotionPathTime(2, 4.5, "ping-pong").time).toBe(0.5);
+  });
+
+  it("長さのない軌跡はすぐに終わる", () => {
+    expect(getMotionPathTime(0, 1, "loop")).toEqual({
+      time: 0,
+      pass: 0,
+      finished: true,
+    });
+  });
+});
+
+describe("scheduleMotionPass", () => {
+  it("周の先頭で値を確定させ、以降は直線的に予約する", () => {
+    const panner = createRecordingPanner();
+    const end = scheduleMotionPass(
+      panner as unknown as PannerNode,
+      keyframes,
+      10,
+      { speed: 2, reverse: false, scale: 5 },
+    );
+
+    expect(end).toBe(11);
+    expect(panner.positionX.events).toEqual([
+      ["set", 0, 10],
+      ["ramp", 5, 10.5],
+      ["ramp", 5, 11],
+    ]);
+    expect(panner.positionY.events.at(-1)).toEqual(["ramp", 5, 11]);
+  });
+
+  it("逆再生は最後のキーフレームから同じ時間配分で戻る", () => {
+    const panner = createRecordingPanner();
+    const scheduled: [number, number][] = [];
+    scheduleMotionPass(panner as unknown as PannerNode, keyframes, 0, {
+      speed: 1,
+      reverse: true,
+      scale: 1,
+      onKeyframe: (position, time) => scheduled.push([position.y, time]),
+    });
+
+    expect(panner.positionY.events).toEqual([
+      ["set", 1, 0],
+      ["ramp", 0, 1],
+      ["ramp", 0, 2],
+    ]);
+    expect(scheduled).toEqual([
+      [1, 0],
+      [0, 1],
+      [0, 2],
+    ]);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Motion Path
+ *
+ * ドラッグ操作を時刻付きのキーフレームとして記録し、
+ * 再生時にはAudioParamのオートメーションとして予約するためのユーティリティ
+ */
+
+import { POSITION_SCALE, type Position3D } from "../audio/spatial-audio-engine";
+
+// 軌跡のキーフレーム
+export interface MotionKeyframe {
+  time: number; // 記録開始からの経過秒
+  position: Position3D;
+}
+
+// 再生モード
+export type MotionLoopMode =
+  | "once" // 1回だけ再生
+  | "loop" // 先頭に戻って繰り返す
+  | "ping-pong"; // 往復を繰り返す
+
+// 再生速度の範囲
+export const MIN_MOTION_SPEED = 0.25;
+export const MAX_MOTION_SPEED = 4;
+
+/**
+ * 軌跡の長さ（秒）を取得
+ */
+export function getMotionPathDuration(keyframes: MotionKeyframe[]): number {
+  if (keyframes.length === 0) return 0;
+  return keyframes[keyframes.length - 1].time - keyframes[0].time;
+}
+
+/**
+ * 軌跡上の指定時刻の位置を線形補間で取得
+ * time は先頭キーフレームからの経過秒
+ */
+export function interpolateMotionPath(
+  keyframes: MotionKeyframe[],
+  time: number,
+): Position3D {
+  const first = keyframes[0];
+  const last = keyframes[keyframes.length - 1];
+  const absoluteTime = first.time + time;
+
+  if (absoluteTime <= first.time) return first.position;
+  if (absoluteTime >= last.time) return last.position;
+
+  // 指定時刻を挟むキーフレームを探して補間
+  const nextIndex = keyframes.findIndex((frame) => frame.time > absoluteTime);
+  const prev = keyframes[nextIndex - 1];
+  const next = keyframes[nextIndex];
+  const ratio = (absoluteTime - prev.time) / (next.time - prev.time);
+
+  return {
+    x: prev.position.x + (next.position.x - prev.position.x) * ratio,
+    y: prev.position.y + (next.position.y - prev.position.y) * ratio,
+    z: prev.position.z + (next.position.z - prev.position.z) * ratio,
+  };
+}
+
+/**
+ * 再生経過時間から、軌跡上の時刻と何周目かを取得
+ * ping-pong では奇数周を逆再生として扱う
+ */
+export function getMotionPathTime(
+  duration: number,
+  elapsed: number,
+  mode: MotionLoopMode,
+): { time: number; pass: number; finished: boolean } {
+  if (duration <= 0) return { time: 0, pass: 0, finished: true };
+
+  if (mode === "once") {
+    return {
+      time: Math.min(elapsed, duration),
+      pass: 0,
+      finished: elapsed >= duration,
+    };
+  }
+
+  const pass = Math.floor(elapsed / duration);
+  const local = elapsed - pass * duration;
+  const reverse = mode === "ping-pong" && pass % 2 === 1;
+
+  return {
+    time: reverse ? duration - local : local,
+    pass,
+    finished: false,
+  };
+}
+
+/**
+ * 軌跡の1周分をPannerの位置オートメーションとして予約
+ * onKeyframe を指定すると、キーフレームごとに位置と時刻を受け取って
+ * Panner 以外のパラメータも合わせて予約できる
+ * 戻り値は予約した周の終了時刻（AudioContextの時刻）
+ */
+export function scheduleMotionPass(
+  panner: PannerNode,
+  keyframes: MotionKeyframe[],
+  startTime: number,
+  options: {
+    speed: number;
+    reverse: boolean;
+    scale?: number;
+    onKeyframe?: (position: Position3D, time: number) => void;
+  },
+): number {
+  const { speed, reverse, scale = POSITION_SCALE, onKeyframe } = options;
+  const duration = getMotionPathDuration(keyframes);
+  const origin = keyframes[0].time;
+  const frames = reverse ? [...keyframes].reverse() : keyframes;
+
+  frames.forEach((frame, index) => {
+    const offset = reverse
+      ? duration - (frame.time - origin)
+      : frame.time - origin;
+    const time = startTime + offset / speed;
+    const { x, y, z } = frame.position;
+
+    // 周の先頭は値を確定させ、以降は直線的に補間
+    if (index === 0) {
+      panner.positionX.setValueAtTime(x * scale, time);
+      panner.positionY.setValueAtTime(y * scale, time);
+      panner.positionZ.setValueAtTime(z * scale, time);
+    } else {
+      panner.positionX.linearRampToValueAtTime(x * scale, time);
+      panner.positionY.linearRampToValueAtTime(y * scale, time);
+      panner.positionZ.linearRampToValueAtTime(z * scale, time);
+    }
+    onKeyframe?.(frame.position, time);
+  });
+
+  return startTime + duration / speed;
+}
+
+/**
+ * 予約済みの位置オートメーションを取り消し、現在値で止める
+ */
+export function cancelMotionAutomation(panner: PannerNode): void {
+  const currentTime = panner.context.currentTime;
+  for (const param of [panner.positionX, panner.positionY, panner.positionZ]) {
+    const value = param.value;
+    param.cancelScheduledValues(currentTime);
+    param.setValueAtTime(value, currentTime);
+  }
+}
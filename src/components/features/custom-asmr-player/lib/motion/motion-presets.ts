@@ -0,0 +1,109 @@
+/**
+ * Motion Presets
+ *
+ * 音源を自動で動かすためのパラメトリックな軌跡の定義
+ * 位相（周回数）と深さからパッド座標を計算する純粋関数として実装
+ */
+
+// パッド上の位置と高さ
+export interface PadPoint {
+  x: number; // -1 (左) から 1 (右)
+  y: number; // -1 (後ろ) から 1 (前)
+  height: number; // -1 (下) から 1 (上)
+}
+
+// プリセットの種類
+export type MotionPresetKind =
+  | "orbit" // 頭の周りを周回
+  | "ear-sweep" // 左右の耳の間を往復
+  | "approach" // 正面から近づいて離れる
+  | "wander"; // なめらかなランダム移動
+
+// プリセットのパラメータ
+export interface MotionPresetParams {
+  rate: number; // 1秒あたりの周期数 (Hz)
+  depth: number; // 動きの大きさ (0 から 1)
+}
+
+export const DEFAULT_MOTION_PRESET_PARAMS: MotionPresetParams = {
+  rate: 0.1,
+  depth: 0.7,
+};
+
+// パラメータの範囲
+export const MIN_MOTION_RATE = 0.02;
+export const MAX_MOTION_RATE = 1;
+
+// プリセットの表示名
+export const MOTION_PRESET_LABELS: Record<MotionPresetKind, string> = {
+  orbit: "周回",
+  "ear-sweep": "耳から耳へ",
+  approach: "接近と後退",
+  wander: "ランダムな漂い",
+};
+
+// 耳の間を通るときに頭の中心を避けるための前方オフセット
+const SWEEP_FRONT_OFFSET = 0.15;
+// 接近時の最短距離
+const APPROACH_NEAREST = 0.1;
+
+// 整数から 0 から 1 の疑似乱数を得るハッシュ
+function hash(n: number, seed: number): number {
+  const value = Math.sin(n * 127.1 + seed * 311.7) * 43758.5453;
+  return value - Math.floor(value);
+}
+
+// 1次元のバリューノイズ（-1 から 1）
+// 整数点の乱数を smoothstep で補間して、なめらかなランダム値を得る
+function valueNoise(t: number, seed: number): number {
+  const i = Math.floor(t);
+  const f = t - i;
+  const smooth = f * f * (3 - 2 * f);
+  const a = hash(i, seed);
+  const b = hash(i + 1, seed);
+  return (a + (b - a) * smooth) * 2 - 1;
+}
+
+/**
+ * プリセットの位相（周回数）からパッド座標を計算
+ */
+export function getMotionPresetPoint(
+  kind: MotionPresetKind,
+  phase: number,
+  depth: number,
+): PadPoint {
+  const angle = phase * Math.PI * 2;
+
+  switch (kind) {
+    case "orbit":
+      // 正面から時計回りに周回
+      return {
+        x: Math.sin(angle) * depth,
+        y: Math.cos(angle) * depth,
+        height: 0,
+      };
+    case "ear-sweep":
+      // 左右の耳の間を往復
+      return {
+        x: Math.sin(angle) * depth,
+        y: SWEEP_FRONT_OFFSET,
+        height: 0,
+      };
+    case "approach": {
+      // 正面の遠くから耳元まで近づいて離れる
+      const distance = (1 + Math.cos(angle)) / 2;
+      return {
+        x: 0,
+        y: APPROACH_NEAREST + distance * depth * (1 - APPROACH_NEAREST),
+        height: 0,
+      };
+    }
+    case "wander":
+      // 位相1周あたり数点の乱数をなめらかにつなぐ
+      return {
+        x: valueNoise(phase * 4, 1) * depth,
+        y: valueNoise(phase * 4, 2) * depth,
+        height: valueNoise(phase * 4, 3) * depth * 0.5,
+      };
+  }
+}
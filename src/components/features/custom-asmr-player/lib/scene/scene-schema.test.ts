@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import { createDefaultScene, type Scene } from "./scene";
+import {
+  createSceneFile,
+  parseScene,
+  parseSceneFile,
+  SCENE_FILE_VERSION,
+} from "./scene-schema";
+
+// バージョン2までのシーン（音質・頭の向き・環境音・ビートを持たない）に戻す
+function toVersion2Scene(scene: Scene): unknown {
+  const {
+    equalizer: _equalizer,
+    dynamics: _dynamics,
+    orientation: _orientation,
+    ambience: _ambience,
+    beat: _beat,
+    ...rest
+  } = scene;
+  return rest;
+}
+
+// 入力の処理（inputMode）も持たない、バージョン1のシーンに戻す
+function toVersion1Scene(scene: Scene): unknown {
+  return {
+    ...(toVersion2Scene(scene) as object),
+    sources: scene.sources.map(({ inputMode: _, ...source }) => source),
+  };
+}
+
+describe("parseSceneFile", () => {
+  it("書き出したファイルをそのまま読み込める", () => {
+    const scene = createDefaultScene("quad");
+    const result = parseSceneFile(createSceneFile(scene, "夜の雨"));
+
+    expect(result).toEqual({ success: true, scene, name: "夜の雨" });
+  });
+
+  it("バージョンを持たないシーンそのものを移行して読み込む", () => {
+    const scene = createDefaultScene("stereo");
+    const result = parseSceneFile(toVersion1Scene(scene));
+
+    expect(result).toEqual({ success: true, scene, name: null });
+  });
+
+  it("バージョン1のファイルには入力の処理の初期値を補う", () => {
+    const scene = createDefaultScene("mid-side");
+    const result = parseSceneFile({
+      version: 1,
+      name: "旧形式",
+      scene: toVersion1Scene(scene),
+    });
+
+    expect(result).toEqual({ success: true, scene, name: "旧形式" });
+  });
+
+  it("バージョン2のファイルには音質・頭の向き・環境音・ビートの初期値を補う", () => {
+    const scene = createDefaultScene("quad");
+    const result = parseSceneFile({
+      version: 2,
+      name: null,
+      scene: toVersion2Scene(scene),
+    });
+
+    expect(result).toEqual({ success: true, scene, name: null });
+  });
+
+  it("スライダーの範囲外の値は項目の位置つきで拒否する", () => {
+    const scene = createDefaultScene();
+    const result = parseSceneFile(
+      createSceneFile({
+        ...scene,
+        gain: 2,
+        config: { ...scene.config, refDistance: 0 },
+        equalizer: {
+          ...scene.equalizer,
+          bands: {
+            ...scene.equalizer.bands,
+            highpass: { ...scene.equalizer.bands.highpass, frequency: 1000 },
+          },
+        },
+        orientation: { ...scene.orientation, pitch: 120 },
+        beat: { ...scene.beat, carrier: 20 },
+      }),
+    );
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.issues.map((issue) => issue.path)).toEqual([
+      "scene.gain",
+      "scene.config.refDistance",
+      "scene.equalizer.bands.highpass.frequency",
+      "scene.orientation.pitch",
+      "scene.beat.carrier",
+    ]);
+  });
+
+  it("レイアウトと音源の並びが一致しなければ拒否する", () => {
+    const scene = createDefaultScene("stereo");
+    const result = parseSceneFile(
+      createSceneFile({ ...scene, sources: [...scene.sources].reverse() }),
+    );
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.issues.map((issue) => issue.path)).toEqual(["scene.sources"]);
+  });
+
+  it("新しいバージョンのファイルは読み込まない", () => {
+    const result = parseSceneFile({
+      ...createSceneFile(createDefaultScene()),
+      version: SCENE_FILE_VERSION + 1,
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("parseScene", () => {
+  it("保存されていたシーンを読み取る", () => {
+    const scene = createDefaultScene("quad");
+
+    expect(parseScene(JSON.parse(JSON.stringify(scene)))).toEqual(scene);
+  });
+
+  it("シーンとして扱えない値は null を返す", () => {
+    expect(parseScene(null)).toBeNull();
+    expect(parseScene("scene")).toBeNull();
+    expect(
+      parseScene({ ...createDefaultScene(), layout: "surround" }),
+    ).toBeNull();
+    expect(
+      parseScene({
+        ...createDefaultScene(),
+        motionPreset: { preset: "orbit", params: { rate: 100, depth: 0.5 } },
+      }),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,326 @@
+/**
+ * Scene Schema
+ *
+ * シーンをJSONファイルとして書き出し・読み込みするためのスキーマ
+ * ファイルには形式のバージョンを持たせ、古いバージョンは移行関数で現在の形に変換してから検証する
+ * localStorage やURLから読み込むシーンも同じスキーマで検証する
+ */
+
+import { z } from "zod";
+import { DEFAULT_AMBIENCE } from "../audio/ambience";
+import {
+  DEFAULT_BEAT,
+  MAX_BEAT_FREQUENCY,
+  MAX_CARRIER_FREQUENCY,
+  MIN_BEAT_FREQUENCY,
+  MIN_CARRIER_FREQUENCY,
+} from "../audio/beat-generator";
+import { MAX_HEAD_RADIUS, MIN_HEAD_RADIUS } from "../audio/binaural-renderer";
+import {
+  DEFAULT_DYNAMICS,
+  MAX_TARGET_LOUDNESS,
+  MIN_TARGET_LOUDNESS,
+} from "../audio/dynamics";
+import {
+  MAX_REVERB_DECAY,
+  MAX_REVERB_PRE_DELAY,
+  MIN_REVERB_DECAY,
+} from "../audio/environment";
+import {
+  DEFAULT_EQUALIZER,
+  EQUALIZER_FREQUENCY_RANGES,
+  type EqualizerBandId,
+  MAX_EQUALIZER_GAIN,
+  MAX_EQUALIZER_Q,
+  MIN_EQUALIZER_Q,
+} from "../audio/equalizer";
+import {
+  DEFAULT_ORIENTATION,
+  ORIENTATION_LIMITS,
+} from "../audio/listener-orientation";
+import { SOURCE_LAYOUTS } from "../audio/source-layout";
+import {
+  DEFAULT_INPUT_MODES,
+  MAX_MAX_DISTANCE,
+  MAX_REF_DISTANCE,
+  MAX_ROLLOFF_FACTOR,
+  MIN_MAX_DISTANCE,
+  MIN_REF_DISTANCE,
+  type VirtualSourceKind,
+} from "../audio/spatial-audio-engine";
+import { MAX_MOTION_RATE, MIN_MOTION_RATE } from "../motion/motion-presets";
+import { MAX_SCENE_NAME_LENGTH, type Scene } from "./scene";
+
+// 現在のファイル形式のバージョン
+export const SCENE_FILE_VERSION = 3;
+
+// シーンファイルの拡張子
+export const SCENE_FILE_ACCEPT = ".json,application/json";
+
+// 検証で見つかった問題（path は "scene.sources.0.gain" のような項目の位置）
+export interface SceneFileIssue {
+  path: string;
+  message: string;
+}
+
+// シーンファイルの読み取り結果
+export type SceneFileResult =
+  | { success: true; scene: Scene; name: string | null }
+  | { success: false; issues: SceneFileIssue[] };
+
+const positionSchema = z.object({
+  x: z.number().min(-1).max(1),
+  y: z.number().min(-1).max(1),
+  z: z.number().min(-1).max(1),
+});
+
+// イコライザーの帯域（周波数は帯域ごとに動かせる範囲）
+function equalizerBandSchema(id: EqualizerBandId) {
+  const [minFrequency, maxFrequency] = EQUALIZER_FREQUENCY_RANGES[id];
+  return z.object({
+    frequency: z.number().min(minFrequency).max(maxFrequency),
+    gain: z.number().min(-MAX_EQUALIZER_GAIN).max(MAX_EQUALIZER_GAIN),
+    q: z.number().min(MIN_EQUALIZER_Q).max(MAX_EQUALIZER_Q),
+  });
+}
+
+// 環境音の1つの層
+const ambienceLayerSchema = z.object({
+  enabled: z.boolean(),
+  level: z.number().min(0).max(1),
+  azimuth: z.number().min(-180).max(180),
+});
+
+const sceneSchema = z
+  .object({
+    layout: z.enum(["single", "stereo", "mid-side", "quad"]),
+    sources: z.array(
+      z.object({
+        kind: z.enum(["full", "left", "right", "mid", "side"]),
+        position: positionSchema,
+        gain: z.number().min(0).max(1),
+        inputMode: z.enum([
+          "stereo",
+          "mono",
+          "left",
+          "right",
+          "side",
+          "phase-invert",
+        ]),
+      }),
+    ),
+    gain: z.number().min(0).max(1),
+    config: z.object({
+      maxDistance: z.number().min(MIN_MAX_DISTANCE).max(MAX_MAX_DISTANCE),
+      refDistance: z.number().min(MIN_REF_DISTANCE).max(MAX_REF_DISTANCE),
+      rolloffFactor: z.number().min(0).max(MAX_ROLLOFF_FACTOR),
+      panningModel: z.enum(["HRTF", "equalpower"]),
+      distanceModel: z.enum(["linear", "inverse", "exponential"]),
+      airAbsorption: z.boolean(),
+      proximityEffect: z.boolean(),
+      renderer: z.enum(["panner", "hrir", "binaural"]),
+      hrirInterpolation: z.enum(["nearest", "interpolated"]),
+      headRadius: z.number().min(MIN_HEAD_RADIUS).max(MAX_HEAD_RADIUS),
+      crossfeed: z.number().min(0).max(1),
+    }),
+    environment: z.object({
+      preset: z.enum([
+        "none",
+        "bedroom",
+        "booth",
+        "cathedral",
+        "outdoors",
+        "custom",
+      ]),
+      custom: z.object({
+        decay: z.number().min(MIN_REVERB_DECAY).max(MAX_REVERB_DECAY),
+        preDelay: z.number().min(0).max(MAX_REVERB_PRE_DELAY),
+        damping: z.number().min(0).max(1),
+      }),
+      mix: z.number().min(0).max(1),
+    }),
+    equalizer: z.object({
+      enabled: z.boolean(),
+      bands: z.object({
+        highpass: equalizerBandSchema("highpass"),
+        lowShelf: equalizerBandSchema("lowShelf"),
+        lowMid: equalizerBandSchema("lowMid"),
+        mid: equalizerBandSchema("mid"),
+        highMid: equalizerBandSchema("highMid"),
+        highShelf: equalizerBandSchema("highShelf"),
+      }),
+    }),
+    dynamics: z.object({
+      compressor: z.boolean(),
+      limiter: z.boolean(),
+      autoGain: z.boolean(),
+      targetLoudness: z
+        .number()
+        .min(MIN_TARGET_LOUDNESS)
+        .max(MAX_TARGET_LOUDNESS),
+    }),
+    orientation: z.object({
+      yaw: z.number().min(-ORIENTATION_LIMITS.yaw).max(ORIENTATION_LIMITS.yaw),
+      pitch: z
+        .number()
+        .min(-ORIENTATION_LIMITS.pitch)
+        .max(ORIENTATION_LIMITS.pitch),
+      roll: z
+        .number()
+        .min(-ORIENTATION_LIMITS.roll)
+        .max(ORIENTATION_LIMITS.roll),
+    }),
+    ambience: z.object({
+      "pink-noise": ambienceLayerSchema,
+      "brown-noise": ambienceLayerSchema,
+      rain: ambienceLayerSchema,
+      fireplace: ambienceLayerSchema,
+      fan: ambienceLayerSchema,
+    }),
+    beat: z.object({
+      enabled: z.boolean(),
+      mode: z.enum(["binaural", "isochronic"]),
+      carrier: z.number().min(MIN_CARRIER_FREQUENCY).max(MAX_CARRIER_FREQUENCY),
+      beat: z.number().min(MIN_BEAT_FREQUENCY).max(MAX_BEAT_FREQUENCY),
+      level: z.number().min(0).max(1),
+    }),
+    motionPreset: z.object({
+      preset: z.enum(["orbit", "ear-sweep", "approach", "wander"]).nullable(),
+      params: z.object({
+        rate: z.number().min(MIN_MOTION_RATE).max(MAX_MOTION_RATE),
+        depth: z.number().min(0).max(1),
+      }),
+    }),
+  })
+  .superRefine((scene, context) => {
+    // 音源の並びはレイアウトと一致している必要がある
+    const expected = SOURCE_LAYOUTS[scene.layout];
+    const actual = scene.sources.map((source) => source.kind);
+    if (expected.join() !== actual.join()) {
+      context.addIssue({
+        code: "custom",
+        path: ["sources"],
+        message: `レイアウト「${scene.layout}」の音源は ${expected.join(", ")} の順に並べてください`,
+      });
+    }
+  }) satisfies z.ZodType<Scene>;
+
+const sceneFileSchema = z.object({
+  version: z.literal(SCENE_FILE_VERSION),
+  name: z.string().max(MAX_SCENE_NAME_LENGTH).nullable(),
+  scene: sceneSchema,
+});
+
+// シーンファイルの内容
+export type SceneFile = z.infer<typeof sceneFileSchema>;
+
+// オブジェクトかどうか
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// 音源に入力の処理の初期値を補う
+function withDefaultInputModes(scene: unknown): unknown {
+  if (!isRecord(scene) || !Array.isArray(scene.sources)) return scene;
+
+  return {
+    ...scene,
+    sources: scene.sources.map((source) =>
+      isRecord(source) && !("inputMode" in source)
+        ? {
+            ...source,
+            inputMode: DEFAULT_INPUT_MODES[source.kind as VirtualSourceKind],
+          }
+        : source,
+    ),
+  };
+}
+
+// 音質・頭の向き・環境音・ビートの初期値を補う
+function withDefaultSoundSettings(scene: unknown): unknown {
+  if (!isRecord(scene)) return scene;
+
+  return {
+    equalizer: DEFAULT_EQUALIZER,
+    dynamics: DEFAULT_DYNAMICS,
+    orientation: DEFAULT_ORIENTATION,
+    ambience: DEFAULT_AMBIENCE,
+    beat: DEFAULT_BEAT,
+    ...scene,
+  };
+}
+
+// バージョンごとの移行関数（キーは移行元のバージョン）
+const MIGRATIONS: Record<
+  number,
+  (value: Record<string, unknown>) => Record<string, unknown>
+> = {
+  // 0: バージョンを持たない、シーンそのものを書き出したファイル
+  0: (value) => ({ version: 1, name: null, scene: value }),
+  // 1: 音源ごとの入力の処理（inputMode）がなかった
+  1: (value) => ({
+    ...value,
+    version: 2,
+    scene: withDefaultInputModes(value.scene),
+  }),
+  // 2: イコライザー・ダイナミクス・頭の向き・環境音・ビートを保存していなかった
+  2: (value) => ({
+    ...value,
+    version: 3,
+    scene: withDefaultSoundSettings(value.scene),
+  }),
+};
+
+// 古いバージョンのファイルを現在の形に移行する
+function migrate(value: unknown): unknown {
+  if (!isRecord(value)) return value;
+
+  let current = value;
+  let version = typeof current.version === "number" ? current.version : 0;
+  while (version < SCENE_FILE_VERSION && MIGRATIONS[version]) {
+    current = MIGRATIONS[version](current);
+    version += 1;
+  }
+  return current;
+}
+
+/**
+ * シーンをファイルの形式に変換
+ */
+export function createSceneFile(
+  scene: Scene,
+  name: string | null = null,
+): SceneFile {
+  return { version: SCENE_FILE_VERSION, name, scene };
+}
+
+/**
+ * JSONとして読み込んだ値を検証し、シーンとして読み取る
+ * 問題があれば項目ごとのエラーを返す
+ */
+export function parseSceneFile(value: unknown): SceneFileResult {
+  const result = sceneFileSchema.safeParse(migrate(value), {
+    error: z.locales.ja().localeError,
+  });
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues.map((issue) => ({
+        path: issue.path.join("."),
+        message: issue.message,
+      })),
+    };
+  }
+
+  const { scene, name } = result.data;
+  return { success: true, scene, name };
+}
+
+/**
+ * 保存や共有で届いた値をシーンとして読み取る（問題があれば null）
+ * シーンそのものもファイルの形式のものも、ファイルと同じ移行と検証を通す
+ */
+export function parseScene(value: unknown): Scene | null {
+  const result = parseSceneFile(value);
+  return result.success ? result.scene : null;
+}
@@ -0,0 +1,117 @@
+/**
+ * Scene Storage
+ *
+ * シーンを localStorage に保存・読み込みするユーティリティ
+ * 名前付きのシーン一覧と、前回のセッション（最後の状態）を別々のキーで保持する
+ */
+
+import type { SavedScene, Scene } from "./scene";
+import { parseScene } from "./scene-schema";
+
+const STORAGE_PREFIX = "custom-asmr-player";
+const SAVED_SCENES_KEY = `${STORAGE_PREFIX}:scenes`;
+const LAST_SESSION_KEY = `${STORAGE_PREFIX}:last-session`;
+const RESTORE_LAST_SESSION_KEY = `${STORAGE_PREFIX}:restore-last-session`;
+
+// localStorage を取得（使えない環境では null）
+function getStorage(): Storage | null {
+  try {
+    return typeof window === "undefined" ? null : window.localStorage;
+  } catch {
+    // プライベートモードなどでアクセス自体が拒否される場合がある
+    return null;
+  }
+}
+
+// JSON として読み込む（存在しない・壊れている場合は null）
+function readJson(key: string): unknown {
+  const value = getStorage()?.getItem(key);
+  if (!value) return null;
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+// JSON として書き込む（容量不足などで書き込めない場合は false）
+function writeJson(key: string, value: unknown): boolean {
+  const storage = getStorage();
+  if (!storage) return false;
+
+  try {
+    storage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * localStorage が使えるかどうか
+ */
+export function isSceneStorageAvailable(): boolean {
+  return getStorage() !== null;
+}
+
+/**
+ * 保存したシーンの一覧を読み込む（読み取れないシーンは除外）
+ */
+export function loadSavedScenes(): SavedScene[] {
+  const value = readJson(SAVED_SCENES_KEY);
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((item): SavedScene[] => {
+    if (typeof item !== "object" || item === null) return [];
+
+    const { id, name, savedAt, scene } = item as Record<string, unknown>;
+    const parsed = parseScene(scene);
+    if (typeof id !== "string" || typeof name !== "string" || !parsed) {
+      return [];
+    }
+    return [
+      {
+        id,
+        name,
+        savedAt: typeof savedAt === "number" ? savedAt : 0,
+        scene: parsed,
+      },
+    ];
+  });
+}
+
+/**
+ * シーンの一覧を保存
+ */
+export function storeSavedScenes(scenes: SavedScene[]): boolean {
+  return writeJson(SAVED_SCENES_KEY, scenes);
+}
+
+/**
+ * 前回のセッションを読み込む
+ */
+export function loadLastSession(): Scene | null {
+  return parseScene(readJson(LAST_SESSION_KEY));
+}
+
+/**
+ * 現在の状態を前回のセッションとして保存
+ */
+export function storeLastSession(scene: Scene): boolean {
+  return writeJson(LAST_SESSION_KEY, scene);
+}
+
+/**
+ * 起動時に前回のセッションを復元するかどうか
+ */
+export function loadRestoreLastSession(): boolean {
+  return readJson(RESTORE_LAST_SESSION_KEY) === true;
+}
+
+/**
+ * 起動時に前回のセッションを復元するかどうかを保存
+ */
+export function storeRestoreLastSession(enabled: boolean): boolean {
+  return writeJson(RESTORE_LAST_SESSION_KEY, enabled);
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { createDefaultScene, type Scene } from "./scene";
+import { createSceneUrl, decodeScene, encodeScene } from "./scene-url";
+
+// 中身を直接組み立てたバージョン1の文字列を作る
+function encodeCompact(compact: unknown): string {
+  const base64 = btoa(JSON.stringify(compact))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+  return `1.${base64}`;
+}
+
+describe("encodeScene / decodeScene", () => {
+  it("初期状態のシーンを往復できる", () => {
+    const scene = createDefaultScene();
+
+    expect(decodeScene(encodeScene(scene))).toEqual(scene);
+  });
+
+  it("既定値から変更した項目も往復できる", () => {
+    const defaults = createDefaultScene("quad");
+    const scene: Scene = {
+      ...defaults,
+      sources: defaults.sources.map((source, index) => ({
+        ...source,
+        position: { x: -0.5, y: 0.25, z: index / 4 },
+        gain: 0.75,
+        inputMode: index === 0 ? "phase-invert" : source.inputMode,
+      })),
+      gain: 0.5,
+      config: { ...defaults.config, renderer: "binaural", crossfeed: 0.3 },
+      environment: { ...defaults.environment, preset: "cathedral", mix: 0.4 },
+      equalizer: {
+        enabled: true,
+        bands: {
+          ...defaults.equalizer.bands,
+          mid: { frequency: 2000, gain: -4, q: 2 },
+        },
+      },
+      dynamics: { ...defaults.dynamics, autoGain: true, targetLoudness: -16 },
+      orientation: { yaw: 30, pitch: -10, roll: 5 },
+      ambience: {
+        ...defaults.ambience,
+        rain: { enabled: true, level: 0.6, azimuth: 90 },
+      },
+      beat: { ...defaults.beat, enabled: true, mode: "isochronic", beat: 4 },
+      motionPreset: { preset: "orbit", params: { rate: 0.2, depth: 0.8 } },
+    };
+
+    expect(decodeScene(encodeScene(scene))).toEqual(scene);
+  });
+
+  it("座標と音量は小数第3位に丸める", () => {
+    const defaults = createDefaultScene();
+    const scene: Scene = {
+      ...defaults,
+      sources: [
+        {
+          ...defaults.sources[0],
+          position: { x: 0.12345, y: -0.98765, z: 0 },
+        },
+      ],
+      gain: 0.33333,
+    };
+
+    const decoded = decodeScene(encodeScene(scene));
+    expect(decoded?.sources[0].position).toEqual({ x: 0.123, y: -0.988, z: 0 });
+    expect(decoded?.gain).toBe(0.333);
+  });
+
+  it("URLでそのまま使える文字だけで表す", () => {
+    const encoded = encodeScene(createDefaultScene("stereo"));
+
+    expect(encoded).toMatch(/^1\.[A-Za-z0-9_-]+$/);
+  });
+
+  it("読み取れない文字列は null を返す", () => {
+    expect(decodeScene("")).toBeNull();
+    expect(decodeScene("abc")).toBeNull();
+    expect(decodeScene("2.e30")).toBeNull();
+    expect(decodeScene("1.!!!")).toBeNull();
+    expect(decodeScene(encodeCompact("scene"))).toBeNull();
+  });
+
+  it("範囲外の値を含むリンクは null を返す", () => {
+    const valid = { l: "single", s: [[0, 0, 0, 1]], g: 1 };
+
+    expect(decodeScene(encodeCompact(valid))).not.toBeNull();
+    expect(decodeScene(encodeCompact({ ...valid, g: 10 }))).toBeNull();
+    expect(
+      decodeScene(encodeCompact({ ...valid, s: [[5, 0, 0, 1]] })),
+    ).toBeNull();
+    expect(
+      decodeScene(encodeCompact({ ...valid, c: { maxDistance: 1e9 } })),
+    ).toBeNull();
+    expect(
+      decodeScene(
+        encodeCompact({ ...valid, q: { lowMid: { frequency: 1e5 } } }),
+      ),
+    ).toBeNull();
+    expect(
+      decodeScene(encodeCompact({ ...valid, b: { beat: 100 } })),
+    ).toBeNull();
+    expect(decodeScene(encodeCompact({ ...valid, l: "stereo" }))).toBeNull();
+  });
+});
+
+describe("createSceneUrl", () => {
+  it("他のクエリは残し、ハッシュは外す", () => {
+    const url = new URL(
+      createSceneUrl(
+        createDefaultScene(),
+        "https://example.com/player?lang=ja#top",
+      ),
+    );
+
+    expect(url.searchParams.get("lang")).toBe("ja");
+    expect(url.hash).toBe("");
+    expect(decodeScene(url.searchParams.get("scene") ?? "")).toEqual(
+      createDefaultScene(),
+    );
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Scene URL
+ *
+ * シーンをURLに載せられる短い文字列に変換するユーティリティ
+ * 「<バージョン>.<base64url>」の形式で、中身は既定値との差分だけを詰めたJSON
+ * 形式を変えるときはバージョンを上げ、古いバージョンも読めるようにする
+ */
+
+import type { EqualizerSettings } from "../audio/equalizer";
+import { SOURCE_LAYOUTS, type SourceLayout } from "../audio/source-layout";
+import { DEFAULT_INPUT_MODES } from "../audio/spatial-audio-engine";
+import { createDefaultScene, type Scene } from "./scene";
+import { parseScene } from "./scene-schema";
+
+// シーンを載せるクエリパラメータ名
+export const SCENE_URL_PARAM = "scene";
+
+// 現在のエンコード形式のバージョン
+const SCENE_URL_VERSION = 1;
+
+// 座標や音量を丸める桁数
+const PRECISION = 1000;
+
+// バージョン1の中身（キーは短縮形）
+interface CompactSceneV1 {
+  l: string; // レイアウト
+  s: [number, number, number, number][]; // 音源ごとの [x, y, z, 音量]（レイアウト順）
+  i?: string[]; // 音源ごとの入力の処理（すべて初期値なら省略）
+  g: number; // 全体の音量
+  c?: Record<string, unknown>; // 既定値と異なる空間音響の設定
+  e?: Record<string, unknown>; // 既定値と異なる部屋の響き
+  q?: Record<string, unknown>; // 既定値と異なるイコライザーのオン・オフと帯域
+  d?: Record<string, unknown>; // 既定値と異なるダイナミクスの設定
+  o?: Record<string, unknown>; // 既定値と異なる頭の向き
+  a?: Record<string, unknown>; // 既定値と異なる環境音の層
+  b?: Record<string, unknown>; // 既定値と異なるビートの設定
+  m?: [string | null, number, number]; // モーションプリセット [種類, 速さ, 大きさ]
+}
+
+// 小数を丸める
+function round(value: number): number {
+  return Math.round(value * PRECISION) / PRECISION;
+}
+
+// 既定値と異なる項目だけを取り出す（なければ undefined）
+function diff<T extends object>(
+  value: T,
+  defaults: T,
+): Record<string, unknown> | undefined {
+  const entries = Object.entries(value).filter(
+    ([key, item]) =>
+      JSON.stringify(item) !== JSON.stringify(defaults[key as keyof T]),
+  );
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+// イコライザーの設定を、帯域ごとに差分を取れる1段の形にする
+function flattenEqualizer({
+  enabled,
+  bands,
+}: EqualizerSettings): Record<string, unknown> {
+  return { enabled, ...bands };
+}
+
+// 文字列を URL で使える base64 に変換
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join(
+    "",
+  );
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+// URL で使える base64 を文字列に戻す
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, (char) => char.charCodeAt(0)),
+  );
+}
+
+// イコライザーの差分を既定値に重ねて元の形に戻す
+function expandEqualizer(
+  defaults: EqualizerSettings,
+  compact: Record<string, unknown> | undefined,
+): unknown {
+  const { enabled = defaults.enabled, ...bands } = compact ?? {};
+  return { enabled, bands: { ...defaults.bands, ...bands } };
+}
+
+// バージョン1の中身をシーンの形に戻す（値の検証はファイルの読み込みと同じスキーマで行う）
+// 音源は種類を持たないため、レイアウト順に種類を割り当て、省略された項目は既定値で補う
+function expandSceneV1(compact: CompactSceneV1): unknown {
+  const { l, s, i, g, c, e, q, d, o, a, b, m } = compact;
+  const layouts = Object.keys(SOURCE_LAYOUTS) as SourceLayout[];
+  if (!layouts.includes(l as SourceLayout)) return null;
+
+  const layout = l as SourceLayout;
+  const kinds = SOURCE_LAYOUTS[layout];
+  const defaults = createDefaultScene(layout);
+  return {
+    layout,
+    sources: Array.isArray(s)
+      ? s.map((item, index) => {
+          const [x, y, z, gain] = Array.isArray(item) ? item : [];
+          return {
+            kind: kinds[index],
+            position: { x, y, z },
+            gain,
+            inputMode: Array.isArray(i)
+              ? i[index]
+              : DEFAULT_INPUT_MODES[kinds[index]],
+          };
+        })
+      : [],
+    gain: g,
+    config: { ...defaults.config, ...c },
+    environment: { ...defaults.environment, ...e },
+    equalizer: expandEqualizer(defaults.equalizer, q),
+    dynamics: { ...defaults.dynamics, ...d },
+    orientation: { ...defaults.orientation, ...o },
+    ambience: { ...defaults.ambience, ...a },
+    beat: { ...defaults.beat, ...b },
+    motionPreset: Array.isArray(m)
+      ? { preset: m[0], params: { rate: m[1], depth: m[2] } }
+      : defaults.motionPreset,
+  };
+}
+
+/**
+ * シーンをURLに載せられる文字列に変換
+ */
+export function encodeScene(scene: Scene): string {
+  const defaults = createDefaultScene(scene.layout);
+  const { preset, params } = scene.motionPreset;
+  const isDefaultInput = scene.sources.every(
+    (source) => source.inputMode === DEFAULT_INPUT_MODES[source.kind],
+  );
+  const isDefaultMotion =
+    preset === null && !diff(params, defaults.motionPreset.params);
+
+  const compact: CompactSceneV1 = {
+    l: scene.layout,
+    s: scene.sources.map(({ position, gain }) => [
+      round(position.x),
+      round(position.y),
+      round(position.z),
+      round(gain),
+    ]),
+    i: isDefaultInput
+      ? undefined
+      : scene.sources.map((source) => source.inputMode),
+    g: round(scene.gain),
+    c: diff(scene.config, defaults.config),
+    e: diff(scene.environment, defaults.environment),
+    q: diff(
+      flattenEqualizer(scene.equalizer),
+      flattenEqualizer(defaults.equalizer),
+    ),
+    d: diff(scene.dynamics, defaults.dynamics),
+    o: diff(scene.orientation, defaults.orientation),
+    a: diff(scene.ambience, defaults.ambience),
+    b: diff(scene.beat, defaults.beat),
+    m: isDefaultMotion ? undefined : [preset, params.rate, params.depth],
+  };
+  return `${SCENE_URL_VERSION}.${toBase64Url(JSON.stringify(compact))}`;
+}
+
+/**
+ * URLの文字列からシーンを読み取る（読み取れない場合や値が範囲外の場合は null）
+ * 誰から届いたリンクでも読み込むため、ファイルの読み込みと同じスキーマで検証する
+ */
+export function decodeScene(encoded: string): Scene | null {
+  const separator = encoded.indexOf(".");
+  const version = Number(encoded.slice(0, separator));
+  if (separator < 0 || version !== SCENE_URL_VERSION) return null;
+
+  let compact: CompactSceneV1;
+  try {
+    compact = JSON.parse(fromBase64Url(encoded.slice(separator + 1)));
+  } catch {
+    return null;
+  }
+  if (typeof compact !== "object" || compact === null) return null;
+
+  return parseScene(expandSceneV1(compact));
+}
+
+/**
+ * シーンを載せた共有用のURLを作成
+ */
+export function createSceneUrl(scene: Scene, baseUrl: string): string {
+  const url = new URL(baseUrl);
+  url.searchParams.set(SCENE_URL_PARAM, encodeScene(scene));
+  url.hash = "";
+  return url.toString();
+}
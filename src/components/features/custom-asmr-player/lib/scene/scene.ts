@@ -0,0 +1,106 @@
+/**
+ * Scene
+ *
+ * 音源の配置・音量・空間音響の設定・響き・音質・頭の向き・環境音・ビート・モーションプリセットをまとめた「シーン」の定義
+ * 保存や共有のために、プレーンなオブジェクトとして扱う
+ */
+
+import { type AmbienceSettings, DEFAULT_AMBIENCE } from "../audio/ambience";
+import { type BeatSettings, DEFAULT_BEAT } from "../audio/beat-generator";
+import { DEFAULT_DYNAMICS, type DynamicsSettings } from "../audio/dynamics";
+import {
+  DEFAULT_ENVIRONMENT,
+  type EnvironmentSettings,
+} from "../audio/environment";
+import { DEFAULT_EQUALIZER, type EqualizerSettings } from "../audio/equalizer";
+import {
+  DEFAULT_ORIENTATION,
+  type ListenerOrientation,
+} from "../audio/listener-orientation";
+import {
+  DEFAULT_SOURCE_PAD_POSITIONS,
+  SOURCE_LAYOUTS,
+  type SourceLayout,
+} from "../audio/source-layout";
+import {
+  DEFAULT_CONFIG,
+  DEFAULT_INPUT_MODES,
+  type InputMode,
+  type Position3D,
+  padToPosition3D,
+  type SpatialAudioConfig,
+  type VirtualSourceKind,
+} from "../audio/spatial-audio-engine";
+import {
+  DEFAULT_MOTION_PRESET_PARAMS,
+  type MotionPresetKind,
+  type MotionPresetParams,
+} from "../motion/motion-presets";
+
+// シーン内の仮想音源
+export interface SceneSource {
+  kind: VirtualSourceKind;
+  position: Position3D;
+  gain: number;
+  inputMode: InputMode;
+}
+
+// シーン内のモーションプリセット
+export interface SceneMotionPreset {
+  preset: MotionPresetKind | null;
+  params: MotionPresetParams;
+}
+
+// シーン
+export interface Scene {
+  layout: SourceLayout;
+  sources: SceneSource[];
+  gain: number;
+  config: SpatialAudioConfig;
+  environment: EnvironmentSettings;
+  equalizer: EqualizerSettings;
+  dynamics: DynamicsSettings;
+  orientation: ListenerOrientation;
+  ambience: AmbienceSettings;
+  beat: BeatSettings;
+  motionPreset: SceneMotionPreset;
+}
+
+// 名前を付けて保存したシーン
+export interface SavedScene {
+  id: string;
+  name: string;
+  // 保存した時刻（ミリ秒）
+  savedAt: number;
+  scene: Scene;
+}
+
+// シーン名の最大文字数
+export const MAX_SCENE_NAME_LENGTH = 40;
+
+/**
+ * 初期状態のシーンを作成
+ */
+export function createDefaultScene(layout: SourceLayout = "single"): Scene {
+  return {
+    layout,
+    sources: SOURCE_LAYOUTS[layout].map((kind) => {
+      const { padX, padY } = DEFAULT_SOURCE_PAD_POSITIONS[kind];
+      return {
+        kind,
+        position: padToPosition3D(padX, padY, 0),
+        gain: 1,
+        inputMode: DEFAULT_INPUT_MODES[kind],
+      };
+    }),
+    gain: 1,
+    config: DEFAULT_CONFIG,
+    environment: DEFAULT_ENVIRONMENT,
+    equalizer: DEFAULT_EQUALIZER,
+    dynamics: DEFAULT_DYNAMICS,
+    orientation: DEFAULT_ORIENTATION,
+    ambience: DEFAULT_AMBIENCE,
+    beat: DEFAULT_BEAT,
+    motionPreset: { preset: null, params: DEFAULT_MOTION_PRESET_PARAMS },
+  };
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { Mic } from "lucide-react";
+import { useId } from "react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { cn } from "@/lib/utils";
+import type { MicrophoneProcessing } from "../hooks/use-microphone-capture";
+
+interface MicrophoneSourcePanelProps {
+  // 音声処理オプション
+  processing: MicrophoneProcessing;
+  onProcessingChange?: (processing: Partial<MicrophoneProcessing>) => void;
+
+  className?: string;
+}
+
+export function MicrophoneSourcePanel({
+  processing,
+  onProcessingChange,
+  className,
+}: MicrophoneSourcePanelProps) {
+  const echoCancellationId = useId();
+  const noiseSuppressionId = useId();
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex items-center justify-between">
+        <Label htmlFor={echoCancellationId} className="text-sm">
+          エコーキャンセル
+        </Label>
+        <Switch
+          id={echoCancellationId}
+          checked={processing.echoCancellation}
+          onCheckedChange={(checked) =>
+            onProcessingChange?.({ echoCancellation: checked })
+          }
+        />
+      </div>
+      <div className="flex items-center justify-between">
+        <Label htmlFor={noiseSuppressionId} className="text-sm">
+          ノイズ抑制
+        </Label>
+        <Switch
+          id={noiseSuppressionId}
+          checked={processing.noiseSuppression}
+          onCheckedChange={(checked) =>
+            onProcessingChange?.({ noiseSuppression: checked })
+          }
+        />
+      </div>
+
+      {/* ハウリングの注意 */}
+      <div className="flex items-start gap-2 rounded-lg bg-muted/50 p-3 text-muted-foreground text-xs">
+        <Mic className="mt-0.5 h-4 w-4 flex-shrink-0" />
+        <p>
+          スピーカーで再生するとハウリングが起きるため、必ずヘッドホンでモニターしてください。
+          トリガー音の質感を残すため、音声処理は既定でオフにしています。
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import { Orbit } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import {
+  MAX_MOTION_RATE,
+  MIN_MOTION_RATE,
+  MOTION_PRESET_LABELS,
+  type MotionPresetKind,
+} from "../lib/motion/motion-presets";
+
+interface MotionPresetPickerProps {
+  // プリセット
+  preset: MotionPresetKind | null;
+  onPresetChange?: (preset: MotionPresetKind | null) => void;
+
+  // パラメータ
+  rate: number;
+  onRateChange?: (rate: number) => void;
+  depth: number;
+  onDepthChange?: (depth: number) => void;
+
+  disabled?: boolean;
+}
+
+// プリセットなしを表すSelectの値
+const NO_PRESET = "none";
+
+export function MotionPresetPicker({
+  preset,
+  onPresetChange,
+  rate,
+  onRateChange,
+  depth,
+  onDepthChange,
+  disabled = false,
+}: MotionPresetPickerProps) {
+  const handlePresetChange = (value: string) => {
+    onPresetChange?.(value === NO_PRESET ? null : (value as MotionPresetKind));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <span className="flex items-center gap-2 font-medium text-sm">
+          <Orbit className="h-4 w-4" />
+          自動モーション
+        </span>
+        <Select
+          value={preset ?? NO_PRESET}
+          onValueChange={handlePresetChange}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-48" aria-label="自動モーション">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_PRESET}>なし（手動）</SelectItem>
+            {(Object.keys(MOTION_PRESET_LABELS) as MotionPresetKind[]).map(
+              (kind) => (
+                <SelectItem key={kind} value={kind}>
+                  {MOTION_PRESET_LABELS[kind]}
+                </SelectItem>
+              ),
+            )}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* 速度と深さ */}
+      {preset && (
+        <>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-muted-foreground">速さ</span>
+              <span className="font-mono text-muted-foreground">
+                {(1 / rate).toFixed(1)} 秒/周
+              </span>
+            </div>
+            <Slider
+              value={[rate]}
+              onValueChange={(values) => onRateChange?.(values[0])}
+              min={MIN_MOTION_RATE}
+              max={MAX_MOTION_RATE}
+              step={0.01}
+              disabled={disabled}
+              className="w-full"
+              aria-label="自動モーションの速さ"
+            />
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-muted-foreground">深さ</span>
+              <span className="font-mono text-muted-foreground">
+                {Math.round(depth * 100)}%
+              </span>
+            </div>
+            <Slider
+              value={[depth]}
+              onValueChange={(values) => onDepthChange?.(values[0])}
+              min={0}
+              max={1}
+              step={0.01}
+              disabled={disabled}
+              className="w-full"
+              aria-label="自動モーションの深さ"
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import { Circle, Play, Route, Square, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { cn } from "@/lib/utils";
+import type { MotionRecorderStatus } from "../hooks/use-motion-recorder";
+import {
+  MAX_MOTION_SPEED,
+  MIN_MOTION_SPEED,
+  type MotionLoopMode,
+} from "../lib/motion/motion-path";
+
+interface MotionRecorderProps {
+  // レコーダー状態
+  status: MotionRecorderStatus;
+  keyframeCount: number;
+  duration: number;
+
+  // 再生設定
+  loopMode: MotionLoopMode;
+  onLoopModeChange?: (mode: MotionLoopMode) => void;
+  speed: number;
+  onSpeedChange?: (speed: number) => void;
+
+  // 操作
+  onStartRecording?: () => void;
+  onStopRecording?: () => void;
+  onPlay?: () => void;
+  onStop?: () => void;
+  onClear?: () => void;
+
+  disabled?: boolean;
+  className?: string;
+}
+
+// 再生モードの表示名
+const LOOP_MODE_LABELS: Record<MotionLoopMode, string> = {
+  once: "1回",
+  loop: "ループ",
+  "ping-pong": "往復",
+};
+
+export function MotionRecorder({
+  status,
+  keyframeCount,
+  duration,
+  loopMode,
+  onLoopModeChange,
+  speed,
+  onSpeedChange,
+  onStartRecording,
+  onStopRecording,
+  onPlay,
+  onStop,
+  onClear,
+  disabled = false,
+  className,
+}: MotionRecorderProps) {
+  const isRecording = status === "recording";
+  const isPlaying = status === "playing";
+  const hasPath = keyframeCount > 1 && duration > 0;
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Route className="h-5 w-5" />
+          動きの記録と再生
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* 記録/再生ボタン */}
+        <div className="flex gap-3">
+          <Button
+            onClick={isRecording ? onStopRecording : onStartRecording}
+            disabled={disabled || isPlaying}
+            variant={isRecording ? "destructive" : "outline"}
+            className={cn("flex-1", isRecording && "animate-pulse")}
+          >
+            {isRecording ? (
+              <>
+                <Square className="mr-2 h-4 w-4" />
+                記録を終了
+              </>
+            ) : (
+              <>
+                <Circle className="mr-2 h-4 w-4" />
+                記録
+              </>
+            )}
+          </Button>
+          <Button
+            onClick={isPlaying ? onStop : onPlay}
+            disabled={disabled || isRecording || !hasPath}
+            className="flex-1"
+          >
+            {isPlaying ? (
+              <>
+                <Square className="mr-2 h-4 w-4" />
+                停止
+              </>
+            ) : (
+              <>
+                <Play className="mr-2 h-4 w-4" />
+                再生
+              </>
+            )}
+          </Button>
+          <Button
+            onClick={onClear}
+            disabled={isRecording || !hasPath}
+            variant="ghost"
+            size="icon"
+            aria-label="記録を消去"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {/* 記録内容 */}
+        <p className="text-center text-muted-foreground text-xs">
+          {isRecording
+            ? "パッドをドラッグして動きを記録しています..."
+            : hasPath
+              ? `${keyframeCount} キーフレーム / ${duration.toFixed(1)} 秒`
+              : "「記録」を押してからパッドをドラッグしてください"}
+        </p>
+
+        {/* 再生モード */}
+        <div className="flex items-center justify-between gap-3">
+          <span className="font-medium text-sm">再生モード</span>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={loopMode}
+            onValueChange={(value) => {
+              if (value) onLoopModeChange?.(value as MotionLoopMode);
+            }}
+          >
+            {(Object.keys(LOOP_MODE_LABELS) as MotionLoopMode[]).map((mode) => (
+              <ToggleGroupItem key={mode} value={mode} className="px-3">
+                {LOOP_MODE_LABELS[mode]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+
+        {/* 再生速度 */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="font-medium text-sm">再生速度</span>
+            <span className="font-mono text-muted-foreground text-sm">
+              {speed.toFixed(2)}x
+            </span>
+          </div>
+          <Slider
+            value={[speed]}
+            onValueChange={(values) => onSpeedChange?.(values[0])}
+            min={MIN_MOTION_SPEED}
+            max={MAX_MOTION_SPEED}
+            step={0.05}
+            className="w-full"
+            aria-label="再生速度"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
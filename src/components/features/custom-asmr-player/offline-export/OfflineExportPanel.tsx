@@ -0,0 +1,110 @@
+"use client";
+
+import { Download, Loader2 } from "lucide-react";
+import { useId, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { cn } from "@/lib/utils";
+import type { OfflineExportStatus } from "../hooks/use-offline-export";
+import type { WavBitDepth } from "../lib/audio/wav-encoder";
+
+interface OfflineExportPanelProps {
+  // 書き出し状態
+  status: OfflineExportStatus;
+  progress: number;
+  errorMessage: string | null;
+
+  // 記録した動きがあるか
+  hasMotion: boolean;
+
+  // 操作
+  onExport?: (bitDepth: WavBitDepth, includeMotion: boolean) => void;
+
+  disabled?: boolean;
+  className?: string;
+}
+
+export function OfflineExportPanel({
+  status,
+  progress,
+  errorMessage,
+  hasMotion,
+  onExport,
+  disabled = false,
+  className,
+}: OfflineExportPanelProps) {
+  const [bitDepth, setBitDepth] = useState<WavBitDepth>(24);
+  const [includeMotion, setIncludeMotion] = useState(true);
+  const includeMotionId = useId();
+
+  const isRendering = status === "rendering";
+
+  return (
+    <div className={cn("space-y-3 rounded-lg border p-3", className)}>
+      <div className="flex items-center justify-between gap-3">
+        <span className="font-medium text-sm">WAVに書き出し</span>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={String(bitDepth)}
+          onValueChange={(value) => {
+            if (value) setBitDepth(Number(value) as WavBitDepth);
+          }}
+          disabled={isRendering}
+        >
+          <ToggleGroupItem value="16" className="px-3 text-xs">
+            16bit
+          </ToggleGroupItem>
+          <ToggleGroupItem value="24" className="px-3 text-xs">
+            24bit
+          </ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor={includeMotionId} className="text-sm">
+          記録した動きを含める
+        </Label>
+        <Switch
+          id={includeMotionId}
+          checked={hasMotion && includeMotion}
+          onCheckedChange={setIncludeMotion}
+          disabled={!hasMotion || isRendering}
+        />
+      </div>
+
+      {/* 進捗 */}
+      {isRendering && (
+        <div className="flex items-center gap-3">
+          <Progress value={progress * 100} className="flex-1" />
+          <span className="font-mono text-muted-foreground text-xs">
+            {Math.round(progress * 100)}%
+          </span>
+        </div>
+      )}
+
+      {errorMessage && (
+        <p className="text-destructive text-xs">{errorMessage}</p>
+      )}
+
+      <Button
+        onClick={() => onExport?.(bitDepth, hasMotion && includeMotion)}
+        disabled={disabled || isRendering}
+        variant="outline"
+        size="sm"
+        className="w-full"
+      >
+        {isRendering ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <Download className="mr-2 h-4 w-4" />
+        )}
+        {isRendering ? "レンダリング中..." : "ヘッドホン用WAVを書き出す"}
+      </Button>
+    </div>
+  );
+}
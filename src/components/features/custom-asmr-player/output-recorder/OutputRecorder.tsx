@@ -0,0 +1,138 @@
+"use client";
+
+import { Circle, Download, Loader2, Mic2, Square, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import type {
+  OutputRecorderStatus,
+  OutputRecording,
+} from "../hooks/use-output-recorder";
+import { formatDuration } from "../lib/audio/audio-file";
+import { getRecordingExtension } from "../lib/audio/recording-format";
+
+interface OutputRecorderProps {
+  // 録音状態
+  status: OutputRecorderStatus;
+  elapsed: number;
+  recording: OutputRecording | null;
+  errorMessage: string | null;
+
+  // 操作
+  onStart?: () => void;
+  onStop?: () => void;
+  onDownload?: () => void;
+  onDownloadWav?: () => void;
+  onDiscard?: () => void;
+
+  isSupported: boolean;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function OutputRecorder({
+  status,
+  elapsed,
+  recording,
+  errorMessage,
+  onStart,
+  onStop,
+  onDownload,
+  onDownloadWav,
+  onDiscard,
+  isSupported,
+  disabled = false,
+  className,
+}: OutputRecorderProps) {
+  const isRecording = status === "recording";
+  const isEncoding = status === "encoding";
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mic2 className="h-5 w-5" />
+          出力の録音
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* 録音ボタン */}
+        <Button
+          onClick={isRecording ? onStop : onStart}
+          disabled={!isSupported || (!isRecording && disabled) || isEncoding}
+          variant={isRecording ? "destructive" : "outline"}
+          className={cn("w-full", isRecording && "animate-pulse")}
+        >
+          {isRecording ? (
+            <>
+              <Square className="mr-2 h-4 w-4" />
+              録音を終了（{formatDuration(elapsed)}）
+            </>
+          ) : (
+            <>
+              <Circle className="mr-2 h-4 w-4" />
+              録音
+            </>
+          )}
+        </Button>
+
+        {/* 録音した音声 */}
+        {recording && !isRecording && (
+          <div className="space-y-3 rounded-lg border p-3">
+            <div className="flex items-center justify-between">
+              <span className="font-mono text-muted-foreground text-xs">
+                {formatDuration(recording.duration)} /{" "}
+                {getRecordingExtension(recording.mimeType).toUpperCase()}
+              </span>
+              <Button
+                onClick={onDiscard}
+                disabled={isEncoding}
+                variant="ghost"
+                size="icon"
+                aria-label="録音を破棄"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex gap-3">
+              <Button
+                onClick={onDownload}
+                disabled={isEncoding}
+                variant="outline"
+                size="sm"
+                className="flex-1"
+              >
+                <Download className="mr-2 h-4 w-4" />
+                {getRecordingExtension(recording.mimeType).toUpperCase()}
+              </Button>
+              <Button
+                onClick={onDownloadWav}
+                disabled={isEncoding}
+                variant="outline"
+                size="sm"
+                className="flex-1"
+              >
+                {isEncoding ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Download className="mr-2 h-4 w-4" />
+                )}
+                WAV
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {errorMessage && (
+          <p className="text-destructive text-xs">{errorMessage}</p>
+        )}
+
+        <p className="text-center text-muted-foreground text-xs">
+          {isSupported
+            ? "音源を動かしながら、聴いているままの3D音声を録音できます"
+            : "このブラウザは録音に対応していません"}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
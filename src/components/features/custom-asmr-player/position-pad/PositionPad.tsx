@@ -3,6 +3,7 @@
 import { Move3d } from "lucide-react";
 import { useCallback, useRef, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Slider } from "@/components/ui/slider";
 import { cn } from "@/lib/utils";
 
 interface Position {
@@ -10,11 +11,35 @@ interface Position {
   y: number; // -1 (下/後ろ) から 1 (上/前)
 }
 
+// パッド上に表示する音源マーカー
+export interface PadMarker {
+  id: string;
+  /** マーカー内に表示する短いラベル */
+  label: string;
+  /** 座標表示に使う名前 */
+  name: string;
+  x: number; // -1 (左) から 1 (右)
+  y: number; // -1 (後ろ) から 1 (前)
+  height: number; // -1 (下) から 1 (上)
+  /** Home キーで戻す初期位置（リスナーと重なると方向が決まらないため、中央ではなく配置ごとの位置） */
+  home: { x: number; y: number; height: number };
+}
+
 interface PositionPadProps {
+  /** 表示する音源マーカー */
+  markers: PadMarker[];
+  /** 選択中のマーカーID（省略時は先頭のマーカー） */
+  selectedId?: string;
+  /** マーカーが選択されたときのコールバック */
+  onSelect?: (id: string) => void;
   /** 位置が変更されたときのコールバック */
-  onPositionChange?: (x: number, y: number) => void;
-  /** 初期位置 */
-  initialPosition?: Position;
+  onPositionChange?: (id: string, x: number, y: number, height: number) => void;
+  /** リスナーの顔の向き（度、右を向くと正） */
+  listenerYaw?: number;
+  /** リスナーのつまみを回したときのコールバック（省略時は回せない） */
+  onListenerYawChange?: (yaw: number) => void;
+  /** 操作に使っているゲームパッドの名前（接続されていなければ null） */
+  gamepadName?: string | null;
   /** 無効化状態 */
   disabled?: boolean;
   /** カスタムクラス */
@@ -39,6 +64,44 @@ function pixelToNormalized(
   };
 }
 
+// パッドの中心から見たポインターの方向を角度に変換（上が0度、右回りが正）
+function pixelToYaw(
+  pixelX: number,
+  pixelY: number,
+  width: number,
+  height: number,
+): number {
+  const dx = pixelX - width / 2;
+  const dy = pixelY - height / 2;
+  return (Math.atan2(dx, -dy) * 180) / Math.PI;
+}
+
+// キーボード操作での移動量（Shift で細かく）
+const KEY_STEP = 0.05;
+const FINE_KEY_STEP = 0.01;
+const HEIGHT_KEY_STEP = 0.1;
+const FINE_HEIGHT_KEY_STEP = 0.02;
+
+// 矢印キーごとの移動方向 [x, y]
+const ARROW_DIRECTIONS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, 1],
+  ArrowDown: [0, -1],
+};
+
+// -1 から 1 の範囲にクランプ
+function clampUnit(value: number): number {
+  return Math.max(-1, Math.min(1, value));
+}
+
+// スクリーンリーダー向けの位置の読み上げ（aria-valuenow は左右だけのため、3軸すべてを含める）
+function describePosition(marker: PadMarker): string {
+  const x = marker.x < 0 ? "左" : marker.x > 0 ? "右" : "中央";
+  const y = marker.y > 0 ? "前" : marker.y < 0 ? "後" : "中央";
+  return `左右 ${marker.x.toFixed(2)} (${x})、前後 ${marker.y.toFixed(2)} (${y})、高さ ${marker.height.toFixed(2)}`;
+}
+
 // 正規化座標からパーセンテージに変換（CSS用）
 function normalizedToPercent(pos: Position): { left: string; top: string } {
   const left = ((pos.x + 1) / 2) * 100;
@@ -50,18 +113,27 @@ function normalizedToPercent(pos: Position): { left: string; top: string } {
 }
 
 export function PositionPad({
+  markers,
+  selectedId,
+  onSelect,
   onPositionChange,
-  initialPosition = { x: 0, y: 0.5 },
+  listenerYaw = 0,
+  onListenerYawChange,
+  gamepadName = null,
   disabled = false,
   className,
 }: PositionPadProps) {
-  const [position, setPosition] = useState<Position>(initialPosition);
   const [isDragging, setIsDragging] = useState(false);
+  // リスナーのつまみを回している間は音源を動かさない
+  const [isRotating, setIsRotating] = useState(false);
   const padRef = useRef<HTMLDivElement>(null);
 
-  // ポインター位置から音源位置を更新
+  const selected =
+    markers.find((marker) => marker.id === selectedId) ?? markers[0];
+
+  // ポインター位置から選択中の音源位置を更新
   const updatePosition = useCallback(
-    (clientX: number, clientY: number) => {
+    (marker: PadMarker, clientX: number, clientY: number) => {
       if (!padRef.current) return;
 
       const rect = padRef.current.getBoundingClientRect();
@@ -69,42 +141,135 @@ export function PositionPad({
       const y = clientY - rect.top;
 
       const newPos = pixelToNormalized(x, y, rect.width, rect.height);
-      setPosition(newPos);
-      onPositionChange?.(newPos.x, newPos.y);
+      onPositionChange?.(marker.id, newPos.x, newPos.y, marker.height);
     },
     [onPositionChange],
   );
 
+  // ポインター位置からリスナーの向きを更新
+  const updateYaw = useCallback(
+    (clientX: number, clientY: number) => {
+      if (!padRef.current) return;
+
+      const rect = padRef.current.getBoundingClientRect();
+      onListenerYawChange?.(
+        pixelToYaw(
+          clientX - rect.left,
+          clientY - rect.top,
+          rect.width,
+          rect.height,
+        ),
+      );
+    },
+    [onListenerYawChange],
+  );
+
+  // スライダーから高さを更新
+  const handleHeightChange = useCallback(
+    (values: number[]) => {
+      if (!selected) return;
+      onPositionChange?.(selected.id, selected.x, selected.y, values[0]);
+    },
+    [selected, onPositionChange],
+  );
+
+  // キーボードで音源を動かす
+  // 矢印キーで前後左右、PageUp/PageDown で高さ、Home で初期位置に戻す（Shift で細かく）
+  const handleMarkerKeyDown = useCallback(
+    (marker: PadMarker, e: React.KeyboardEvent) => {
+      if (disabled) return;
+
+      const step = e.shiftKey ? FINE_KEY_STEP : KEY_STEP;
+      const heightStep = e.shiftKey ? FINE_HEIGHT_KEY_STEP : HEIGHT_KEY_STEP;
+      const direction = ARROW_DIRECTIONS[e.key];
+      let next: [number, number, number] | null = null;
+
+      if (direction) {
+        next = [
+          clampUnit(marker.x + direction[0] * step),
+          clampUnit(marker.y + direction[1] * step),
+          marker.height,
+        ];
+      } else if (e.key === "PageUp" || e.key === "PageDown") {
+        const sign = e.key === "PageUp" ? 1 : -1;
+        next = [
+          marker.x,
+          marker.y,
+          clampUnit(marker.height + sign * heightStep),
+        ];
+      } else if (e.key === "Home") {
+        next = [marker.home.x, marker.home.y, marker.home.height];
+      }
+      if (!next) return;
+
+      e.preventDefault();
+      onPositionChange?.(marker.id, ...next);
+    },
+    [disabled, onPositionChange],
+  );
+
   // ポインターダウン
+  // リスナーのつまみなら向きを変更、マーカー上ならそのマーカーを選択、それ以外は選択中のマーカーを移動
   const handlePointerDown = useCallback(
     (e: React.PointerEvent) => {
       if (disabled) return;
 
+      const element = e.target as HTMLElement;
+      if (onListenerYawChange && element.closest("[data-listener]")) {
+        e.preventDefault();
+        setIsRotating(true);
+        e.currentTarget.setPointerCapture(e.pointerId);
+        return;
+      }
+
+      const markerId = element
+        .closest<HTMLElement>("[data-marker-id]")
+        ?.getAttribute("data-marker-id");
+      const target =
+        markers.find((marker) => marker.id === markerId) ?? selected;
+      if (!target) return;
+
       e.preventDefault();
       setIsDragging(true);
-      (e.target as HTMLElement).setPointerCapture(e.pointerId);
-      updatePosition(e.clientX, e.clientY);
+      e.currentTarget.setPointerCapture(e.pointerId);
+      if (target.id !== selected?.id) {
+        onSelect?.(target.id);
+      }
+      if (!markerId) {
+        updatePosition(target, e.clientX, e.clientY);
+      }
     },
-    [disabled, updatePosition],
+    [
+      disabled,
+      onListenerYawChange,
+      markers,
+      selected,
+      onSelect,
+      updatePosition,
+    ],
   );
 
   // ポインター移動
   const handlePointerMove = useCallback(
     (e: React.PointerEvent) => {
-      if (!isDragging || disabled) return;
-      updatePosition(e.clientX, e.clientY);
+      if (disabled) return;
+      if (isRotating) {
+        updateYaw(e.clientX, e.clientY);
+        return;
+      }
+      if (!isDragging || !selected) return;
+      updatePosition(selected, e.clientX, e.clientY);
     },
-    [isDragging, disabled, updatePosition],
+    [isRotating, isDragging, disabled, selected, updateYaw, updatePosition],
   );
 
   // ポインターアップ
   const handlePointerUp = useCallback((e: React.PointerEvent) => {
     setIsDragging(false);
-    (e.target as HTMLElement).releasePointerCapture(e.pointerId);
+    setIsRotating(false);
+    e.currentTarget.releasePointerCapture(e.pointerId);
   }, []);
 
-  const markerStyle = normalizedToPercent(position);
-
   return (
     <Card className={className}>
       <CardHeader>
@@ -114,79 +279,171 @@ export function PositionPad({
         </CardTitle>
       </CardHeader>
       <CardContent>
-        {/* パッド */}
-        <div
-          ref={padRef}
-          className={cn(
-            "relative aspect-square w-full cursor-crosshair select-none overflow-hidden rounded-lg border-2 transition-colors",
-            disabled
-              ? "cursor-not-allowed border-muted bg-muted/50"
-              : "border-primary/20 bg-gradient-to-b from-primary/5 to-primary/10 hover:border-primary/40",
-            isDragging && "border-primary",
-          )}
-          onPointerDown={handlePointerDown}
-          onPointerMove={handlePointerMove}
-          onPointerUp={handlePointerUp}
-          onPointerLeave={handlePointerUp}
-        >
-          {/* グリッドライン */}
-          <div className="pointer-events-none absolute inset-0">
-            {/* 十字線 */}
-            <div className="-translate-y-1/2 absolute top-1/2 left-0 h-px w-full bg-primary/10" />
-            <div className="-translate-x-1/2 absolute top-0 left-1/2 h-full w-px bg-primary/10" />
-            {/* 外周円 */}
-            <div className="-translate-x-1/2 -translate-y-1/2 absolute top-1/2 left-1/2 h-3/4 w-3/4 rounded-full border border-primary/10" />
-          </div>
-
-          {/* 方向ラベル */}
-          <div className="-translate-x-1/2 pointer-events-none absolute top-2 left-1/2 font-medium text-muted-foreground text-xs">
-            前
-          </div>
-          <div className="-translate-x-1/2 pointer-events-none absolute bottom-2 left-1/2 font-medium text-muted-foreground text-xs">
-            後
-          </div>
-          <div className="-translate-y-1/2 pointer-events-none absolute top-1/2 left-2 font-medium text-muted-foreground text-xs">
-            左
-          </div>
-          <div className="-translate-y-1/2 pointer-events-none absolute top-1/2 right-2 font-medium text-muted-foreground text-xs">
-            右
-          </div>
-
-          {/* リスナー（中央の固定マーカー） */}
-          <div className="-translate-x-1/2 -translate-y-1/2 pointer-events-none absolute top-1/2 left-1/2 flex h-6 w-6 items-center justify-center rounded-full bg-muted ring-2 ring-muted-foreground/30">
-            <span className="text-[10px]">👤</span>
-          </div>
-
-          {/* 音源マーカー（ドラッグ可能） */}
+        <div className="flex gap-4">
+          {/* パッド */}
           <div
+            ref={padRef}
             className={cn(
-              "-translate-x-1/2 -translate-y-1/2 pointer-events-none absolute flex h-8 w-8 items-center justify-center rounded-full shadow-lg transition-transform",
+              "relative aspect-square min-w-0 flex-1 cursor-crosshair select-none overflow-hidden rounded-lg border-2 transition-colors",
               disabled
-                ? "bg-muted text-muted-foreground"
-                : "bg-primary text-primary-foreground",
-              isDragging && "scale-110",
+                ? "cursor-not-allowed border-muted bg-muted/50"
+                : "border-primary/20 bg-gradient-to-b from-primary/5 to-primary/10 hover:border-primary/40",
+              isDragging && "border-primary",
             )}
-            style={markerStyle}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerLeave={handlePointerUp}
           >
-            <span className="text-sm">🔊</span>
+            {/* グリッドライン */}
+            <div className="pointer-events-none absolute inset-0">
+              {/* 十字線 */}
+              <div className="-translate-y-1/2 absolute top-1/2 left-0 h-px w-full bg-primary/10" />
+              <div className="-translate-x-1/2 absolute top-0 left-1/2 h-full w-px bg-primary/10" />
+              {/* 外周円 */}
+              <div className="-translate-x-1/2 -translate-y-1/2 absolute top-1/2 left-1/2 h-3/4 w-3/4 rounded-full border border-primary/10" />
+            </div>
+
+            {/* 方向ラベル */}
+            <div className="-translate-x-1/2 pointer-events-none absolute top-2 left-1/2 font-medium text-muted-foreground text-xs">
+              前
+            </div>
+            <div className="-translate-x-1/2 pointer-events-none absolute bottom-2 left-1/2 font-medium text-muted-foreground text-xs">
+              後
+            </div>
+            <div className="-translate-y-1/2 pointer-events-none absolute top-1/2 left-2 font-medium text-muted-foreground text-xs">
+              左
+            </div>
+            <div className="-translate-y-1/2 pointer-events-none absolute top-1/2 right-2 font-medium text-muted-foreground text-xs">
+              右
+            </div>
+
+            {/* リスナー（中央のマーカー、つまみで顔の向きを回せる） */}
+            <div
+              data-listener
+              className={cn(
+                "-translate-x-1/2 -translate-y-1/2 absolute top-1/2 left-1/2 z-20 h-6 w-6",
+                onListenerYawChange && !disabled
+                  ? "cursor-grab"
+                  : "pointer-events-none",
+                isRotating && "cursor-grabbing",
+              )}
+              title="ドラッグして顔の向きを変更"
+            >
+              <div
+                className="relative flex h-full w-full items-center justify-center rounded-full bg-muted ring-2 ring-muted-foreground/30"
+                style={{ transform: `rotate(${listenerYaw}deg)` }}
+              >
+                {/* 顔の向きを示す矢印 */}
+                <div className="-top-2 -translate-x-1/2 absolute left-1/2 h-0 w-0 border-x-4 border-x-transparent border-b-[6px] border-b-muted-foreground/60" />
+                <span
+                  className="text-[10px]"
+                  style={{ transform: `rotate(${-listenerYaw}deg)` }}
+                >
+                  👤
+                </span>
+              </div>
+            </div>
+
+            {/* 音源マーカー（ドラッグ可能） */}
+            {markers.map((marker) => {
+              const isSelected = marker.id === selected?.id;
+              return (
+                <div
+                  key={marker.id}
+                  data-marker-id={marker.id}
+                  role="slider"
+                  tabIndex={disabled ? -1 : 0}
+                  aria-roledescription="位置パッド"
+                  aria-label={`${marker.name}の位置`}
+                  // 数値は左右の位置だけを表すため、読み上げには前後と高さも含めた説明を使う
+                  aria-valuemin={-1}
+                  aria-valuemax={1}
+                  aria-valuenow={marker.x}
+                  aria-valuetext={describePosition(marker)}
+                  aria-keyshortcuts="ArrowUp ArrowDown ArrowLeft ArrowRight PageUp PageDown Home"
+                  aria-disabled={disabled}
+                  onFocus={() => {
+                    if (!isSelected) onSelect?.(marker.id);
+                  }}
+                  onKeyDown={(e) => handleMarkerKeyDown(marker, e)}
+                  className={cn(
+                    "-translate-x-1/2 -translate-y-1/2 absolute flex h-8 w-8 items-center justify-center rounded-full shadow-lg outline-none transition-transform focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2",
+                    disabled
+                      ? "bg-muted text-muted-foreground"
+                      : isSelected
+                        ? "bg-primary text-primary-foreground"
+                        : "bg-primary/40 text-primary-foreground",
+                    isSelected && "z-10",
+                    isSelected && isDragging && "scale-110",
+                  )}
+                  style={normalizedToPercent(marker)}
+                  title={marker.name}
+                >
+                  <span className="font-semibold text-sm">{marker.label}</span>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* 高さスライダー */}
+          <div className="flex flex-col items-center gap-2">
+            <span className="font-medium text-muted-foreground text-xs">
+              上
+            </span>
+            <Slider
+              orientation="vertical"
+              value={[selected?.height ?? 0]}
+              onValueChange={handleHeightChange}
+              min={-1}
+              max={1}
+              step={0.01}
+              disabled={disabled}
+              className="flex-1"
+              aria-label="音源の高さ"
+            />
+            <span className="font-medium text-muted-foreground text-xs">
+              下
+            </span>
           </div>
         </div>
 
         {/* 座標表示 */}
-        <div className="mt-3 flex justify-center gap-4 text-muted-foreground text-xs">
-          <span>
-            X: {position.x.toFixed(2)} (
-            {position.x < 0 ? "左" : position.x > 0 ? "右" : "中央"})
-          </span>
-          <span>
-            Y: {position.y.toFixed(2)} (
-            {position.y > 0 ? "前" : position.y < 0 ? "後" : "中央"})
-          </span>
-        </div>
+        {selected && (
+          <div className="mt-3 flex flex-wrap justify-center gap-4 text-muted-foreground text-xs">
+            {markers.length > 1 && (
+              <span className="font-medium">{selected.name}</span>
+            )}
+            <span>
+              X: {selected.x.toFixed(2)} (
+              {selected.x < 0 ? "左" : selected.x > 0 ? "右" : "中央"})
+            </span>
+            <span>
+              Y: {selected.y.toFixed(2)} (
+              {selected.y > 0 ? "前" : selected.y < 0 ? "後" : "中央"})
+            </span>
+            <span>
+              高さ: {selected.height.toFixed(2)} (
+              {selected.height > 0
+                ? "上"
+                : selected.height < 0
+                  ? "下"
+                  : "耳の高さ"}
+              )
+            </span>
+          </div>
+        )}
 
         {/* 説明 */}
         <p className="mt-2 text-center text-muted-foreground text-xs">
-          パッドをドラッグして音源の位置を調整
+          {markers.length > 1
+            ? "マーカーを選んでドラッグし、スライダーで高さを調整"
+            : "パッドをドラッグして音源の位置を、スライダーで高さを調整"}
+        </p>
+        <p className="mt-1 text-center text-muted-foreground text-xs">
+          {gamepadName
+            ? `${gamepadName}: 左スティックで移動、トリガーで高さ、スティック押し込みで中央`
+            : "マーカーを選んで矢印キーで移動、PageUp/PageDownで高さ、Homeで初期位置（Shiftで細かく）"}
         </p>
       </CardContent>
     </Card>
@@ -0,0 +1,64 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { SceneFileIssue } from "../lib/scene/scene-schema";
+
+interface SceneImportErrorDialogProps {
+  // 表示するエラー（null なら閉じる）
+  errorMessage: string | null;
+  issues: SceneFileIssue[];
+  onClose?: () => void;
+}
+
+export function SceneImportErrorDialog({
+  errorMessage,
+  issues,
+  onClose,
+}: SceneImportErrorDialogProps) {
+  return (
+    <Dialog
+      open={errorMessage !== null}
+      onOpenChange={(open) => {
+        if (!open) onClose?.();
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>シーンを読み込めませんでした</DialogTitle>
+          <DialogDescription>{errorMessage}</DialogDescription>
+        </DialogHeader>
+
+        {/* 項目ごとのエラー */}
+        {issues.length > 0 && (
+          <ul className="max-h-64 space-y-2 overflow-y-auto text-sm">
+            {issues.map((issue) => (
+              <li
+                key={`${issue.path}:${issue.message}`}
+                className="rounded-md border border-destructive/30 bg-destructive/5 px-3 py-2"
+              >
+                <code className="font-mono text-xs">
+                  {issue.path || "(ファイル全体)"}
+                </code>
+                <p className="text-destructive text-xs">{issue.message}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <DialogFooter>
+          <Button onClick={onClose} variant="outline">
+            閉じる
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
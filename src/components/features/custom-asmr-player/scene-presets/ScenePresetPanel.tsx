@@ -0,0 +1,219 @@
+"use client";
+
+import {
+  Bookmark,
+  Check,
+  Download,
+  FolderOpen,
+  Link2,
+  Save,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import { useId, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { SceneShareStatus } from "../hooks/use-scene-share";
+import { MAX_SCENE_NAME_LENGTH, type SavedScene } from "../lib/scene/scene";
+import { SCENE_FILE_ACCEPT } from "../lib/scene/scene-schema";
+
+interface ScenePresetPanelProps {
+  // 保存したシーン
+  presets: SavedScene[];
+  onSave?: (name: string) => boolean;
+  onLoad?: (id: string) => void;
+  onRemove?: (id: string) => void;
+
+  // 前回のセッションの復元
+  restoreLastSession: boolean;
+  onRestoreLastSessionChange?: (enabled: boolean) => void;
+
+  // リンクでの共有
+  shareStatus: SceneShareStatus;
+  onShare?: () => void;
+
+  // JSONファイルでの書き出し・読み込み
+  onExport?: () => void;
+  onImport?: (file: File) => void;
+
+  errorMessage: string | null;
+  className?: string;
+}
+
+// 保存日時の表示形式
+const savedAtFormat = new Intl.DateTimeFormat("ja-JP", {
+  month: "numeric",
+  day: "numeric",
+  hour: "2-digit",
+  minute: "2-digit",
+});
+
+export function ScenePresetPanel({
+  presets,
+  onSave,
+  onLoad,
+  onRemove,
+  restoreLastSession,
+  onRestoreLastSessionChange,
+  shareStatus,
+  onShare,
+  onExport,
+  onImport,
+  errorMessage,
+  className,
+}: ScenePresetPanelProps) {
+  const nameId = useId();
+  const restoreId = useId();
+  const [name, setName] = useState("");
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // 入力した名前で保存（保存できたら入力欄を空にする）
+  const handleSave = () => {
+    if (onSave?.(name)) {
+      setName("");
+    }
+  };
+
+  // 選択されたファイルを読み込む
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport?.(file);
+    // 同じファイルを選び直せるようにリセット
+    e.target.value = "";
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bookmark className="h-5 w-5" />
+          シーン
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* 名前を付けて保存 */}
+        <div className="space-y-2">
+          <Label htmlFor={nameId} className="text-xs">
+            現在の配置と設定を保存
+          </Label>
+          <div className="flex gap-2">
+            <Input
+              id={nameId}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleSave();
+              }}
+              maxLength={MAX_SCENE_NAME_LENGTH}
+              placeholder="シーンの名前"
+            />
+            <Button
+              onClick={handleSave}
+              disabled={!name.trim()}
+              variant="outline"
+            >
+              <Save className="mr-2 h-4 w-4" />
+              保存
+            </Button>
+          </div>
+          <p className="text-muted-foreground text-xs">
+            同じ名前のシーンは上書きされます。
+          </p>
+        </div>
+
+        {/* リンクでの共有 */}
+        <Button onClick={onShare} variant="outline" className="w-full">
+          {shareStatus === "copied" ? (
+            <Check className="mr-2 h-4 w-4" />
+          ) : (
+            <Link2 className="mr-2 h-4 w-4" />
+          )}
+          {shareStatus === "copied"
+            ? "リンクをコピーしました"
+            : "共有リンクをコピー"}
+        </Button>
+
+        {/* JSONファイルでの書き出し・読み込み */}
+        <div className="flex gap-2">
+          <Button onClick={onExport} variant="outline" className="flex-1">
+            <Download className="mr-2 h-4 w-4" />
+            JSONに書き出す
+          </Button>
+          <Button
+            onClick={() => inputRef.current?.click()}
+            variant="outline"
+            className="flex-1"
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            JSONを読み込む
+          </Button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept={SCENE_FILE_ACCEPT}
+            onChange={handleInputChange}
+            className="hidden"
+          />
+        </div>
+
+        {/* 保存したシーンの一覧 */}
+        {presets.length > 0 ? (
+          <ul className="space-y-2">
+            {presets.map((preset) => (
+              <li
+                key={preset.id}
+                className="flex items-center gap-2 rounded-md border px-3 py-2"
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-medium text-sm">{preset.name}</p>
+                  <p className="text-muted-foreground text-xs">
+                    {savedAtFormat.format(preset.savedAt)}
+                  </p>
+                </div>
+                <Button
+                  onClick={() => onLoad?.(preset.id)}
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`${preset.name}を読み込む`}
+                >
+                  <FolderOpen className="h-4 w-4" />
+                </Button>
+                <Button
+                  onClick={() => onRemove?.(preset.id)}
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`${preset.name}を削除`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-center text-muted-foreground text-xs">
+            保存したシーンはまだありません
+          </p>
+        )}
+
+        {/* 前回のセッションの復元 */}
+        <div className="flex items-center justify-between border-t pt-4">
+          <Label htmlFor={restoreId} className="text-sm">
+            起動時に前回のセッションを復元
+          </Label>
+          <Switch
+            id={restoreId}
+            checked={restoreLastSession}
+            onCheckedChange={onRestoreLastSessionChange}
+          />
+        </div>
+
+        {errorMessage && (
+          <p className="text-destructive text-xs">{errorMessage}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
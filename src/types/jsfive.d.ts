@@ -0,0 +1,21 @@
+// jsfive は型定義を同梱していないため、使用する範囲だけ宣言する
+declare module "jsfive" {
+  export class Dataset {
+    readonly name: string;
+    readonly shape: number[];
+    readonly value: ArrayLike<number> | ArrayLike<string>;
+    readonly attrs: Record<string, unknown>;
+  }
+
+  export class Group {
+    readonly name: string;
+    readonly keys: string[];
+    readonly attrs: Record<string, unknown>;
+    // 存在しないパスを指定すると例外を投げる
+    get(path: string): Group | Dataset | null;
+  }
+
+  export class File extends Group {
+    constructor(buffer: ArrayBuffer, filename?: string);
+  }
+}